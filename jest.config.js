@@ -0,0 +1,19 @@
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  moduleNameMapper: {
+    '^~/(.*)$': '<rootDir>/src/$1',
+  },
+  transform: {
+    '^.+\\.tsx?$': [
+      'ts-jest',
+      // Transpiled only, like the webpack build, which also bundles the
+      // default exports of CommonJS packages
+      {
+        tsconfig: { module: 'commonjs', esModuleInterop: true },
+        diagnostics: false,
+      },
+    ],
+  },
+};
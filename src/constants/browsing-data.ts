@@ -0,0 +1,63 @@
+import { BrowsingDataCategory, BrowsingDataTimeRange } from '~/interfaces';
+
+export const BROWSING_DATA_TIME_RANGES: {
+  [key in BrowsingDataTimeRange]: { title: string; duration: number };
+} = {
+  hour: { title: 'Last hour', duration: 60 * 60 * 1000 },
+  day: { title: 'Last 24 hours', duration: 24 * 60 * 60 * 1000 },
+  week: { title: 'Last 7 days', duration: 7 * 24 * 60 * 60 * 1000 },
+  all: { title: 'All time', duration: null },
+};
+
+// Chromium can't clear cookies, site data or its cache by time, so those
+// can only be cleared for all time.
+export const BROWSING_DATA_CATEGORIES: {
+  [key in BrowsingDataCategory]: {
+    title: string;
+    description: string;
+    allTime?: boolean;
+  };
+} = {
+  history: {
+    title: 'Browsing history',
+    description: 'Pages visited, and the top sites built from them',
+  },
+  downloads: {
+    title: 'Download history',
+    description: 'The list of downloads, the files stay on disk',
+  },
+  cookies: {
+    title: 'Cookies and site data',
+    description: 'Signs you out of most sites',
+    allTime: true,
+  },
+  cache: {
+    title: 'Cached images and files',
+    description: 'Some sites load slower on your next visit',
+    allTime: true,
+  },
+  formData: {
+    title: 'Autofill form data',
+    description: 'Saved addresses, contacts and payment cards',
+  },
+  passwords: {
+    title: 'Passwords',
+    description: 'Saved passwords',
+  },
+  favicons: {
+    title: 'Site icons',
+    description: 'Icons shown next to tabs, history and bookmarks',
+  },
+  permissions: {
+    title: 'Site permissions',
+    description: 'Camera, microphone, location and other answers given to sites',
+  },
+  crawls: {
+    title: 'Crawled pages',
+    description: 'Page contents kept for context search, with their history',
+  },
+  network: {
+    title: 'Captured network traffic',
+    description: 'Requests, responses and streams the tools are built from',
+  },
+};
@@ -0,0 +1,72 @@
+import { ICrawlRule, SensitiveSiteCategory } from '~/interfaces';
+
+export const SENSITIVE_SITE_CATEGORIES: {
+  [key in SensitiveSiteCategory]: { title: string; rules: ICrawlRule[] };
+} = {
+  banking: {
+    title: 'Banking and payment sites',
+    rules: [
+      { type: 'regex', pattern: '^https://[^/]*\\.bank(:\\d+)?(/|$)' },
+      {
+        type: 'regex',
+        pattern: '^https://([^/]*\\.)?(online|secure|my|e|net)-?banking\\.',
+      },
+      { type: 'glob', pattern: '*.paypal.com' },
+      { type: 'glob', pattern: '*.stripe.com' },
+      { type: 'glob', pattern: '*.chase.com' },
+      { type: 'glob', pattern: '*.bankofamerica.com' },
+      { type: 'glob', pattern: '*.wellsfargo.com' },
+      { type: 'glob', pattern: '*.citi.com' },
+      { type: 'glob', pattern: '*.capitalone.com' },
+      { type: 'glob', pattern: '*.usbank.com' },
+      { type: 'glob', pattern: '*.americanexpress.com' },
+      { type: 'glob', pattern: '*.discover.com' },
+      { type: 'glob', pattern: '*.schwab.com' },
+      { type: 'glob', pattern: '*.fidelity.com' },
+      { type: 'glob', pattern: '*.vanguard.com' },
+      { type: 'glob', pattern: '*.hsbc.*' },
+      { type: 'glob', pattern: '*.barclays.*' },
+      { type: 'glob', pattern: '*.santander.*' },
+      { type: 'glob', pattern: '*.revolut.com' },
+      { type: 'glob', pattern: '*.monzo.com' },
+      { type: 'glob', pattern: '*.n26.com' },
+      { type: 'glob', pattern: '*.wise.com' },
+    ],
+  },
+  email: {
+    title: 'Email providers',
+    rules: [
+      { type: 'glob', pattern: 'mail.*' },
+      { type: 'glob', pattern: 'webmail.*' },
+      { type: 'glob', pattern: 'outlook.live.com' },
+      { type: 'glob', pattern: 'outlook.office.com' },
+      { type: 'glob', pattern: 'outlook.office365.com' },
+      { type: 'glob', pattern: '*.proton.me' },
+      { type: 'glob', pattern: '*.protonmail.com' },
+      { type: 'glob', pattern: '*.fastmail.com' },
+      { type: 'glob', pattern: '*.tutanota.com' },
+      { type: 'glob', pattern: '*.hey.com' },
+      { type: 'glob', pattern: 'www.icloud.com/mail*' },
+    ],
+  },
+  intranet: {
+    title: 'Intranet and local network',
+    rules: [
+      // Hosts without a dot, e.g. https://wiki/ or https://localhost/
+      { type: 'regex', pattern: '^https://[^/.:]+(:\\d+)?(/|$)' },
+      {
+        type: 'regex',
+        pattern:
+          '^https://(10\\.|127\\.|192\\.168\\.|169\\.254\\.|172\\.(1[6-9]|2\\d|3[01])\\.)',
+      },
+      { type: 'regex', pattern: '^https://\\[' },
+      { type: 'glob', pattern: '*.local' },
+      { type: 'glob', pattern: '*.localhost' },
+      { type: 'glob', pattern: '*.internal' },
+      { type: 'glob', pattern: '*.intranet' },
+      { type: 'glob', pattern: '*.corp' },
+      { type: 'glob', pattern: '*.lan' },
+      { type: 'glob', pattern: '*.home.arpa' },
+    ],
+  },
+};
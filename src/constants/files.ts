@@ -17,6 +17,9 @@ export const WEBUI_URL_SUFFIX = WEBUI_BASE_URL.startsWith('http')
   ? '.html'
   : '';
 
+// The assistant shown next to the pages, in a webview of the app window
+export const SIDEBAR_URL = 'https://app.socrathink.com/';
+
 export const FILES = {
   'settings.json': DEFAULT_SETTINGS,
   'window-data.json': {},
@@ -1,4 +1,6 @@
 export * from './settings';
+export * from './crawl-rules';
+export * from './browsing-data';
 
 export const EXTENSIONS_PROTOCOL = 'chrome-extension';
 export const NONMODAL_DIALOGS = ['find', 'permissions'];
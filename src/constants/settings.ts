@@ -100,4 +100,35 @@ export const DEFAULT_SETTINGS: ISettings = {
   globalPrivacyControl: true,
   topBarVariant: 'default',
   token: null,
+  crawlRules: {
+    allowList: [],
+    denyList: [],
+    sameSiteOnly: false,
+    loggedInExclusions: [],
+    sensitiveCategories: ['banking', 'email', 'intranet'],
+  },
+  contextRanking: {
+    keyword: 0.35,
+    semantic: 0.35,
+    depth: 0.1,
+    recency: 0.1,
+    visits: 0.1,
+  },
+  redaction: {
+    enabled: true,
+    customPatterns: [],
+  },
+  networkRetention: {
+    maxEntries: 1000,
+    maxBytes: 50 * 1024 * 1024,
+    maxAge: 24 * 60 * 60 * 1000,
+  },
+  capture: {
+    crawl: true,
+    network: true,
+  },
+  passwordVault: {
+    autoLockAfter: 15 * 60 * 1000,
+  },
+  clearOnExit: [],
 };
@@ -0,0 +1,12 @@
+export interface IArticleMetadata {
+  title?: string;
+  byline?: string;
+  // ISO 8601, when the page tells it.
+  publishedAt?: string;
+  canonicalUrl?: string;
+}
+
+export interface IExtractedArticle extends IArticleMetadata {
+  // HTML of the main content of the page, without its navigation or ads.
+  content: string;
+}
@@ -0,0 +1,18 @@
+export type BrowsingDataTimeRange = 'hour' | 'day' | 'week' | 'all';
+
+export type BrowsingDataCategory =
+  | 'history'
+  | 'downloads'
+  | 'cookies'
+  | 'cache'
+  | 'formData'
+  | 'passwords'
+  | 'favicons'
+  | 'permissions'
+  | 'crawls'
+  | 'network';
+
+export interface IClearBrowsingDataOptions {
+  timeRange: BrowsingDataTimeRange;
+  categories: BrowsingDataCategory[];
+}
@@ -0,0 +1,7 @@
+// What the browser keeps of the pages a view loads.
+export interface ICapturePolicy {
+  // Pages are stored for the context and their links crawled.
+  crawl: boolean;
+  // Requests and streams are logged and turned into tools.
+  network: boolean;
+}
@@ -0,0 +1,42 @@
+import { ISearchContextFilters } from './passage';
+
+export interface IContextRankingWeights {
+  // BM25 score of the page content against the query.
+  keyword: number;
+  // Similarity of the closest passage embedding to the query.
+  semantic: number;
+  // Pages the user viewed rank above the ones only linked from them.
+  depth: number;
+  recency: number;
+  // How often the page appears in the history.
+  visits: number;
+}
+
+export type IContextScores = IContextRankingWeights;
+
+export interface IContextSnippet {
+  text: string;
+  // Offsets of the snippet in the page content, end excluded.
+  start: number;
+  end: number;
+  // Ranges of the matched terms, relative to the snippet text.
+  highlights: [number, number][];
+}
+
+export interface IFetchContextOptions {
+  topK?: number;
+  // Overrides the weights from the settings.
+  weights?: Partial<IContextRankingWeights>;
+  filters?: ISearchContextFilters;
+}
+
+export interface IRankedContext {
+  url: string;
+  content: string;
+  depth: number;
+  timestamp: number;
+  score: number;
+  // Each signal normalized to 0-1, before weighting.
+  scores: IContextScores;
+  snippets: IContextSnippet[];
+}
@@ -0,0 +1,45 @@
+export type CrawlJobState =
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'cancelled'
+  | 'done';
+
+export interface ICrawlFrontierEntry {
+  url: string;
+  depth: number;
+  // Times the URL was put back after the host throttled us
+  retries?: number;
+}
+
+export interface ICrawlJobOptions {
+  name?: string;
+  seedUrl: string;
+  maxDepth?: number;
+  // -1 means no page budget
+  maxPages?: number;
+  concurrency?: number;
+  // Seen URLs kept for deduplication, -1 keeps them all
+  maxVisited?: number;
+}
+
+export interface ICrawlJobInfo {
+  id: string;
+  name: string;
+  seedUrl: string;
+  maxDepth: number;
+  maxPages: number;
+  concurrency: number;
+  state: CrawlJobState;
+  crawledCount: number;
+  failedCount: number;
+  pendingCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ICrawlJobSnapshot
+  extends Omit<ICrawlJobInfo, 'pendingCount'> {
+  frontier: ICrawlFrontierEntry[];
+  visited: string[];
+}
@@ -0,0 +1,27 @@
+export interface ICrawlValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface ICrawlRevision {
+  id: string;
+  urlHash: string;
+  url: string;
+  contentHash: string;
+  content: string;
+  timestamp: number;
+}
+
+export interface IDiffLine {
+  type: 'added' | 'removed';
+  value: string;
+}
+
+export interface ICrawlChanges {
+  url: string;
+  // The revision the user saw on their last visit, if it is still known.
+  previous: { contentHash: string; timestamp: number } | null;
+  current: { contentHash: string; timestamp: number };
+  changed: boolean;
+  lines: IDiffLine[];
+}
@@ -0,0 +1,19 @@
+export type CrawlRuleType = 'glob' | 'regex';
+
+export type SensitiveSiteCategory = 'banking' | 'email' | 'intranet';
+
+export interface ICrawlRule {
+  type: CrawlRuleType;
+  pattern: string;
+}
+
+export interface ICrawlRules {
+  // When not empty, only URLs matching one of these rules are crawled.
+  allowList: ICrawlRule[];
+  denyList: ICrawlRule[];
+  // Links are only followed when they stay on the site they were found on.
+  sameSiteOnly: boolean;
+  // Sites that are skipped while the user has a session on them.
+  loggedInExclusions: ICrawlRule[];
+  sensitiveCategories: SensitiveSiteCategory[];
+}
@@ -4,5 +4,6 @@ export interface IDownloadItem {
   totalBytes?: number;
   savePath?: string;
   id?: string;
+  startedAt?: number;
   completed?: boolean;
 }
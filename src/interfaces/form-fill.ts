@@ -1,19 +1,61 @@
+import { IEncryptedValue } from './password-vault';
+
+// Named after the HTML autocomplete tokens they stand for.
+export type FormFieldType =
+  | 'username'
+  | 'email'
+  | 'current-password'
+  | 'new-password'
+  | 'name'
+  | 'given-name'
+  | 'additional-name'
+  | 'family-name'
+  | 'organization'
+  | 'tel'
+  | 'street-address'
+  | 'address-line1'
+  | 'address-line2'
+  | 'address-level2'
+  | 'address-level1'
+  | 'postal-code'
+  | 'country'
+  | 'cc-name'
+  | 'cc-number'
+  | 'cc-exp'
+  | 'cc-exp-month'
+  | 'cc-exp-year'
+  | 'cc-csc';
+
+export type FormFillProfileType = 'address' | 'contact' | 'card';
+
 export interface IFormFillData {
   _id?: string;
-  type?: 'password' | 'address';
+  type?: 'password' | FormFillProfileType;
   url?: string;
   favicon?: string;
   fields?: {
     username?: string;
     passLength?: number;
+    // Only set on the way to the page being filled, never stored.
     password?: string;
+    // The password, or the card number of a card, encrypted by the vault.
+    secret?: IEncryptedValue;
     name?: string;
+    organization?: string;
     address?: string;
+    addressLine2?: string;
     postCode?: string;
     city?: string;
+    region?: string;
     phone?: string;
     email?: string;
     country?: string;
+    cardName?: string;
+    // Only set on the way to the page being filled, never stored.
+    cardNumber?: string;
+    cardLast4?: string;
+    cardExpMonth?: string;
+    cardExpYear?: string;
   };
 }
 
@@ -22,3 +64,24 @@ export interface IFormFillMenuItem {
   text?: string;
   subtext?: string;
 }
+
+// What the classifier reads of a form field.
+export interface IFormFieldDescriptor {
+  tagName: string;
+  type?: string;
+  name?: string;
+  id?: string;
+  autocomplete?: string;
+  // Text of the labels pointing at the field, or wrapping it.
+  label?: string;
+  placeholder?: string;
+  ariaLabel?: string;
+}
+
+export interface IFormFieldClassification {
+  type: FormFieldType;
+  // From the section-*, shipping and billing autocomplete tokens, fields of
+  // a section are filled from the same profile.
+  section: string;
+  score: number;
+}
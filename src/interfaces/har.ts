@@ -0,0 +1,101 @@
+// HTTP Archive 1.2, see http://www.softwareishard.com/blog/har-12-spec/
+
+export interface IHarNameValue {
+  name: string;
+  value: string;
+  comment?: string;
+}
+
+export interface IHarPostData {
+  mimeType: string;
+  text?: string;
+  params?: IHarNameValue[];
+  comment?: string;
+}
+
+export interface IHarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: IHarNameValue[];
+  headers: IHarNameValue[];
+  queryString: IHarNameValue[];
+  postData?: IHarPostData;
+  headersSize: number;
+  bodySize: number;
+  comment?: string;
+}
+
+export interface IHarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: string;
+  compression?: number;
+  comment?: string;
+}
+
+export interface IHarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: IHarNameValue[];
+  headers: IHarNameValue[];
+  content: IHarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  comment?: string;
+}
+
+export interface IHarTimings {
+  blocked?: number;
+  dns?: number;
+  connect?: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl?: number;
+  comment?: string;
+}
+
+export interface IHarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: IHarRequest;
+  response: IHarResponse;
+  cache: Record<string, any>;
+  timings: IHarTimings;
+  serverIPAddress?: string;
+  connection?: string;
+  comment?: string;
+}
+
+export interface IHarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: { onContentLoad?: number; onLoad?: number; comment?: string };
+  comment?: string;
+}
+
+export interface IHarLog {
+  version: string;
+  creator: { name: string; version: string; comment?: string };
+  browser?: { name: string; version: string; comment?: string };
+  pages?: IHarPage[];
+  entries: IHarEntry[];
+  comment?: string;
+}
+
+export interface IHar {
+  log: IHarLog;
+}
+
+export interface IHarExportOptions {
+  // Only the requests made by this tab.
+  tabId?: number;
+  // Only the requests sent to this origin.
+  origin?: string;
+}
@@ -11,3 +11,18 @@ export * from './form-fill';
 export * from './storage';
 export * from './bounds';
 export * from './extensions';
+export * from './crawl-job';
+export * from './crawl-rules';
+export * from './crawl-revision';
+export * from './passage';
+export * from './context-ranking';
+export * from './redaction';
+export * from './har';
+export * from './network-inspector';
+export * from './network-stream';
+export * from './structured-data';
+export * from './article';
+export * from './capture-policy';
+export * from './password-vault';
+export * from './password-transfer';
+export * from './browsing-data';
@@ -0,0 +1,39 @@
+import { IHarTimings } from './har';
+
+export interface INetworkRequestTool {
+  name: string;
+  pattern: string;
+}
+
+// A captured request as listed by the network inspector, without bodies.
+export interface INetworkRequestSummary {
+  requestId: string;
+  url: string;
+  origin: string;
+  method: string;
+  status: number;
+  contentType: string;
+  size: number;
+  timestamp: number;
+  duration?: number;
+  tabId?: number;
+  // The discovered tool the request is an example of, if any.
+  tool?: INetworkRequestTool;
+}
+
+export interface INetworkRequestDetails extends INetworkRequestSummary {
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  responseHeaders: Record<string, string>;
+  responseBody?: string;
+  timings?: IHarTimings;
+}
+
+// Limits on the requests kept for each tab, oldest requests go first.
+export interface INetworkRetention {
+  maxEntries: number;
+  // Total length of the request and response bodies, in bytes.
+  maxBytes: number;
+  // In milliseconds.
+  maxAge: number;
+}
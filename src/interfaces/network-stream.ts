@@ -0,0 +1,25 @@
+export type NetworkStreamKind = 'websocket' | 'sse';
+
+export type StreamMessageDirection = 'sent' | 'received';
+
+export interface INetworkStreamMessage {
+  direction: StreamMessageDirection;
+  data: string;
+  // Name of the event, for Server-Sent Events.
+  event?: string;
+  timestamp: number;
+}
+
+// A WebSocket or EventSource connection, with its most recent messages.
+export interface INetworkStream {
+  // The id of the request that opened the connection.
+  id: string;
+  kind: NetworkStreamKind;
+  url: string;
+  baseUrl: string;
+  tabId?: number;
+  openedAt: number;
+  closedAt?: number;
+  updatedAt: number;
+  messages: INetworkStreamMessage[];
+}
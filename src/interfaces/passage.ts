@@ -0,0 +1,54 @@
+import { IArticleMetadata } from './article';
+import { IStructuredRecord } from './structured-data';
+
+export interface IPassage {
+  id: string;
+  urlHash: string;
+  url: string;
+  // Position of the passage in its document.
+  index: number;
+  text: string;
+  // Character offsets in the stored content, end excluded.
+  start: number;
+  end: number;
+  headings: string[];
+  page: number;
+  // Hash of the document content the passage was cut from.
+  contentHash: string;
+  embedding?: number[];
+  // Model the embedding was computed with, passages are embedded again
+  // when it changes.
+  embeddingModel?: string;
+}
+
+// The title, byline, publish date and canonical URL of the page, when found.
+export interface IStoredDocument extends IArticleMetadata {
+  url: string;
+  contentHash: string;
+  timestamp: number;
+  content: string;
+  passages: IPassage[];
+  // JSON-LD, microdata, OpenGraph cards and tables found in the page.
+  records: IStructuredRecord[];
+}
+
+export interface ISearchContextFilters {
+  urls?: string[];
+  domains?: string[];
+  maxDepth?: number;
+  // Only pages stored after this timestamp.
+  since?: number;
+}
+
+export interface ISearchContextResult {
+  url: string;
+  passageId: string;
+  text: string;
+  headings: string[];
+  page: number;
+  start: number;
+  end: number;
+  depth: number;
+  timestamp: number;
+  score: number;
+}
@@ -0,0 +1,35 @@
+// Chrome and Edge share one layout.
+export type PasswordCsvFormat = 'chrome' | 'firefox' | 'bitwarden';
+
+export interface IPasswordCsvEntry {
+  url: string;
+  username: string;
+  password: string;
+}
+
+// 'duplicate' logins are already saved with the same password and are
+// skipped, 'conflict' ones are saved with another password.
+export type PasswordImportStatus = 'new' | 'duplicate' | 'conflict';
+
+export interface IPasswordImportItem {
+  // Row of the login in the imported file, counted from 0.
+  index: number;
+  hostname: string;
+  username: string;
+  passLength: number;
+  status: PasswordImportStatus;
+}
+
+// What an import would change. Passwords stay in the main process.
+export interface IPasswordImportPreview {
+  id: string;
+  format: PasswordCsvFormat;
+  items: IPasswordImportItem[];
+  // Rows without a web address or a password.
+  invalid: number;
+}
+
+export interface IPasswordImportResult {
+  inserted: number;
+  replaced: number;
+}
@@ -0,0 +1,17 @@
+// AES-256-GCM ciphertext, base64 encoded.
+export interface IEncryptedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface IPasswordVaultStatus {
+  // A master password was set.
+  initialized: boolean;
+  unlocked: boolean;
+}
+
+export interface IPasswordVaultSettings {
+  // Idle time after which the vault locks itself, 0 to never lock.
+  autoLockAfter: number;
+}
@@ -0,0 +1,21 @@
+export type SecretKind =
+  | 'bearer'
+  | 'cookie'
+  | 'token'
+  | 'apikey'
+  | 'jwt'
+  | 'email'
+  | 'card'
+  | 'custom';
+
+export interface IRedactionPattern {
+  name: string;
+  // Source of a regular expression, matched case-insensitively.
+  pattern: string;
+}
+
+export interface IRedactionSettings {
+  enabled: boolean;
+  // Matches of these patterns are masked on top of the built-in detectors.
+  customPatterns: IRedactionPattern[];
+}
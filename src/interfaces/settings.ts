@@ -1,3 +1,11 @@
+import { ICrawlRules } from './crawl-rules';
+import { IContextRankingWeights } from './context-ranking';
+import { IRedactionSettings } from './redaction';
+import { INetworkRetention } from './network-inspector';
+import { ICapturePolicy } from './capture-policy';
+import { IPasswordVaultSettings } from './password-vault';
+import { BrowsingDataCategory } from './browsing-data';
+
 export interface ISearchEngine {
   name?: string;
   url?: string;
@@ -37,4 +45,13 @@ export interface ISettings {
   topBarVariant: TopBarVariant;
   token: string | null;
   globalPrivacyControl: boolean;
+  crawlRules: ICrawlRules;
+  contextRanking: IContextRankingWeights;
+  redaction: IRedactionSettings;
+  networkRetention: INetworkRetention;
+  // Of regular windows, private ones never capture anything.
+  capture: ICapturePolicy;
+  passwordVault: IPasswordVaultSettings;
+  // Cleared for all time whenever the browser quits.
+  clearOnExit: BrowsingDataCategory[];
 }
@@ -0,0 +1,98 @@
+import { ISearchContextFilters } from './passage';
+
+export type StructuredDataSource =
+  | 'json-ld'
+  | 'microdata'
+  | 'opengraph'
+  | 'twitter'
+  | 'table';
+
+export type EntityKind = 'product' | 'event' | 'article' | 'recipe';
+
+export type StructuredRecordKind = EntityKind | 'table' | 'other';
+
+export interface IProductEntity {
+  kind: 'product';
+  name: string;
+  description?: string;
+  image?: string;
+  brand?: string;
+  sku?: string;
+  // The lowest price when there are several offers.
+  price?: number;
+  currency?: string;
+  availability?: string;
+  rating?: number;
+  reviewCount?: number;
+}
+
+export interface IEventEntity {
+  kind: 'event';
+  name: string;
+  description?: string;
+  startDate?: string;
+  endDate?: string;
+  location?: string;
+  organizer?: string;
+}
+
+export interface IArticleEntity {
+  kind: 'article';
+  headline: string;
+  description?: string;
+  authors: string[];
+  datePublished?: string;
+  dateModified?: string;
+  publisher?: string;
+  image?: string;
+}
+
+export interface IRecipeEntity {
+  kind: 'recipe';
+  name: string;
+  description?: string;
+  ingredients: string[];
+  instructions: string[];
+  prepTime?: string;
+  cookTime?: string;
+  totalTime?: string;
+  recipeYield?: string;
+  image?: string;
+}
+
+export type IStructuredEntity =
+  | IProductEntity
+  | IEventEntity
+  | IArticleEntity
+  | IRecipeEntity;
+
+export interface ITableData {
+  caption?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+// A record as extracted from a page, before it is stored.
+export interface IExtractedRecord {
+  source: StructuredDataSource;
+  // The schema.org type, the OpenGraph type, the Twitter card or `Table`.
+  type: string;
+  kind: StructuredRecordKind;
+  // Normalized fields, for the kinds of entities that are recognized.
+  entity?: IStructuredEntity;
+  // The record as found in the page, or the cells of a table.
+  data: any;
+}
+
+export interface IStructuredRecord extends IExtractedRecord {
+  id: string;
+  urlHash: string;
+  url: string;
+  // Position of the record in its page.
+  index: number;
+  timestamp: number;
+}
+
+export interface IEntityFilters extends ISearchContextFilters {
+  kinds?: EntityKind[];
+}
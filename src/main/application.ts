@@ -29,42 +29,6 @@ export class Application {
   public windows: WindowsService;
 
   public dialogs = new DialogsService();
-  private splitIntoChunks(text: string, maxChunkSize: number = 8000, totalSize: number): { text: string, estimatedPage: number }[] {
-    const chunks: { text: string, estimatedPage: number }[] = [];
-    let currentChunk = '';
-    let currentPosition = 0;
-
-    const paragraphs = text.split(/\n\s*\n/);
-
-    for (const paragraph of paragraphs) {
-      const sentences = paragraph.split(/(?<=[.!?])\s+/);
-
-      for (const sentence of sentences) {
-        if (currentChunk.length + sentence.length + 1 <= maxChunkSize) {
-          currentChunk += (currentChunk ? ' ' : '') + sentence;
-        } else {
-          if (currentChunk) {
-            const estimatedPage = Math.ceil((currentPosition / totalSize) * 100); // Assuming 100 pages total
-            chunks.push({ text: currentChunk.trim(), estimatedPage });
-            currentPosition += currentChunk.length;
-          }
-          currentChunk = sentence;
-        }
-      }
-
-      if (currentChunk) {
-        currentChunk += '\n\n';
-      }
-    }
-
-    if (currentChunk) {
-      const estimatedPage = Math.ceil((currentPosition / totalSize) * 100); // Assuming 100 pages total
-      chunks.push({ text: currentChunk.trim(), estimatedPage });
-    }
-
-    return chunks;
-  }
-
   private async findMostSimilarPage(pdfContent: string, searchText: string): Promise<number> {
     const pages = pdfContent.split(/\f/); // Split PDF content into pages
     const fuzzyResults = pages.map((page, index) => ({
@@ -12,7 +12,10 @@ import { v4 as uuidv4 } from 'uuid';
 import { platform } from 'os';
 import { Application } from './application';
 
-import { setupNetworkHandlers, addNetworkLog, sendNetworkLogToRenderers } from './network';
+import { setupNetworkHandlers } from './network';
+import { PasswordVault } from './services/password-vault';
+import { PasswordTransfer } from './services/password-transfer';
+import { BrowsingData } from './services/browsing-data';
 import { parseMarkdown } from '~/utils/parse';
 
 import { ContextService } from './services/context';
@@ -48,6 +51,10 @@ app.once('ready', async () => {
   new ContextService();
 
   setupNetworkHandlers();
+
+  PasswordVault.getInstance();
+  PasswordTransfer.getInstance();
+  BrowsingData.getInstance();
 });
 process.on('uncaughtException', (error) => {
   console.error(error);
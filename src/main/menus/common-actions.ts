@@ -1,6 +1,10 @@
 import { extname } from 'path';
-import { dialog } from 'electron';
+import { promises } from 'fs';
+import { app, dialog } from 'electron';
 import { Application } from '../application';
+import { NetworkStore } from '~/renderer/views/app/store/network-store';
+import { fromHar } from '~/renderer/views/app/store/har';
+import { NetworkCapture } from '../services/network-capture';
 
 export const saveAs = async () => {
   const {
@@ -41,3 +45,91 @@ export const printPage = () => {
   } = Application.instance.windows.current.viewManager.selected;
   webContents.print();
 };
+
+export const exportOpenApi = async () => {
+  const { url } = Application.instance.windows.current.viewManager.selected;
+
+  if (!/^https?:\/\//.test(url)) return;
+
+  const { origin, hostname } = new URL(url);
+  const networkStore = await NetworkStore.getInstance();
+  const document = await networkStore.getOpenApiDocument(origin);
+
+  if (!document) {
+    await dialog.showMessageBox({
+      type: 'info',
+      message: `No API requests were captured for ${hostname} yet.`,
+    });
+    return;
+  }
+
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    defaultPath: `${hostname}.openapi.json`,
+    filters: [{ name: 'OpenAPI document', extensions: ['json'] }],
+  });
+
+  if (canceled) return;
+
+  await promises.writeFile(filePath, JSON.stringify(document, null, 2));
+};
+
+export const exportHar = async () => {
+  const { id, url } = Application.instance.windows.current.viewManager.selected;
+
+  const networkStore = await NetworkStore.getInstance();
+  const har = await networkStore.exportHar(
+    { tabId: id },
+    { name: app.name, version: app.getVersion() },
+  );
+
+  if (har.log.entries.length === 0) {
+    await dialog.showMessageBox({
+      type: 'info',
+      message: 'No requests were captured in this tab yet.',
+    });
+    return;
+  }
+
+  const hostname = /^https?:\/\//.test(url) ? new URL(url).hostname : 'network';
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    defaultPath: `${hostname}.har`,
+    filters: [{ name: 'HTTP Archive', extensions: ['har'] }],
+  });
+
+  if (canceled) return;
+
+  await promises.writeFile(filePath, JSON.stringify(har, null, 2));
+};
+
+export const importHar = async () => {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: [{ name: 'HTTP Archive', extensions: ['har', 'json'] }],
+  });
+
+  if (canceled || filePaths.length === 0) return;
+
+  let captures;
+  try {
+    captures = fromHar(JSON.parse(await promises.readFile(filePaths[0], 'utf8')));
+  } catch {
+    await dialog.showMessageBox({
+      type: 'error',
+      message: 'The file is not a valid HAR file.',
+    });
+    return;
+  }
+
+  const { imported, tools } = await NetworkCapture.getInstance().importCaptures(
+    captures,
+  );
+
+  await dialog.showMessageBox({
+    type: 'info',
+    message: `Imported ${imported} requests.`,
+    detail:
+      tools.length > 0
+        ? `Tools discovered: ${tools.join(', ')}`
+        : 'No tools were discovered in these requests.',
+  });
+};
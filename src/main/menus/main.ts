@@ -1,6 +1,13 @@
 import { Menu, webContents, app, BrowserWindow, MenuItem } from 'electron';
 import { defaultTabOptions } from '~/constants/tabs';
-import { viewSource, saveAs, printPage } from './common-actions';
+import {
+  viewSource,
+  saveAs,
+  printPage,
+  exportOpenApi,
+  exportHar,
+  importHar,
+} from './common-actions';
 import { AppWindow } from '../windows';
 import { Application } from '../application';
 import { getWebUIURL } from '~/common/webui';
@@ -296,6 +303,33 @@ export const getMainMenu = () => {
               },
               'Developer tools...',
             ),
+            {
+              label: 'Network Inspector',
+              click: () => {
+                Application.instance.windows.current.viewManager.create({
+                  url: getWebUIURL('network'),
+                  active: true,
+                });
+              },
+            },
+            {
+              label: 'Export API as OpenAPI...',
+              click: async () => {
+                await exportOpenApi();
+              },
+            },
+            {
+              label: 'Export Network Log as HAR...',
+              click: async () => {
+                await exportHar();
+              },
+            },
+            {
+              label: 'Import HAR...',
+              click: async () => {
+                await importHar();
+              },
+            },
 
             // Developer tools (current webContents) (dev)
             ...createMenuItem(['CmdOrCtrl+Shift+F12'], () => {
@@ -1,52 +1,72 @@
 // @network.ts
 
-import { ipcMain } from 'electron';
-
-interface NetworkLogEntry {
-  id: string;
-  request: {
-    url: string;
-    method: string;
-    headers?: Record<string, string>;
-    body?: string;
-  };
-  response: {
-    status: number;
-    headers?: Record<string, string>;
-    body?: string;
-  };
-  timestamp: number;
-}
-
-let networkLogs: NetworkLogEntry[] = [];
-
-export function addNetworkLog(log: NetworkLogEntry) {
-  networkLogs.unshift(log);
-  // Limit the number of logs stored to prevent memory issues
-  if (networkLogs.length > 1000) networkLogs = networkLogs.slice(0, 1000);
-}
+import { ipcMain, WebContents } from 'electron';
+import {
+  NetworkStore,
+  StoredNetworkData,
+} from '~/renderer/views/app/store/network-store';
+import { NetworkCapture } from './services/network-capture';
 
-export function getNetworkLogs() {
-  return networkLogs;
-}
+export function setupNetworkHandlers() {
+  ipcMain.handle('clear-network-logs', async () => {
+    await NetworkCapture.getInstance().clear();
+    return true;
+  });
 
-export function clearNetworkLogs() {
-  networkLogs = [];
-}
+  ipcMain.handle('network-inspector-list', async (e, limit?: number) => {
+    return (await NetworkStore.getInstance()).listRequests(limit);
+  });
 
-export function setupNetworkHandlers() {
-  ipcMain.handle('get-network-logs', async () => {
-    return getNetworkLogs();
+  ipcMain.handle('network-inspector-get', async (e, requestId: string) => {
+    return (await NetworkStore.getInstance()).getRequestDetails(requestId);
   });
 
-  ipcMain.handle('clear-network-logs', async () => {
-    clearNetworkLogs();
-    return true;
+  // Inspector pages get every captured request as it comes in
+  ipcMain.on('network-inspector-subscribe', (e) => {
+    subscribeInspector(e.sender);
   });
 }
 
-export function sendNetworkLogToRenderers(webContents: Electron.WebContents[], channel: string, logEntry: NetworkLogEntry) {
-  webContents.forEach((contents) => {
-    contents.send(channel, logEntry);
+const inspectors: Set<WebContents> = new Set();
+
+const broadcast = (channel: string, ...args: any[]) => {
+  inspectors.forEach((inspector) => inspector.send(channel, ...args));
+};
+
+const onRequestChange = async (entry: StoredNetworkData) => {
+  const networkStore = await NetworkStore.getInstance();
+  broadcast('network-inspector-update', networkStore.toSummary(entry));
+};
+
+const onRequestsRemoved = (requestIds: string[]) => {
+  broadcast('network-inspector-remove', requestIds);
+};
+
+const onCleared = () => {
+  broadcast('network-inspector-clear');
+};
+
+function subscribeInspector(contents: WebContents) {
+  if (inspectors.has(contents)) return;
+
+  const capture = NetworkCapture.getInstance();
+  if (inspectors.size === 0) {
+    capture.on('request', onRequestChange);
+    capture.on('response', onRequestChange);
+    capture.on('finished', onRequestChange);
+    capture.on('removed', onRequestsRemoved);
+    capture.on('cleared', onCleared);
+  }
+  inspectors.add(contents);
+
+  contents.once('destroyed', () => {
+    inspectors.delete(contents);
+    if (inspectors.size === 0) {
+      capture.off('request', onRequestChange);
+      capture.off('response', onRequestChange);
+      capture.off('finished', onRequestChange);
+      capture.off('removed', onRequestsRemoved);
+      capture.off('cleared', onCleared);
+    }
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,89 @@
+jest.mock('electron', () => ({
+    app: { getPath: () => '', getVersion: () => '', on: jest.fn() },
+    ipcMain: { handle: jest.fn() },
+    session: {},
+}));
+jest.mock('../../application', () => ({
+    Application: { instance: { settings: { object: {} } } },
+}));
+jest.mock('../context', () => ({ getAuthInfo: jest.fn(), isTrustedSender: () => true }));
+jest.mock('../network-capture', () => ({ NetworkCapture: { getInstance: jest.fn() } }));
+
+// Pages crawled in the last hour are the ones cleared over that range
+const crawlStore = {
+    clear: jest.fn(async () => undefined),
+    removeSince: jest.fn(async () => ['https://example.com/recent']),
+};
+jest.mock('~/renderer/views/app/store/crawl-store', () => ({
+    CrawlStore: { getInstance: async () => crawlStore },
+}));
+
+const snapshots = new Map<string, ICrawlJobSnapshot>();
+jest.mock('~/renderer/views/app/store/crawl-job-store', () => ({
+    CrawlJobStore: {
+        getInstance: async () => ({
+            getAll: async () => Array.from(snapshots.values()),
+            save: async (snapshot: ICrawlJobSnapshot) => {
+                snapshots.set(snapshot.id, snapshot);
+            },
+            remove: async (id: string) => {
+                snapshots.delete(id);
+            },
+        }),
+    },
+}));
+
+import { sha256 } from 'hash-wasm';
+import { ICrawlJobSnapshot } from '~/interfaces';
+import { BrowsingData } from '../browsing-data';
+import { QueueManager } from '../queue-manager';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('BrowsingData', () => {
+    // No worker pool, so nothing is actually crawled
+    const queueManager = QueueManager.getInstance(crawlStore as any, null);
+    const browsingData = BrowsingData.getInstance();
+
+    const getBrowsingJob = () => queueManager.getJob('browsing');
+
+    beforeEach(async () => {
+        jest.useFakeTimers();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        for (const url of ['https://example.com/old', 'https://example.com/recent']) {
+            await queueManager.enqueue(url);
+        }
+
+        const old = await queueManager.createJob({ name: 'Old', seedUrl: 'https://docs.example.com/' });
+        old.createdAt = Date.now() - 2 * HOUR;
+        await queueManager.createJob({ name: 'Recent', seedUrl: 'https://blog.example.com/' });
+    });
+
+    afterEach(() => {
+        jest.runOnlyPendingTimers();
+        jest.useRealTimers();
+    });
+
+    it('removes the crawl jobs along with the crawled pages', async () => {
+        expect(await browsingData.clear({ timeRange: 'all', categories: ['crawls'] })).toEqual([]);
+
+        expect(crawlStore.clear).toHaveBeenCalled();
+        expect(Array.from(snapshots.keys())).toEqual(['browsing']);
+        expect(snapshots.get('browsing')).toMatchObject({ frontier: [], visited: [] });
+        expect(getBrowsingJob().pendingCount).toBe(0);
+    });
+
+    it('keeps the jobs created before the time range', async () => {
+        expect(await browsingData.clear({ timeRange: 'hour', categories: ['crawls'] })).toEqual([]);
+
+        expect(crawlStore.removeSince).toHaveBeenCalled();
+        expect(Array.from(snapshots.values()).map(job => job.name).sort()).toEqual(['Browsing', 'Old']);
+
+        // The pages cleared may be crawled again, the others are still known
+        const browsing = getBrowsingJob();
+        expect(browsing.pendingCount).toBe(0);
+        expect(browsing.hasVisited(await sha256('https://example.com/recent'))).toBe(false);
+        expect(browsing.hasVisited(await sha256('https://example.com/old'))).toBe(true);
+    });
+});
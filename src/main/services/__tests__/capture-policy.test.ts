@@ -0,0 +1,247 @@
+import { EventEmitter } from 'events';
+import { Debugger, IpcMainInvokeEvent, WebContents, WebRequest } from 'electron';
+
+type Handler = (event: Pick<IpcMainInvokeEvent, 'sender'>, ...args: unknown[]) => Promise<{ ok: boolean; data: unknown }>;
+
+// The parts of a tab the view and the crawler use, with the debugger
+// feeding the crawler CDP events
+type FakeWebContents = EventEmitter & Pick<WebContents, 'id' | 'userAgent' | 'getURL' | 'loadURL'> & {
+    session: { webRequest: Pick<WebRequest, 'onBeforeSendHeaders'> };
+    debugger: EventEmitter & Pick<Debugger, 'attach' | 'sendCommand'>;
+};
+
+const handlers = new Map<string, Handler>();
+const tabs: FakeWebContents[] = [];
+
+jest.mock('electron', () => ({
+    app: { getPath: () => '', getAppPath: () => '', getVersion: () => '' },
+    ipcMain: {
+        handle: (channel: string, handler: Handler) => {
+            handlers.set(channel, handler);
+        },
+    },
+    BrowserView: jest.fn(() => {
+        const webContents = createWebContents();
+        tabs.push(webContents);
+        return { webContents, setBackgroundColor: jest.fn(), setAutoResize: jest.fn() };
+    }),
+    session: {},
+}));
+jest.mock('electron-debug', () => jest.fn());
+jest.mock('../../application', () => ({
+    Application: { instance: { settings: { object: { capture: { crawl: true, network: true } } } } },
+}));
+jest.mock('../../menus/view', () => ({ getViewMenu: jest.fn() }));
+jest.mock('~/utils/hybrid-fetch', () => ({
+    extractLinks: () => ['https://example.com/next'],
+    hybridFetch: jest.fn(),
+}));
+
+// Pages crawled, whether loaded in a tab or found on one
+const crawled: string[] = [];
+const queueManager = { enqueue: jest.fn(async (url: string) => crawled.push(url)) };
+const linkProcessor = { addInitialUrl: jest.fn((url: string) => crawled.push(url)) };
+jest.mock('../queue-manager', () => ({ QueueManager: { getInstance: jest.fn(() => queueManager) } }));
+jest.mock('../crawler', () => ({ LinkProcessor: jest.fn(() => linkProcessor) }));
+jest.mock('~/renderer/views/app/store/crawl-store', () => ({ CrawlStore: { getInstance: jest.fn() } }));
+jest.mock('../embeddings', () => ({ EmbeddingService: { getInstance: async () => ({}) } }));
+jest.mock('../context-ranker', () => ({
+    ContextRanker: { getInstance: async () => ({ rank: async () => crawled.map(url => ({ url })) }) },
+}));
+
+// Tools are learned from the requests logged
+const logged: { url: string }[] = [];
+const networkStore = {
+    addRequestToLog: jest.fn(async (details: { url: string }) => {
+        logged.push(details);
+        return { ...details, timestamp: Date.now() };
+    }),
+    updateLogWithResponse: jest.fn(async () => undefined),
+    hashString: jest.fn(async () => 'hash'),
+    saveStreams: jest.fn(async () => undefined),
+    pruneTab: jest.fn(async (): Promise<string[]> => []),
+    removeCapturedBefore: jest.fn(async (): Promise<string[]> => []),
+    removeStreamsBefore: jest.fn(async () => undefined),
+    getTools: jest.fn(async () => logged.map(({ url }) => ({ name: url }))),
+};
+jest.mock('~/renderer/views/app/store/network-store', () => ({
+    NetworkStore: { getInstance: async () => networkStore },
+}));
+
+import { ICapturePolicy } from '~/interfaces';
+import { SIDEBAR_URL } from '~/constants/files';
+import { Application } from '../../application';
+import { View } from '../../view';
+import { AppWindow } from '../../windows';
+import { resolveCapturePolicy } from '../capture-policy';
+import { ContextService } from '../context';
+import { DevToolsCrawler } from '../devtools-crawler';
+import { NetworkCapture } from '../network-capture';
+import { QueueManager } from '../queue-manager';
+
+const PAGE = '<html><body><p>A page long enough to be crawled, with a <a href="/next">link</a>.</p></body></html>';
+
+function createWebContents(): FakeWebContents {
+    return Object.assign(new EventEmitter(), {
+        id: 1,
+        userAgent: '',
+        getURL: () => 'https://example.com/',
+        loadURL: jest.fn(async () => undefined),
+        session: { webRequest: { onBeforeSendHeaders: jest.fn() } },
+        debugger: Object.assign(new EventEmitter(), {
+            attach: jest.fn(),
+            sendCommand: jest.fn(async (command: string) =>
+                command === 'Network.getResponseBody' ? { body: PAGE, base64Encoded: false } : {}),
+        }),
+    });
+}
+
+// A page load with a WebSocket and an event stream opened by the page
+const browse = async (webContents: FakeWebContents) => {
+    const send = (method: string, params: object) =>
+        Promise.all(webContents.debugger.listeners('message').map(listener => listener({}, method, params)));
+
+    await send('Network.requestWillBeSent', {
+        requestId: 'page',
+        type: 'Document',
+        timestamp: 1,
+        request: { url: 'https://example.com/', method: 'GET', headers: { Cookie: 'sid=abc' } },
+    });
+    await send('Network.responseReceived', {
+        requestId: 'page',
+        response: { url: 'https://example.com/', status: 200, headers: {}, mimeType: 'text/html' },
+    });
+    await send('Network.loadingFinished', { requestId: 'page', timestamp: 2 });
+
+    await send('Network.webSocketCreated', { requestId: 'socket', url: 'wss://example.com/live' });
+    await send('Network.webSocketFrameReceived', {
+        requestId: 'socket',
+        response: { opcode: 1, payloadData: '{"price":1}' },
+    });
+    await send('Network.requestWillBeSent', {
+        requestId: 'events',
+        type: 'EventSource',
+        timestamp: 3,
+        request: { url: 'https://example.com/events', method: 'GET', headers: {} },
+    });
+    await send('Network.eventSourceMessageReceived', { requestId: 'events', data: 'tick' });
+
+    webContents.emit('did-finish-load');
+};
+
+describe('capture policy', () => {
+    let captured: jest.Mock;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        crawled.length = 0;
+        logged.length = 0;
+        tabs.length = 0;
+
+        captured = jest.fn();
+        const capture = NetworkCapture.getInstance();
+        capture.removeAllListeners();
+        for (const event of ['request', 'response', 'finished', 'stream-opened', 'stream-message']) {
+            capture.on(event as any, captured);
+        }
+    });
+
+    afterEach(() => {
+        NetworkCapture.getInstance().closeTabStreams(1);
+        jest.runOnlyPendingTimers();
+        jest.useRealTimers();
+    });
+
+    describe('DevToolsCrawler', () => {
+        const crawl = async (policy: ICapturePolicy) => {
+            const webContents = createWebContents();
+            new DevToolsCrawler(webContents as unknown as WebContents, queueManager as unknown as QueueManager, () => policy);
+            await browse(webContents);
+        };
+
+        it('captures nothing in private windows, whatever the settings', () => {
+            expect(resolveCapturePolicy(true)).toEqual({ crawl: false, network: false });
+            expect(resolveCapturePolicy(false)).toEqual({ crawl: true, network: true });
+        });
+
+        it('keeps the traffic of private windows out of the stores', async () => {
+            await crawl(resolveCapturePolicy(true));
+
+            expect(networkStore.addRequestToLog).not.toHaveBeenCalled();
+            expect(networkStore.updateLogWithResponse).not.toHaveBeenCalled();
+            expect(networkStore.saveStreams).not.toHaveBeenCalled();
+            expect(queueManager.enqueue).not.toHaveBeenCalled();
+            expect(captured).not.toHaveBeenCalled();
+        });
+
+        it('stores the traffic of other windows', async () => {
+            await crawl(resolveCapturePolicy(false));
+
+            expect(networkStore.addRequestToLog).toHaveBeenCalled();
+            expect(queueManager.enqueue).toHaveBeenCalledWith('https://example.com/next', 1, 'https://example.com/');
+            expect(captured).toHaveBeenCalled();
+        });
+
+        it('crawls pages without logging their requests', async () => {
+            await crawl({ crawl: true, network: false });
+
+            expect(networkStore.addRequestToLog).not.toHaveBeenCalled();
+            expect(captured).not.toHaveBeenCalled();
+            expect(queueManager.enqueue).toHaveBeenCalled();
+        });
+    });
+
+    describe('views', () => {
+        new ContextService();
+
+        // What the sidebar gets back for the pages browsed so far
+        const sidebar = { sender: { getURL: () => SIDEBAR_URL, getType: () => 'webview' } as WebContents };
+        const fetchContext = async () => (await handlers.get('fetch-context')(sidebar, '')).data;
+        const getTools = async () => (await handlers.get('get-tools')(sidebar)).data;
+
+        const browseIn = async (incognito: boolean) => {
+            new View({ win: { id: 1 } } as AppWindow, 'https://example.com/', incognito, null, null);
+            await browse(tabs[0]);
+        };
+
+        it('keeps the pages of private views out of the context and tools', async () => {
+            await browseIn(true);
+
+            expect(tabs[0].debugger.attach).not.toHaveBeenCalled();
+            expect(crawled).toEqual([]);
+            expect(captured).not.toHaveBeenCalled();
+            expect(await fetchContext()).toEqual([]);
+            expect(await getTools()).toEqual([]);
+        });
+
+        it('adds the pages of other views to the context and tools', async () => {
+            await browseIn(false);
+
+            expect(tabs[0].debugger.attach).toHaveBeenCalled();
+            expect(await fetchContext()).toEqual([
+                { url: 'https://example.com/next' },
+                { url: 'https://example.com/' },
+            ]);
+            expect(await getTools()).toEqual([
+                { name: 'https://example.com/' },
+                { name: 'https://example.com/events' },
+            ]);
+        });
+
+        it('follows the capture settings of the profile', async () => {
+            const { object: settings } = Application.instance.settings;
+            settings.capture = { crawl: false, network: true };
+            try {
+                await browseIn(false);
+            } finally {
+                settings.capture = { crawl: true, network: true };
+            }
+
+            expect(await fetchContext()).toEqual([]);
+            expect(await getTools()).toHaveLength(2);
+        });
+    });
+});
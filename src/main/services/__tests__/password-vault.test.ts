@@ -0,0 +1,115 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { IFormFillData } from '~/interfaces';
+
+const dir = mkdtempSync(join(tmpdir(), 'password-vault-'));
+
+jest.mock('electron', () => ({
+    app: { getPath: () => '' },
+    ipcMain: { handle: jest.fn() },
+    powerMonitor: { on: jest.fn() },
+}));
+jest.mock('~/utils', () => ({
+    getPath: (...relativePaths: string[]) => join(dir, ...relativePaths),
+}));
+
+// Stands for the `formfill` storage, failing the updates it is told to
+const items: IFormFillData[] = [];
+const storage = {
+    failAfter: Infinity,
+    find: jest.fn(async () => JSON.parse(JSON.stringify(items))),
+    update: jest.fn(async ({ query, value }: { query: Record<string, string>; value: any }) => {
+        if (storage.failAfter-- <= 0) {
+            throw new Error('Disk full');
+        }
+        const item = items.find(item => item._id === query._id && item.fields.secret.data === query['fields.secret.data']);
+        if (item) {
+            item.fields.secret = value['fields.secret'];
+        }
+        return item ? 1 : 0;
+    }),
+};
+jest.mock('../../application', () => ({
+    Application: { instance: { settings: { object: {} }, storage } },
+}));
+
+import { PasswordVault } from '../password-vault';
+
+const PASSWORDS = ['hunter2', 'correct horse battery staple', 'pässwörd'];
+
+describe('PasswordVault', () => {
+    const vault = PasswordVault.getInstance();
+
+    const readPasswords = () => items.map(item => vault.decrypt(item.fields.secret));
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await vault.setup('old master');
+        PASSWORDS.forEach((password, i) => {
+            items.push({ _id: `${i}`, type: 'password', fields: { secret: vault.encrypt(password) } });
+        });
+    });
+
+    beforeEach(() => {
+        storage.failAfter = Infinity;
+    });
+
+    afterEach(() => {
+        vault.lock();
+    });
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('encrypts the saved passwords again under the new master password', async () => {
+        expect(await vault.changeMasterPassword('old master', 'new master')).toBe(true);
+        vault.lock();
+
+        expect(await vault.unlock('old master')).toBe(false);
+        expect(await vault.unlock('new master')).toBe(true);
+        expect(readPasswords()).toEqual(PASSWORDS);
+    });
+
+    it('keeps the passwords when a change fails midway', async () => {
+        storage.failAfter = 1;
+        await expect(vault.changeMasterPassword('new master', 'newer master')).rejects.toThrow('Disk full');
+        storage.failAfter = Infinity;
+        vault.lock();
+
+        // The change went through, the rest of the items are saved on unlock
+        expect(await vault.unlock('new master')).toBe(false);
+        expect(await vault.unlock('newer master')).toBe(true);
+        expect(readPasswords()).toEqual(PASSWORDS);
+        expect(JSON.parse(readFileSync(join(dir, 'password-vault.json'), 'utf8')).pending).toBeUndefined();
+    });
+
+    it('leaves a password changed since a failed change', async () => {
+        storage.failAfter = 0;
+        await expect(vault.changeMasterPassword('newer master', 'newest master')).rejects.toThrow('Disk full');
+        storage.failAfter = Infinity;
+        items[0].fields.secret = vault.encrypt('changed');
+        vault.lock();
+
+        expect(await vault.unlock('newest master')).toBe(true);
+        expect(readPasswords()).toEqual(['changed', ...PASSWORDS.slice(1)]);
+    });
+
+    it('changes nothing when a password can\'t be decrypted', async () => {
+        storage.update.mockClear();
+        const [item] = items;
+        const { secret } = item.fields;
+        item.fields.secret = { ...secret, tag: Buffer.alloc(16).toString('base64') };
+
+        await expect(vault.changeMasterPassword('newest master', 'other master')).rejects.toThrow();
+        item.fields.secret = secret;
+        vault.lock();
+
+        expect(await vault.unlock('other master')).toBe(false);
+        expect(await vault.unlock('newest master')).toBe(true);
+        expect(storage.update).not.toHaveBeenCalled();
+    });
+});
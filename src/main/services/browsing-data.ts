@@ -0,0 +1,171 @@
+import { app, ipcMain } from 'electron';
+import { Application } from '../application';
+import { NetworkCapture } from './network-capture';
+import { QueueManager } from './queue-manager';
+import { CrawlStore } from '~/renderer/views/app/store/crawl-store';
+import { BROWSING_DATA_CATEGORIES, BROWSING_DATA_TIME_RANGES, DEFAULT_SETTINGS } from '~/constants';
+import { BrowsingDataCategory, IClearBrowsingDataOptions } from '~/interfaces';
+
+const SITE_DATA_STORAGES: Electron.ClearStorageDataOptions['storages'] = [
+    'cookies',
+    'filesystem',
+    'indexdb',
+    'localstorage',
+    'websql',
+    'serviceworkers',
+    'cachestorage',
+];
+
+/**
+ * Clears what the browser keeps of the user's browsing, by category and
+ * over a time range: the history, downloads and autofill kept in storage,
+ * the cookies and caches of both sessions, and the crawled pages and network
+ * captures the context search and tools are built from.
+ *
+ * The categories picked in the settings are also cleared, for all time,
+ * every time the browser quits.
+ */
+export class BrowsingData {
+    private static instance: BrowsingData;
+
+    private clearedOnExit = false;
+
+    private constructor() {
+        this.setupIpcHandlers();
+        app.on('before-quit', this.onBeforeQuit);
+    }
+
+    public static getInstance(): BrowsingData {
+        if (!BrowsingData.instance) {
+            BrowsingData.instance = new BrowsingData();
+        }
+        return BrowsingData.instance;
+    }
+
+    private get sessions(): Electron.Session[] {
+        const { sessions } = Application.instance;
+        return [sessions.view, sessions.viewIncognito];
+    }
+
+    /**
+     * Clears every category, even when one of them fails. Resolves to the
+     * categories that could not be cleared, along with the ones that can't
+     * be cleared over a shorter range than all time.
+     */
+    public async clear({ timeRange, categories }: IClearBrowsingDataOptions): Promise<BrowsingDataCategory[]> {
+        const { duration } = BROWSING_DATA_TIME_RANGES[timeRange] ?? BROWSING_DATA_TIME_RANGES.all;
+        const since = duration ? Date.now() - duration : null;
+        const failed: BrowsingDataCategory[] = [];
+
+        for (const category of categories) {
+            if (since && BROWSING_DATA_CATEGORIES[category].allTime) {
+                failed.push(category);
+                continue;
+            }
+
+            try {
+                await this.clearCategory(category, since);
+            } catch (error) {
+                console.error(`Error clearing ${category}:`, error);
+                failed.push(category);
+            }
+        }
+
+        return failed;
+    }
+
+    // A `since` of null clears all time.
+    private async clearCategory(category: BrowsingDataCategory, since: number | null): Promise<void> {
+        const { storage, sessions } = Application.instance;
+        const createdSince = since ? { createdAt: { $gte: new Date(since) } } : {};
+
+        switch (category) {
+            case 'history':
+                await storage.clearHistory(since);
+                break;
+            case 'downloads':
+                // Downloads in progress stay listed, and files stay on disk
+                sessions.downloads = sessions.downloads.filter(
+                    item => !item.completed || (since && !(item.startedAt >= since)),
+                );
+                break;
+            case 'cookies':
+                for (const ses of this.sessions) {
+                    await ses.clearStorageData({ storages: SITE_DATA_STORAGES });
+                    await ses.clearAuthCache();
+                }
+                break;
+            case 'cache':
+                for (const ses of this.sessions) {
+                    await ses.clearCache();
+                    await ses.clearStorageData({ storages: ['shadercache'] });
+                }
+                break;
+            case 'formData':
+                await storage.remove({
+                    scope: 'formfill',
+                    query: { type: { $ne: 'password' }, ...createdSince },
+                    multi: true,
+                });
+                break;
+            case 'passwords':
+                await storage.remove({
+                    scope: 'formfill',
+                    query: { type: 'password', ...createdSince },
+                    multi: true,
+                });
+                break;
+            case 'favicons':
+                await storage.clearFavicons(since);
+                break;
+            case 'permissions':
+                await storage.remove({ scope: 'permissions', query: createdSince, multi: true });
+                break;
+            case 'crawls': {
+                const crawlStore = await CrawlStore.getInstance();
+                const queueManager = QueueManager.getInstance(crawlStore, null);
+
+                // The jobs would otherwise crawl the same pages again
+                if (since) {
+                    await queueManager.clearJobs(since, await crawlStore.removeSince(since));
+                } else {
+                    await crawlStore.clear();
+                    await queueManager.clearJobs(null);
+                }
+                break;
+            }
+            case 'network': {
+                const capture = NetworkCapture.getInstance();
+                await (since ? capture.clearSince(since) : capture.clear());
+                break;
+            }
+        }
+    }
+
+    private onBeforeQuit = (e: Electron.Event) => {
+        const categories = Application.instance.settings.object.clearOnExit || DEFAULT_SETTINGS.clearOnExit;
+        if (this.clearedOnExit || categories.length === 0) return;
+
+        // Quits again once everything is cleared
+        e.preventDefault();
+        this.clearedOnExit = true;
+
+        this.clear({ timeRange: 'all', categories })
+            .catch(error => console.error('Error clearing browsing data on exit:', error))
+            .finally(() => app.quit());
+    };
+
+    private setupIpcHandlers() {
+        ipcMain.handle('clear-browsing-data', async (e, options: IClearBrowsingDataOptions) => {
+            try {
+                const failed = await this.clear(options);
+                return failed.length
+                    ? { ok: false, status: 500, data: failed }
+                    : { ok: true, status: 200, data: options.categories };
+            } catch (error) {
+                console.error('Clear browsing data error:', error);
+                return { ok: false, status: 500, data: 'Internal server error' };
+            }
+        });
+    }
+}
@@ -0,0 +1,22 @@
+import { Application } from '../application';
+import { DEFAULT_SETTINGS } from '~/constants';
+import { ICapturePolicy } from '~/interfaces';
+
+const INCOGNITO_CAPTURE_POLICY: ICapturePolicy = {
+    crawl: false,
+    network: false,
+};
+
+/**
+ * Resolves what is captured of the pages a view loads. Private views
+ * capture nothing whatever the settings, so nothing they load reaches the
+ * crawl store, the network log or the tools built from it. Other views
+ * follow the capture settings of the profile, read each time so changes
+ * made in the privacy settings apply right away.
+ */
+export function resolveCapturePolicy(incognito: boolean): ICapturePolicy {
+    if (incognito) {
+        return INCOGNITO_CAPTURE_POLICY;
+    }
+    return Application.instance.settings.object.capture || DEFAULT_SETTINGS.capture;
+}
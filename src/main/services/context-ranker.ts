@@ -0,0 +1,183 @@
+import { Application } from '../application';
+import { CrawlStore, StoredCrawlData } from '~/renderer/views/app/store/crawl-store';
+import {
+    IContextRankingWeights,
+    IContextScores,
+    IContextSnippet,
+    IFetchContextOptions,
+    IRankedContext,
+    ISearchContextFilters,
+    ISearchContextResult,
+} from '~/interfaces';
+import { Bm25Index } from '~/utils/bm25';
+import { getSnippets } from '~/utils/snippets';
+import { EmbeddingService } from './embeddings';
+
+const DEFAULT_TOP_K = 10;
+const SNIPPET_LENGTH = 240;
+
+// A page loses half of its recency score every week.
+const RECENCY_HALF_LIFE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Ranks stored pages for a query by combining a BM25 keyword index over
+ * their content with the similarity of their passage embeddings, and boosts
+ * pages the user viewed, recently and often. The weights of each signal come
+ * from the settings and can be overridden per call.
+ */
+export class ContextRanker {
+    private static instance: ContextRanker;
+
+    private crawlStore: CrawlStore;
+    private index = new Bm25Index();
+    // Content hash of every indexed page, so changed pages are indexed again.
+    private indexed: Map<string, string> = new Map();
+
+    private constructor() { }
+
+    public static async getInstance(): Promise<ContextRanker> {
+        if (!ContextRanker.instance) {
+            ContextRanker.instance = new ContextRanker();
+            ContextRanker.instance.crawlStore = await CrawlStore.getInstance();
+        }
+        return ContextRanker.instance;
+    }
+
+    public async rank(query: string = '', options: IFetchContextOptions = {}): Promise<IRankedContext[]> {
+        const weights: IContextRankingWeights = {
+            ...Application.instance.settings.object.contextRanking,
+            ...options.weights,
+        };
+        const topK = options.topK ?? DEFAULT_TOP_K;
+
+        // The whole store is indexed so term rarity doesn't depend on filters.
+        this.updateIndex(await this.crawlStore.getAll());
+
+        const entries = (await this.crawlStore.getEntries(options.filters)).filter(entry => entry.content);
+        const keywordScores = this.normalize(this.index.search(query));
+        const passages = await this.getBestPassages(query, options.filters);
+        const visits = this.getVisitCounts();
+        const maxVisits = Math.max(0, ...entries.map(entry => visits.get(this.normalizeUrl(entry.url)) ?? 0));
+        const now = Date.now();
+
+        const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0) || 1;
+
+        const ranked = entries.map(entry => {
+            const visitCount = visits.get(this.normalizeUrl(entry.url)) ?? 0;
+            const lastSeen = Math.max(entry.timestamp, entry.lastVisitedAt ?? 0);
+
+            const scores: IContextScores = {
+                keyword: keywordScores.get(entry.urlHash) ?? 0,
+                semantic: Math.max(0, passages.get(entry.url)?.score ?? 0),
+                depth: 1 / (1 + entry.depth),
+                recency: Math.pow(0.5, Math.max(0, now - lastSeen) / RECENCY_HALF_LIFE),
+                visits: maxVisits > 0 ? Math.log1p(visitCount) / Math.log1p(maxVisits) : 0,
+            };
+
+            const score = (Object.keys(scores) as (keyof IContextScores)[])
+                .reduce((sum, key) => sum + weights[key] * scores[key], 0) / totalWeight;
+
+            return { entry, score, scores };
+        });
+
+        return ranked
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK)
+            .map(({ entry, score, scores }) => ({
+                url: entry.url,
+                content: entry.content,
+                depth: entry.depth,
+                timestamp: entry.timestamp,
+                score,
+                scores,
+                snippets: this.getSnippets(entry, query, passages.get(entry.url)),
+            }));
+    }
+
+    private updateIndex(entries: StoredCrawlData[]) {
+        const urlHashes = new Set(entries.map(entry => entry.urlHash));
+
+        for (const urlHash of this.index.ids()) {
+            if (!urlHashes.has(urlHash)) {
+                this.index.remove(urlHash);
+                this.indexed.delete(urlHash);
+            }
+        }
+
+        for (const entry of entries) {
+            if (entry.content && this.indexed.get(entry.urlHash) !== entry.contentHash) {
+                this.index.add(entry.urlHash, entry.content);
+                this.indexed.set(entry.urlHash, entry.contentHash);
+            }
+        }
+    }
+
+    /**
+     * Returns the passage closest to the query for every page. Pages simply
+     * get no semantic score when the embedding model isn't available.
+     */
+    private async getBestPassages(query: string, filters?: ISearchContextFilters): Promise<Map<string, ISearchContextResult>> {
+        const best: Map<string, ISearchContextResult> = new Map();
+        if (!query.trim()) return best;
+
+        try {
+            const embeddings = await EmbeddingService.getInstance();
+            for (const result of await embeddings.scorePassages(query, filters)) {
+                if (!best.has(result.url) || best.get(result.url).score < result.score) {
+                    best.set(result.url, result);
+                }
+            }
+        } catch (error) {
+            console.error('Error scoring passages:', error);
+        }
+
+        return best;
+    }
+
+    private getVisitCounts(): Map<string, number> {
+        const counts: Map<string, number> = new Map();
+
+        for (const item of Application.instance.storage.history) {
+            if (!item.url) continue;
+            const url = this.normalizeUrl(item.url);
+            counts.set(url, (counts.get(url) ?? 0) + 1);
+        }
+
+        return counts;
+    }
+
+    // Same comparison as the history uses to count visits.
+    private normalizeUrl(url: string): string {
+        return url.replace(/\//g, '');
+    }
+
+    private normalize(scores: Map<string, number>): Map<string, number> {
+        const max = Math.max(0, ...scores.values());
+        if (max === 0) return scores;
+
+        for (const [key, value] of scores) {
+            scores.set(key, value / max);
+        }
+
+        return scores;
+    }
+
+    /**
+     * Cites the parts of the page matching the query terms, or the passage
+     * closest in meaning when none of the terms appear.
+     */
+    private getSnippets(entry: StoredCrawlData, query: string, passage?: ISearchContextResult): IContextSnippet[] {
+        const snippets = getSnippets(entry.content, query, SNIPPET_LENGTH);
+        if (snippets.length > 0 || !passage) return snippets;
+
+        let end = Math.min(passage.end, passage.start + SNIPPET_LENGTH);
+        while (end < passage.end && !/\s/.test(entry.content[end])) end++;
+
+        return [{
+            text: entry.content.slice(passage.start, end),
+            start: passage.start,
+            end,
+            highlights: [],
+        }];
+    }
+}
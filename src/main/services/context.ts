@@ -1,22 +1,47 @@
-import { BrowserWindow, app, ipcMain } from 'electron';
+import { BrowserWindow, app, ipcMain, WebContents } from 'electron';
 import { session } from 'electron';
 import { URL } from 'url';
 import { getUserAgentForURL } from '../user-agent';
 import { Application } from '../application';
 import { hybridFetch } from '~/utils/hybrid-fetch';
-import { CrawlStore, StoredCrawlData } from '~/renderer/views/app/store/crawl-store';
+import { CrawlStore } from '~/renderer/views/app/store/crawl-store';
 import { async } from 'rxjs';
 import { NetworkStore, StoredNetworkData, ToolDocument } from '~/renderer/views/app/store/network-store';
-import { run } from '~/utils/model';
+import { buildToolRequest, ExecutableTool, ToolExecutionResult } from '~/renderer/views/app/store/tools';
+import { validateJsonSchema } from '~/utils/json-schema';
+import fetch from 'cross-fetch';
+import { EmbeddingService } from './embeddings';
+import { ContextRanker } from './context-ranker';
+import { Redactor } from './redactor';
+import { IEntityFilters, IFetchContextOptions, IHar, IHarExportOptions, INetworkStream, INetworkStreamMessage, ISearchContextFilters } from '~/interfaces';
+import { fromHar } from '~/renderer/views/app/store/har';
+import { matchStreamTool, StreamTool } from '~/renderer/views/app/store/streams';
+import { NetworkCapture } from './network-capture';
+import { SIDEBAR_URL, WEBUI_BASE_URL } from '~/constants/files';
+
+// Replayed tool requests are aborted after this long.
+const TOOL_TIMEOUT = 30000;
+
+type StreamListener = (stream: INetworkStream, message: INetworkStreamMessage) => void;
 
 export class ContextService {
+    // Channels each page subscribed to, by tool name
+    private streamSubscriptions: Map<WebContents, Map<string, StreamListener>> = new Map();
+
     constructor() {
         this.setupIpcHandlers();
+
+        // Starts embedding the stored passages in the background.
+        EmbeddingService.getInstance().catch(error => {
+            console.error('Error starting the embedding service:', error);
+        });
     }
 
     private setupIpcHandlers() {
         ipcMain.handle('transformers:run', async (event, text: string) => {
-            return run(text);
+            const embeddings = await EmbeddingService.getInstance();
+            const [embedding] = await embeddings.embed([text]);
+            return embedding;
         });
         ipcMain.handle('authed-fetch', async (event, url: string, options: AuthFetchOptions = {}) => {
             try {
@@ -65,10 +90,18 @@ export class ContextService {
             }
         });
 
-        ipcMain.handle('fetch-context', async (event) => {
+        ipcMain.handle('fetch-context', async (event, query: string = '', options: IFetchContextOptions = {}) => {
+            if (!isTrustedSender(event.sender)) {
+                return {
+                    ok: false,
+                    status: 403,
+                    data: 'Forbidden',
+                };
+            }
+
             try {
-                const crawlStore = await CrawlStore.getInstance();
-                const context = await this.fetchContext(crawlStore);
+                const ranker = await ContextRanker.getInstance();
+                const context = await ranker.rank(query, options);
                 return {
                     ok: true,
                     status: 200,
@@ -84,6 +117,95 @@ export class ContextService {
             }
         });
 
+        ipcMain.handle('get-document', async (event, url: string) => {
+            if (!isTrustedSender(event.sender)) {
+                return {
+                    ok: false,
+                    status: 403,
+                    data: 'Forbidden',
+                };
+            }
+
+            try {
+                const crawlStore = await CrawlStore.getInstance();
+                const document = await crawlStore.getDocument(url);
+                if (!document) {
+                    return {
+                        ok: false,
+                        status: 404,
+                        data: 'Not found',
+                    };
+                }
+                return {
+                    ok: true,
+                    status: 200,
+                    data: document,
+                };
+            } catch (error) {
+                console.error('Get document error:', error);
+                return {
+                    ok: false,
+                    status: 500,
+                    data: 'Internal server error',
+                };
+            }
+        });
+
+        // Products, events, articles and recipes found in the crawled pages
+        ipcMain.handle('get-entities', async (event, filters: IEntityFilters = {}) => {
+            if (!isTrustedSender(event.sender)) {
+                return {
+                    ok: false,
+                    status: 403,
+                    data: 'Forbidden',
+                };
+            }
+
+            try {
+                const crawlStore = await CrawlStore.getInstance();
+                const entities = await crawlStore.getEntities(filters);
+                return {
+                    ok: true,
+                    status: 200,
+                    data: entities,
+                };
+            } catch (error) {
+                console.error('Get entities error:', error);
+                return {
+                    ok: false,
+                    status: 500,
+                    data: 'Internal server error',
+                };
+            }
+        });
+
+        ipcMain.handle('search-context', async (event, query: string, topK: number = 10, filters: ISearchContextFilters = {}) => {
+            if (!isTrustedSender(event.sender)) {
+                return {
+                    ok: false,
+                    status: 403,
+                    data: 'Forbidden',
+                };
+            }
+
+            try {
+                const embeddings = await EmbeddingService.getInstance();
+                const results = await embeddings.search(query, topK, filters);
+                return {
+                    ok: true,
+                    status: 200,
+                    data: results,
+                };
+            } catch (error) {
+                console.error('Search context error:', error);
+                return {
+                    ok: false,
+                    status: 500,
+                    data: 'Internal server error',
+                };
+            }
+        });
+
         // New IPC handler for retrieving tools
         ipcMain.handle('get-tools', async (event) => {
             try {
@@ -103,34 +225,353 @@ export class ContextService {
                 };
             }
         });
+
+        ipcMain.handle('search-tools', async (event, query: string, topK: number = 10) => {
+            try {
+                const networkStore = await NetworkStore.getInstance();
+                const tools = await networkStore.searchTools(query, topK);
+                return {
+                    ok: true,
+                    status: 200,
+                    data: tools,
+                };
+            } catch (error) {
+                console.error('Search tools error:', error);
+                return {
+                    ok: false,
+                    status: 500,
+                    data: 'Internal server error',
+                };
+            }
+        });
+
+        ipcMain.handle('execute-tool', async (event, name: string, params: Record<string, any> = {}) => {
+            if (!isTrustedSender(event.sender)) {
+                return {
+                    ok: false,
+                    status: 403,
+                    data: 'Forbidden',
+                };
+            }
+
+            try {
+                const networkStore = await NetworkStore.getInstance();
+                const tool = await networkStore.getExecutableTool(name);
+                if (!tool) {
+                    return {
+                        ok: false,
+                        status: 404,
+                        data: 'Tool not found',
+                    };
+                }
+
+                const paramErrors = validateJsonSchema(tool.parameters, params);
+                if (paramErrors.length > 0) {
+                    return {
+                        ok: false,
+                        status: 400,
+                        data: `Invalid parameters: ${paramErrors.join('; ')}`,
+                    };
+                }
+
+                const result = await this.executeTool(tool, params);
+                return {
+                    ok: true,
+                    status: 200,
+                    data: result,
+                };
+            } catch (error) {
+                console.error('Execute tool error:', error);
+                if (error.message === 'Request timed out') {
+                    return {
+                        ok: false,
+                        status: 408,
+                        data: 'Request timed out',
+                    };
+                }
+                return {
+                    ok: false,
+                    status: 500,
+                    data: 'Internal server error',
+                };
+            }
+        });
+
+        // Messages of the channel are sent to the page as they are captured
+        ipcMain.handle('subscribe-stream-tool', async (event, name: string) => {
+            try {
+                const networkStore = await NetworkStore.getInstance();
+                const tool = await networkStore.getStreamTool(name);
+                if (!tool) {
+                    return {
+                        ok: false,
+                        status: 404,
+                        data: 'Tool not found',
+                    };
+                }
+
+                this.subscribeStreamTool(event.sender, tool);
+                return {
+                    ok: true,
+                    status: 200,
+                    data: { name: tool.name, kind: tool.kind, pattern: tool.pattern },
+                };
+            } catch (error) {
+                console.error('Subscribe stream tool error:', error);
+                return {
+                    ok: false,
+                    status: 500,
+                    data: 'Internal server error',
+                };
+            }
+        });
+
+        ipcMain.handle('unsubscribe-stream-tool', async (event, name: string) => {
+            this.unsubscribeStreamTool(event.sender, name);
+            return {
+                ok: true,
+                status: 200,
+                data: null,
+            };
+        });
+
+        ipcMain.handle('export-openapi', async (event, origin: string) => {
+            if (!isTrustedSender(event.sender)) {
+                return {
+                    ok: false,
+                    status: 403,
+                    data: 'Forbidden',
+                };
+            }
+
+            try {
+                if (!origin || !/^https?:\/\//.test(origin)) {
+                    return {
+                        ok: false,
+                        status: 400,
+                        data: 'Invalid origin',
+                    };
+                }
+                const networkStore = await NetworkStore.getInstance();
+                const document = await networkStore.getOpenApiDocument(origin);
+                if (!document) {
+                    return {
+                        ok: false,
+                        status: 404,
+                        data: 'No requests captured for this origin',
+                    };
+                }
+                return {
+                    ok: true,
+                    status: 200,
+                    data: document,
+                };
+            } catch (error) {
+                console.error('Export OpenAPI error:', error);
+                return {
+                    ok: false,
+                    status: 500,
+                    data: 'Internal server error',
+                };
+            }
+        });
+
+        ipcMain.handle('export-har', async (event, options: IHarExportOptions = {}) => {
+            if (!isTrustedSender(event.sender)) {
+                return {
+                    ok: false,
+                    status: 403,
+                    data: 'Forbidden',
+                };
+            }
+
+            try {
+                if (options.origin && !/^https?:\/\//.test(options.origin)) {
+                    return {
+                        ok: false,
+                        status: 400,
+                        data: 'Invalid origin',
+                    };
+                }
+                const networkStore = await NetworkStore.getInstance();
+                const har = await networkStore.exportHar(options, { name: app.name, version: app.getVersion() });
+                return {
+                    ok: true,
+                    status: 200,
+                    data: har,
+                };
+            } catch (error) {
+                console.error('Export HAR error:', error);
+                return {
+                    ok: false,
+                    status: 500,
+                    data: 'Internal server error',
+                };
+            }
+        });
+
+        ipcMain.handle('import-har', async (event, har: IHar | string) => {
+            if (!isTrustedSender(event.sender)) {
+                return {
+                    ok: false,
+                    status: 403,
+                    data: 'Forbidden',
+                };
+            }
+
+            try {
+                let captures;
+                try {
+                    captures = fromHar(typeof har === 'string' ? JSON.parse(har) : har);
+                } catch {
+                    return {
+                        ok: false,
+                        status: 400,
+                        data: 'Invalid HAR file',
+                    };
+                }
+                const result = await NetworkCapture.getInstance().importCaptures(captures);
+                return {
+                    ok: true,
+                    status: 200,
+                    data: result,
+                };
+            } catch (error) {
+                console.error('Import HAR error:', error);
+                return {
+                    ok: false,
+                    status: 500,
+                    data: 'Internal server error',
+                };
+            }
+        });
+
+        ipcMain.handle('generate-json-schema', async (event, baseUrl: string, path: string) => {
+            try {
+                if (!baseUrl || !path) {
+                    return {
+                        ok: false,
+                        status: 400,
+                        data: 'Invalid base URL or path',
+                    };
+                }
+                const networkStore = await NetworkStore.getInstance();
+                const schema = await networkStore.generateJsonSchema(baseUrl, path);
+                if (!schema) {
+                    return {
+                        ok: false,
+                        status: 404,
+                        data: 'No responses captured for this endpoint',
+                    };
+                }
+                return {
+                    ok: true,
+                    status: 200,
+                    data: schema,
+                };
+            } catch (error) {
+                console.error('Generate JSON schema error:', error);
+                return {
+                    ok: false,
+                    status: 500,
+                    data: 'Internal server error',
+                };
+            }
+        });
     }
 
-    private async fetchContext(crawlStore: CrawlStore): Promise<StoredCrawlData[]> {
-        const allEntries = await crawlStore.getAll();
-        console.log('allEntries', allEntries);
+    private subscribeStreamTool(contents: WebContents, tool: StreamTool) {
+        const capture = NetworkCapture.getInstance();
 
-        // Filter and sort depth 0 entries by timestamp, most recent first
-        const sortedDepth0Entries = allEntries
-            .filter(entry => entry.depth === 0)
-            .sort((a, b) => b.timestamp - a.timestamp);
+        let subscriptions = this.streamSubscriptions.get(contents);
+        if (!subscriptions) {
+            subscriptions = new Map();
+            this.streamSubscriptions.set(contents, subscriptions);
+            contents.once('destroyed', () => {
+                this.streamSubscriptions.get(contents)?.forEach(listener => capture.off('stream-message', listener));
+                this.streamSubscriptions.delete(contents);
+            });
+        }
+        if (subscriptions.has(tool.name)) return;
 
-        // Get the top 10 depth 0 entries
-        const top10Depth0 = sortedDepth0Entries.slice(0, 10);
+        const listener = (stream: INetworkStream, message: INetworkStreamMessage) => {
+            if (matchStreamTool(tool, stream.kind, stream.url)) {
+                contents.send('stream-tool-message', { name: tool.name, url: stream.url, message });
+            }
+        };
+        subscriptions.set(tool.name, listener);
+        capture.on('stream-message', listener);
+    }
+
+    private unsubscribeStreamTool(contents: WebContents, name: string) {
+        const listener = this.streamSubscriptions.get(contents)?.get(name);
+        if (!listener) return;
+
+        NetworkCapture.getInstance().off('stream-message', listener);
+        this.streamSubscriptions.get(contents).delete(name);
+    }
+
+    private assertSameOrigin(url: string, baseUrl: string) {
+        if (new URL(url).origin !== new URL(baseUrl).origin) {
+            throw new Error('Request leaves the origin of the tool');
+        }
+    }
+
+    /**
+     * Replays a tool's request with the session of the browser, the same way
+     * authed-fetch does, putting back the secrets masked in its capture. The raw
+     * response is kept since tools return JSON, which is checked against the
+     * schema learned from the captured responses.
+     */
+    private async executeTool(tool: ExecutableTool, params: Record<string, any>): Promise<ToolExecutionResult> {
+        // The secrets of the tool are only sent to the origin they were
+        // captured from, whatever the parameters are.
+        const captured = buildToolRequest(tool, params);
+        this.assertSameOrigin(captured.url, tool.baseUrl);
 
-        // Filter and sort non-depth 0 entries by timestamp, most recent first
-        const sortedNonDepth0Entries = allEntries
-            .filter(entry => entry.depth !== 0)
-            .sort((a, b) => b.timestamp - a.timestamp);
+        // Captures are stored with their secrets masked, they are put back
+        // before the parameters so none can be smuggled in through them.
+        const revealed = Redactor.getInstance().revealTool(tool);
+        const { url, method, body } = buildToolRequest(revealed, params);
+        this.assertSameOrigin(url, revealed.baseUrl);
+        const headers = { ...revealed.requestHeaders };
 
-        // Get the top 10 non-depth 0 entries
-        const top10NonDepth0 = sortedNonDepth0Entries.slice(0, 10);
+        if (body !== undefined && !Object.keys(headers).some(key => key.toLowerCase() === 'content-type')) {
+            headers['Content-Type'] = 'application/json';
+        }
 
-        // Combine the results
-        const result = [...top10Depth0, ...top10NonDepth0];
+        const authInfo = await getAuthInfo(url, { headers });
 
-        console.log(`Returning ${result.length} entries (${top10Depth0.length} depth 0, ${top10NonDepth0.length} non-depth 0)`);
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), TOOL_TIMEOUT);
 
-        return result;
+        let response: Response;
+        let text: string;
+        try {
+            response = await fetch(authInfo.url, { method, headers: authInfo.headers, body, signal: controller.signal });
+            text = await response.text();
+        } catch (error) {
+            throw controller.signal.aborted ? new Error('Request timed out') : error;
+        } finally {
+            clearTimeout(timeout);
+        }
+        let data: any = text;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            // Not a JSON response, returned as text
+        }
+
+        const errors = response.ok ? validateJsonSchema(tool.responseSchema, data) : [`HTTP error ${response.status}`];
+
+        return {
+            // The URL as captured, so revealed secrets don't leave the process
+            url: captured.url,
+            status: response.status,
+            body: data,
+            valid: errors.length === 0,
+            errors,
+        };
     }
 }
 
@@ -167,4 +608,22 @@ export async function getAuthInfo(url: string, options: AuthFetchOptions = {}):
         headers,
         url: parsedUrl.toString(),
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Whether a page may replay requests with the user's session or read what was
+ * crawled: the browser's own pages and the sidebar, never the pages browsed.
+ */
+export function isTrustedSender(sender: WebContents): boolean {
+    const url = sender.getURL();
+    if (url.startsWith(WEBUI_BASE_URL)) {
+        return true;
+    }
+
+    // Pages of a webview could be anything, only the sidebar is trusted
+    try {
+        return sender.getType() === 'webview' && new URL(url).origin === new URL(SIDEBAR_URL).origin;
+    } catch {
+        return false;
+    }
+}
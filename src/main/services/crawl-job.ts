@@ -0,0 +1,328 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    CrawlJobState,
+    ICrawlFrontierEntry,
+    ICrawlJobInfo,
+    ICrawlJobOptions,
+    ICrawlJobSnapshot,
+} from '~/interfaces';
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_PAGES = -1;
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_VISITED = -1;
+
+const TRANSITIONS: Record<CrawlJobState, CrawlJobState[]> = {
+    queued: ['running', 'paused', 'cancelled'],
+    running: ['paused', 'cancelled', 'done'],
+    paused: ['running', 'cancelled'],
+    cancelled: [],
+    // A finished job is reopened when new URLs are fed into it.
+    done: ['running'],
+};
+
+/**
+ * A single crawl with its own frontier, limits and lifecycle. The job only
+ * tracks what is left to crawl; fetching is driven by the QueueManager.
+ *
+ * Emits `state` when the state changes and `progress` on every update.
+ */
+export class CrawlJob extends EventEmitter {
+    public readonly id: string;
+    public name: string;
+    public seedUrl: string;
+    public maxDepth: number;
+    public maxPages: number;
+    public concurrency: number;
+    // Past this many seen URLs the oldest are forgotten, -1 keeps them all
+    public maxVisited: number;
+    public state: CrawlJobState = 'queued';
+    public crawledCount = 0;
+    public failedCount = 0;
+    public createdAt: number;
+    public updatedAt: number;
+
+    private depth0Frontier: ICrawlFrontierEntry[] = [];
+    private otherFrontier: ICrawlFrontierEntry[] = [];
+    private visited: Set<string> = new Set();
+    // Entries taken from the frontier whose crawl hasn't finished yet
+    private active: Set<ICrawlFrontierEntry> = new Set();
+    private requestCount = 0;
+
+    public constructor(options: ICrawlJobOptions, id: string = uuidv4()) {
+        super();
+
+        this.id = id;
+        this.seedUrl = options.seedUrl;
+        this.name = options.name || options.seedUrl;
+        this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+        this.maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+        this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+        this.maxVisited = options.maxVisited ?? DEFAULT_MAX_VISITED;
+        this.createdAt = Date.now();
+        this.updatedAt = this.createdAt;
+    }
+
+    public static fromSnapshot(snapshot: ICrawlJobSnapshot): CrawlJob {
+        const job = new CrawlJob(snapshot, snapshot.id);
+
+        job.createdAt = snapshot.createdAt;
+        job.updatedAt = snapshot.updatedAt;
+        job.state = snapshot.state;
+        job.crawledCount = snapshot.crawledCount;
+        job.failedCount = snapshot.failedCount;
+        job.visited = new Set(snapshot.visited);
+
+        for (const entry of snapshot.frontier) {
+            job.push(entry);
+        }
+
+        return job;
+    }
+
+    public get pendingCount(): number {
+        return this.depth0Frontier.length + this.otherFrontier.length;
+    }
+
+    public get inFlight(): number {
+        return this.active.size;
+    }
+
+    public get isFinished(): boolean {
+        return this.state === 'cancelled' || this.state === 'done';
+    }
+
+    /**
+     * Whether another page may be started without exceeding the page budget.
+     */
+    public hasBudget(): boolean {
+        return this.maxPages === -1 || this.crawledCount + this.failedCount + this.inFlight < this.maxPages;
+    }
+
+    /**
+     * Whether this job has seen the URL, as far as the visited URLs it keeps go.
+     */
+    public hasVisited(urlHash: string): boolean {
+        return this.visited.has(urlHash);
+    }
+
+    public isCancelled(): boolean {
+        return this.state === 'cancelled';
+    }
+
+    public canTransition(state: CrawlJobState): boolean {
+        return TRANSITIONS[this.state].includes(state);
+    }
+
+    public setState(state: CrawlJobState): boolean {
+        if (!this.canTransition(state)) return false;
+
+        this.state = state;
+
+        if (state === 'cancelled') {
+            this.clearFrontier();
+        }
+
+        this.emit('state', state);
+        this.touch();
+
+        return true;
+    }
+
+    /**
+     * Adds a URL to the frontier unless it was already seen by this job or is
+     * deeper than the job allows. Returns true when the URL was queued.
+     */
+    public enqueue(url: string, urlHash: string, depth: number): boolean {
+        if (this.state === 'cancelled') return false;
+        if (depth > this.maxDepth) return false;
+        if (this.visited.has(urlHash)) return false;
+
+        this.visited.add(urlHash);
+        this.forgetVisited();
+        this.push({ url, depth });
+        this.touch();
+
+        return true;
+    }
+
+    /**
+     * Puts an already seen URL back at the end of the frontier, e.g. after
+     * the host asked us to slow down.
+     */
+    public requeue(entry: ICrawlFrontierEntry) {
+        if (this.isFinished) return;
+
+        this.otherFrontier.push(entry);
+        this.touch();
+    }
+
+    /**
+     * Takes the next entry from the frontier. It counts as in flight until
+     * `finish` is called with it.
+     */
+    public dequeue(): ICrawlFrontierEntry | undefined {
+        this.requestCount++;
+        if (this.requestCount % 10 === 0) {
+            this.sortFrontier();
+        }
+
+        const entry = this.depth0Frontier.length > 0
+            ? this.depth0Frontier.shift()
+            : this.otherFrontier.shift();
+
+        if (entry) {
+            this.active.add(entry);
+        }
+
+        return entry;
+    }
+
+    /**
+     * Drops what is left to crawl, crawls in flight still finish.
+     */
+    public clearFrontier() {
+        this.depth0Frontier = [];
+        this.otherFrontier = [];
+        this.touch();
+    }
+
+    /**
+     * Forgets having seen the URLs, or every URL, which may then be crawled
+     * again.
+     */
+    public forget(urlHashes?: string[]) {
+        if (urlHashes) {
+            urlHashes.forEach(urlHash => this.visited.delete(urlHash));
+        } else {
+            this.visited.clear();
+        }
+        this.touch();
+    }
+
+    public finish(entry: ICrawlFrontierEntry) {
+        this.active.delete(entry);
+    }
+
+    public isEmpty(): boolean {
+        return this.pendingCount === 0;
+    }
+
+    public handleFailedCrawl(url: string): void {
+        const domain = new URL(url).hostname;
+
+        this.depth0Frontier = this.moveFailedDomainToEnd(this.depth0Frontier, domain);
+        this.otherFrontier = this.moveFailedDomainToEnd(this.otherFrontier, domain);
+    }
+
+    public touch() {
+        this.updatedAt = Date.now();
+        this.emit('progress');
+    }
+
+    public toInfo(): ICrawlJobInfo {
+        return {
+            ...this.describe(),
+            pendingCount: this.pendingCount,
+        };
+    }
+
+    /**
+     * Crawls in flight are saved back into the frontier, so they start over
+     * when the job is restored.
+     */
+    public toSnapshot(): ICrawlJobSnapshot {
+        return {
+            ...this.describe(),
+            frontier: [...this.active, ...this.depth0Frontier, ...this.otherFrontier],
+            visited: Array.from(this.visited),
+        };
+    }
+
+    private describe(): Omit<ICrawlJobInfo, 'pendingCount'> {
+        return {
+            id: this.id,
+            name: this.name,
+            seedUrl: this.seedUrl,
+            maxDepth: this.maxDepth,
+            maxPages: this.maxPages,
+            concurrency: this.concurrency,
+            state: this.state,
+            crawledCount: this.crawledCount,
+            failedCount: this.failedCount,
+            createdAt: this.createdAt,
+            updatedAt: this.updatedAt,
+        };
+    }
+
+    private push(entry: ICrawlFrontierEntry) {
+        if (entry.depth === 0) {
+            this.depth0Frontier.push(entry);
+        } else {
+            this.otherFrontier.push(entry);
+        }
+    }
+
+    // Sets iterate in insertion order, so the first hashes are the oldest.
+    private forgetVisited() {
+        if (this.maxVisited === -1) return;
+
+        for (const urlHash of this.visited) {
+            if (this.visited.size <= this.maxVisited) break;
+            this.visited.delete(urlHash);
+        }
+    }
+
+    private moveFailedDomainToEnd(queue: ICrawlFrontierEntry[], domain: string): ICrawlFrontierEntry[] {
+        const kept: ICrawlFrontierEntry[] = [];
+        const moved: ICrawlFrontierEntry[] = [];
+
+        for (const entry of queue) {
+            if (new URL(entry.url).hostname === domain) {
+                moved.push(entry);
+            } else {
+                kept.push(entry);
+            }
+        }
+
+        return [...kept, ...moved];
+    }
+
+    private sortFrontier(): void {
+        this.depth0Frontier = this.sortByDomain(this.depth0Frontier);
+        this.otherFrontier = this.sortByDomain(this.otherFrontier);
+    }
+
+    /**
+     * Interleaves hosts so that a single site can't monopolize the frontier.
+     */
+    private sortByDomain(queue: ICrawlFrontierEntry[]): ICrawlFrontierEntry[] {
+        const domainMap: Map<string, ICrawlFrontierEntry[]> = new Map();
+
+        for (const entry of queue) {
+            const domain = new URL(entry.url).hostname;
+            if (!domainMap.has(domain)) {
+                domainMap.set(domain, []);
+            }
+            domainMap.get(domain)!.push(entry);
+        }
+
+        const sortedQueue: ICrawlFrontierEntry[] = [];
+        const domains = Array.from(domainMap.keys());
+
+        while (domains.length > 0) {
+            for (let i = 0; i < domains.length; i++) {
+                const entries = domainMap.get(domains[i])!;
+                if (entries.length > 0) {
+                    sortedQueue.push(entries.shift()!);
+                } else {
+                    domains.splice(i, 1);
+                    i--;
+                }
+            }
+        }
+
+        return sortedQueue;
+    }
+}
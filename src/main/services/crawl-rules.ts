@@ -0,0 +1,39 @@
+import { Application } from '../application';
+import { DEFAULT_SETTINGS } from '~/constants';
+import { ICrawlRules } from '~/interfaces';
+import { getCrawlRuleViolation, matchesAnyCrawlRule } from '~/utils/crawl-rules';
+
+// Cookie names that usually carry a login session.
+const SESSION_COOKIE_NAME = /sess|auth|token|login|sid|jwt/i;
+
+/**
+ * Decides whether a URL may be crawled in the background, based on the
+ * crawl rules from the settings.
+ */
+export class CrawlRulesEngine {
+    private get rules(): ICrawlRules {
+        return Application.instance.settings.object.crawlRules || DEFAULT_SETTINGS.crawlRules;
+    }
+
+    /**
+     * Returns the reason the URL must not be crawled, or null when it may be.
+     * `referrer` is the page the URL was found on, if any.
+     */
+    public async check(url: string, referrer?: string): Promise<string | null> {
+        const { rules } = this;
+
+        const violation = getCrawlRuleViolation(rules, url, referrer);
+        if (violation) return violation;
+
+        if (matchesAnyCrawlRule(rules.loggedInExclusions, url) && (await this.isLoggedIn(url))) {
+            return 'Logged in on this site';
+        }
+
+        return null;
+    }
+
+    private async isLoggedIn(url: string): Promise<boolean> {
+        const cookies = await Application.instance.sessions.view.cookies.get({ url });
+        return cookies.some(cookie => cookie.httpOnly || SESSION_COOKIE_NAME.test(cookie.name));
+    }
+}
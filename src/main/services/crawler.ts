@@ -9,7 +9,7 @@ export class LinkProcessor {
     private processedFiles: Set<string> = new Set();
 
     constructor(pool: Pool<ModuleThread>, crawlStore: CrawlStore) {
-        this.queueManager = new QueueManager(crawlStore, pool);
+        this.queueManager = QueueManager.getInstance(crawlStore, pool);
         this.setupDownloadCompletedListener();
     }
 
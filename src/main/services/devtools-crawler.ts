@@ -1,25 +1,37 @@
 import { WebContents } from 'electron';
-import { NetworkStore, StoredNetworkData } from '~/renderer/views/app/store/network-store';
 import { QueueManager } from './queue-manager';
+import { NetworkCapture } from './network-capture';
 import electronDebug from 'electron-debug';
 import { parseMarkdown } from '~/utils/parse';
 import { extractLinks } from '~/utils/hybrid-fetch';
 import { URL } from 'url';
+import { ICapturePolicy, IHarTimings, StreamMessageDirection } from '~/interfaces';
+
+// Opcode of the WebSocket frames that carry text
+const TEXT_FRAME = 1;
 
 export class DevToolsCrawler {
     private webContents: WebContents;
-    private networkStore: NetworkStore;
+    private networkCapture: NetworkCapture;
     private queueManager: QueueManager;
+    // Read on every event, the settings may change while the tab is open
+    private getPolicy: () => ICapturePolicy;
     private isDebuggerAttached: boolean = false;
-    private requestMap: Map<string, StoredNetworkData> = new Map();
+    // Monotonic time in seconds each request was sent at, as CDP reports it
+    private sentAt: Map<string, number> = new Map();
+    private responses: Map<string, { url: string; mimeType: string }> = new Map();
 
-    constructor(networkStore: NetworkStore, webContents: WebContents, queueManager: QueueManager) {
+    constructor(webContents: WebContents, queueManager: QueueManager, getPolicy: () => ICapturePolicy) {
         this.webContents = webContents;
         this.queueManager = queueManager;
-        this.networkStore = networkStore;
+        this.getPolicy = getPolicy;
+        this.networkCapture = NetworkCapture.getInstance();
         this.attachDebugger();
         electronDebug({ showDevTools: false, devToolsMode: 'right' });
         this.webContents.on('did-navigate', this.handleDidNavigate);
+
+        const tabId = webContents.id;
+        this.webContents.once('destroyed', () => this.networkCapture.closeTabStreams(tabId));
     }
 
     private attachDebugger() {
@@ -37,6 +49,8 @@ export class DevToolsCrawler {
     }
 
     private handleDidNavigate = () => {
+        // The connections of the previous page are gone with it
+        this.networkCapture.closeTabStreams(this.webContents.id);
         this.detachDebugger();
         this.attachDebugger();
     }
@@ -64,15 +78,56 @@ export class DevToolsCrawler {
             case 'Network.loadingFinished':
                 await this.handleLoadingFinished(params);
                 break;
+            case 'Network.loadingFailed':
+                this.handleLoadingFailed(params);
+                break;
+            case 'Network.webSocketCreated':
+                if (!this.getPolicy().network) break;
+                this.networkCapture.openStream(this.webContents.id, params.requestId, 'websocket', params.url);
+                break;
+            case 'Network.webSocketFrameSent':
+                this.handleWebSocketFrame(params, 'sent');
+                break;
+            case 'Network.webSocketFrameReceived':
+                this.handleWebSocketFrame(params, 'received');
+                break;
+            case 'Network.webSocketClosed':
+                this.networkCapture.closeStream(params.requestId);
+                break;
+            case 'Network.eventSourceMessageReceived':
+                this.networkCapture.addStreamMessage(params.requestId, {
+                    direction: 'received',
+                    data: params.data,
+                    ...(params.eventName ? { event: params.eventName } : {}),
+                });
+                break;
         }
     }
 
     private async handleRequest(params: any) {
-        const { requestId, request, initiator } = params;
-        const { url, method, headers, postData } = request;
+        const { requestId, request, initiator, timestamp, type } = params;
+        const { url, method, headers, hasPostData } = request;
+        this.sentAt.set(requestId, timestamp);
 
-        // Add request to NetworkStore and retrieve the stored entry
-        const storedEntry = await this.networkStore.addRequestToLog({
+        // Responses of requests that weren't logged are still crawled
+        if (!this.getPolicy().network) return;
+
+        // Events of the stream come in as messages until the request ends
+        if (type === 'EventSource') {
+            this.networkCapture.openStream(this.webContents.id, requestId, 'sse', url);
+        }
+        let { postData } = request;
+
+        // Large bodies are left out of the event and have to be asked for
+        if (hasPostData && postData === undefined) {
+            try {
+                ({ postData } = await this.webContents.debugger.sendCommand('Network.getRequestPostData', { requestId }));
+            } catch (error) {
+                console.warn(`Failed to get post data for request with ID: ${requestId}`, error);
+            }
+        }
+
+        await this.networkCapture.addRequest(this.webContents.id, {
             requestId,
             url,
             method,
@@ -80,66 +135,89 @@ export class DevToolsCrawler {
             body: postData,
             initiator
         });
-
-        if (storedEntry) {
-            // Map the requestId to the stored entry
-            this.requestMap.set(requestId, storedEntry);
-        } else {
-            console.warn(`Failed to store request with ID: ${requestId}`);
-        }
     }
 
     private async handleResponse(params: any) {
         const { requestId, response } = params;
-        const request = this.requestMap.get(requestId);
-
-        if (request) {
-            const { status, headers } = response;
-            request.responseStatus = status;
-            request.responseHeaders = headers;
-            // Update the entry in the database
-            await this.networkStore.updateLogWithResponse({
-                requestId: request.requestId,
-                status,
-                headers,
-                body: undefined // Body will be updated in loadingFinished
-            });
-        } else {
-            console.warn(`No matching request found for response with ID: ${requestId}`);
-        }
+        const { url, status, headers, mimeType } = response;
+        this.responses.set(requestId, { url, mimeType });
+
+        await this.networkCapture.addResponse(requestId, {
+            status,
+            headers,
+            timings: this.getTimings(response.timing)
+        });
     }
 
     private async handleLoadingFinished(params: any) {
-        const { requestId } = params;
-        const request = this.requestMap.get(requestId);
+        const { requestId, timestamp } = params;
+        this.networkCapture.closeStream(requestId);
+        const sentAt = this.sentAt.get(requestId);
+        const response = this.responses.get(requestId);
+        this.sentAt.delete(requestId);
+        this.responses.delete(requestId);
+
+        const policy = this.getPolicy();
+        if (!response || (!policy.network && !policy.crawl)) {
+            this.networkCapture.dropRequest(requestId);
+            return;
+        }
 
-        if (request && request.responseStatus !== 0) {
-            try {
-                const { body, base64Encoded } = await this.webContents.debugger.sendCommand('Network.getResponseBody', { requestId });
-                const rawBody = base64Encoded ? Buffer.from(body, 'base64').toString('utf-8') : body;
-
-                request.responseBody = rawBody;
-                request.contentHash = await this.networkStore.hashString(rawBody);
-                // Update the entry in the database with the response body
-                await this.networkStore.updateLogWithResponse({
-                    requestId: request.requestId,
-                    status: request.responseStatus,
-                    headers: request.responseHeaders,
-                    body: rawBody
-                });
+        try {
+            const { body, base64Encoded } = await this.webContents.debugger.sendCommand('Network.getResponseBody', { requestId });
+            const rawBody = base64Encoded ? Buffer.from(body, 'base64').toString('utf-8') : body;
+            const duration = sentAt !== undefined ? Math.max(0, (timestamp - sentAt) * 1000) : undefined;
 
-                this.processResponseContent(request.baseUrl + request.path, rawBody, request.responseHeaders['content-type']);
-            } catch (error) {
-                console.error('Error handling loading finished:', error);
-            } finally {
-                // Remove the request from the map as it's fully processed
-                this.requestMap.delete(requestId);
+            await this.networkCapture.finishRequest(requestId, rawBody, duration);
+
+            if (policy.crawl) {
+                const { origin, pathname } = new URL(response.url);
+                this.processResponseContent(origin + pathname, rawBody, response.mimeType);
             }
-        } else {
-            console.warn(`No valid request found for loading finished with ID: ${requestId}`);
+        } catch (error) {
+            this.networkCapture.dropRequest(requestId);
+            console.error('Error handling loading finished:', error);
         }
     }
 
+    private handleLoadingFailed(params: any) {
+        const { requestId } = params;
+        this.networkCapture.closeStream(requestId);
+        this.sentAt.delete(requestId);
+        this.responses.delete(requestId);
+        this.networkCapture.dropRequest(requestId);
+    }
+
+    // Binary frames are left out, there is no schema to learn from them
+    private handleWebSocketFrame(params: any, direction: StreamMessageDirection) {
+        const { requestId, response } = params;
+        if (response?.opcode !== TEXT_FRAME) return;
+
+        this.networkCapture.addStreamMessage(requestId, { direction, data: response.payloadData });
+    }
+
+    /**
+     * Converts the resource timing of a CDP response to HAR timings, in
+     * milliseconds. Phases that didn't happen, like the DNS lookup of a
+     * reused connection, are -1. Receiving is only known once loading ends.
+     */
+    private getTimings(timing: any): IHarTimings | undefined {
+        if (!timing) return undefined;
+
+        const phase = (start: number, end: number) => start >= 0 && end >= 0 ? end - start : -1;
+        const firstStart = [timing.dnsStart, timing.connectStart, timing.sendStart].find(time => time >= 0) ?? 0;
+
+        return {
+            blocked: firstStart,
+            dns: phase(timing.dnsStart, timing.dnsEnd),
+            connect: phase(timing.connectStart, timing.connectEnd),
+            ssl: phase(timing.sslStart, timing.sslEnd),
+            send: Math.max(0, phase(timing.sendStart, timing.sendEnd)),
+            wait: Math.max(0, phase(timing.sendEnd, timing.receiveHeadersEnd)),
+            receive: 0,
+        };
+    }
+
     private async processResponseContent(url: string, rawBody: string, mimeType: string) {
         if (!mimeType || (!mimeType.includes('text/html') && !mimeType.includes('application/json'))) {
             return;
@@ -156,7 +234,7 @@ export class DevToolsCrawler {
 
             const links = extractLinks(processedContent, url);
             for (const link of links) {
-                this.queueManager.enqueue(link, 1);
+                this.queueManager.enqueue(link, 1, url);
             }
         } catch (error) {
             console.error('Error processing response content:', error);
@@ -1,6 +1,8 @@
 import { BrowserView, app, ipcMain } from 'electron';
 import { join } from 'path';
 import { SearchDialog } from '../dialogs/search';
+import { FormFillDialog } from '../dialogs/form-fill';
+import { CredentialsDialog } from '../dialogs/credentials';
 import { PersistentDialog } from '../dialogs/dialog';
 import { Application } from '../application';
 import { IRectangle } from '~/interfaces';
@@ -55,6 +57,11 @@ export class DialogsService {
     await this.createBrowserView();
 
     this.persistentDialogs.push(new SearchDialog());
+
+    if (process.env.ENABLE_AUTOFILL) {
+      this.persistentDialogs.push(new FormFillDialog());
+      this.persistentDialogs.push(new CredentialsDialog());
+    }
   }
 
   private async createBrowserView() {
@@ -0,0 +1,22 @@
+import { expose } from 'threads/worker';
+import { embed } from '~/utils/model';
+
+let cacheDir: string;
+
+// Set once right after the worker is spawned, the worker has no access to
+// the Electron app paths.
+const configure = (dir: string) => {
+    cacheDir = dir;
+};
+
+const embedTexts = async (texts: string[]): Promise<number[][]> => {
+    return embed(texts, cacheDir);
+};
+
+const EmbeddingWorker = {
+    configure,
+    embedTexts,
+};
+expose(EmbeddingWorker);
+
+export type EmbeddingWorker = typeof EmbeddingWorker;
@@ -0,0 +1,139 @@
+import { app } from 'electron';
+import { ModuleThread, spawn, Worker } from 'threads';
+import { CrawlStore } from '~/renderer/views/app/store/crawl-store';
+import { ISearchContextFilters, ISearchContextResult } from '~/interfaces';
+import { EMBEDDING_MODEL } from '~/utils/model';
+import { getPath } from '~/utils/paths';
+import { EmbeddingWorker } from './embedding-worker';
+
+const workerPath = app.isPackaged
+    ? `${process.resourcesPath}/embedding-worker.bundle.js`
+    : `${app.getAppPath()}/build/embedding-worker.bundle.js`;
+
+const BATCH_SIZE = 16;
+const INDEX_DELAY = 2000;
+
+/**
+ * Computes sentence embeddings in a worker thread and keeps the stored
+ * passages embedded, so that context can be searched by meaning without
+ * any network access. The only exception is the model itself, which is
+ * downloaded into the models folder the first time it is used; until then
+ * searches simply get no semantic scores.
+ */
+export class EmbeddingService {
+    private static instance: EmbeddingService;
+
+    private worker: Promise<ModuleThread<EmbeddingWorker>>;
+    private crawlStore: CrawlStore;
+    private indexing = false;
+    private indexTimeout: NodeJS.Timeout;
+
+    private constructor() { }
+
+    public static async getInstance(): Promise<EmbeddingService> {
+        if (!EmbeddingService.instance) {
+            EmbeddingService.instance = new EmbeddingService();
+            await EmbeddingService.instance.initialize();
+        }
+        return EmbeddingService.instance;
+    }
+
+    private async initialize(): Promise<void> {
+        this.crawlStore = await CrawlStore.getInstance();
+        this.crawlStore.passageInserts$.subscribe(() => this.scheduleIndexing());
+        this.scheduleIndexing();
+    }
+
+    private getWorker(): Promise<ModuleThread<EmbeddingWorker>> {
+        if (!this.worker) {
+            this.worker = spawn<EmbeddingWorker>(new Worker(workerPath)).then(async worker => {
+                await worker.configure(getPath('models'));
+                return worker;
+            }).catch(error => {
+                // Spawned again on the next call instead of failing for good
+                this.worker = null;
+                throw error;
+            });
+        }
+        return this.worker;
+    }
+
+    public async embed(texts: string[]): Promise<number[][]> {
+        const worker = await this.getWorker();
+        const embeddings: number[][] = [];
+
+        for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+            embeddings.push(...await worker.embedTexts(texts.slice(i, i + BATCH_SIZE)));
+        }
+
+        return embeddings;
+    }
+
+    /**
+     * Ranks the stored passages by cosine similarity to the query.
+     */
+    public async search(query: string, topK: number = 10, filters: ISearchContextFilters = {}): Promise<ISearchContextResult[]> {
+        const results = await this.scorePassages(query, filters);
+        return results.sort((a, b) => b.score - a.score).slice(0, topK);
+    }
+
+    /**
+     * Scores every stored passage against the query. The store is capped at
+     * a few hundred pages, so an exhaustive scan is fast enough and needs no
+     * separate index.
+     */
+    public async scorePassages(query: string, filters: ISearchContextFilters = {}): Promise<ISearchContextResult[]> {
+        const [queryEmbedding] = await this.embed([query]);
+        const candidates = await this.crawlStore.getEmbeddedPassages(EMBEDDING_MODEL, filters);
+
+        return candidates.map(({ passage, entry }) => ({
+            url: entry.url,
+            passageId: passage.id,
+            text: passage.text,
+            headings: passage.headings,
+            page: passage.page,
+            start: passage.start,
+            end: passage.end,
+            depth: entry.depth,
+            timestamp: entry.timestamp,
+            // Embeddings are normalized, so the dot product is the cosine.
+            score: this.dot(queryEmbedding, passage.embedding),
+        }));
+    }
+
+    private dot(a: number[], b: number[]): number {
+        let sum = 0;
+        for (let i = 0; i < a.length; i++) {
+            sum += a[i] * b[i];
+        }
+        return sum;
+    }
+
+    private scheduleIndexing() {
+        clearTimeout(this.indexTimeout);
+        this.indexTimeout = setTimeout(() => this.indexPending(), INDEX_DELAY);
+    }
+
+    private async indexPending(): Promise<void> {
+        if (this.indexing) return;
+        this.indexing = true;
+
+        try {
+            let passages = await this.crawlStore.getPassagesToEmbed(EMBEDDING_MODEL, BATCH_SIZE);
+
+            while (passages.length > 0) {
+                const embeddings = await this.embed(passages.map(passage => passage.text));
+
+                for (let i = 0; i < passages.length; i++) {
+                    await this.crawlStore.setPassageEmbedding(passages[i].id, embeddings[i], EMBEDDING_MODEL);
+                }
+
+                passages = await this.crawlStore.getPassagesToEmbed(EMBEDDING_MODEL, BATCH_SIZE);
+            }
+        } catch (error) {
+            console.error('Error embedding passages:', error);
+        } finally {
+            this.indexing = false;
+        }
+    }
+}
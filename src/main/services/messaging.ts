@@ -1,5 +1,4 @@
 import { ipcMain } from 'electron';
-// import { getPassword, setPassword, deletePassword } from 'keytar';
 
 import { AppWindow } from '../windows';
 import { Application } from '../application';
@@ -14,6 +13,10 @@ import { showExtensionDialog } from '../dialogs/extension-popup';
 import { showDownloadsDialog } from '../dialogs/downloads';
 import { showZoomDialog } from '../dialogs/zoom';
 import { showTabGroupDialog } from '../dialogs/tabgroup';
+import { FormFillDialog } from '../dialogs/form-fill';
+import { CredentialsDialog } from '../dialogs/credentials';
+import { getFormFillMenuItems } from '../utils/form-fill';
+import { PasswordVault } from './password-vault';
 
 export const runMessagingService = (appWindow: AppWindow) => {
   const { id } = appWindow;
@@ -98,28 +101,36 @@ export const runMessagingService = (appWindow: AppWindow) => {
   });
 
   if (process.env.ENABLE_AUTOFILL) {
-    // TODO: autofill
-    // ipcMain.on(`form-fill-show-${id}`, async (e, rect, name, value) => {
-    //   const items = await getFormFillMenuItems(name, value);
-
-    //   if (items.length) {
-    //     appWindow.dialogs.formFillDialog.send(`formfill-get-items`, items);
-    //     appWindow.dialogs.formFillDialog.inputRect = rect;
-
-    //     appWindow.dialogs.formFillDialog.resize(
-    //       items.length,
-    //       items.find((r) => r.subtext) != null,
-    //     );
-    //     appWindow.dialogs.formFillDialog.rearrange();
-    //     appWindow.dialogs.formFillDialog.show(false);
-    //   } else {
-    //     appWindow.dialogs.formFillDialog.hide();
-    //   }
-    // });
-
-    // ipcMain.on(`form-fill-hide-${id}`, () => {
-    //   appWindow.dialogs.formFillDialog.hide();
-    // });
+    const vault = PasswordVault.getInstance();
+    const formFillDialog = () =>
+      Application.instance.dialogs.getPersistent('form-fill') as FormFillDialog;
+    const credentialsDialog = () =>
+      Application.instance.dialogs.getPersistent(
+        'credentials',
+      ) as CredentialsDialog;
+
+    ipcMain.on(`form-fill-show-${id}`, async (e, rect, type, value) => {
+      const items = await getFormFillMenuItems(type, value);
+      const dialog = formFillDialog();
+
+      if (items.length) {
+        dialog.send(`formfill-get-items`, items);
+        dialog.inputRect = rect;
+
+        await dialog.show(appWindow.win, false);
+        dialog.resize(
+          items.length,
+          items.find((r) => r.subtext) != null,
+        );
+        dialog.rearrange();
+      } else {
+        dialog.hide();
+      }
+    });
+
+    ipcMain.on(`form-fill-hide-${id}`, () => {
+      formFillDialog().hide();
+    });
 
     ipcMain.on(
       `form-fill-update-${id}`,
@@ -127,18 +138,24 @@ export const runMessagingService = (appWindow: AppWindow) => {
         const url = appWindow.viewManager.selected.url;
         const { hostname } = new URL(url);
 
-        const item =
+        let item =
           _id &&
           (await Application.instance.storage.findOne<IFormFillData>({
             scope: 'formfill',
             query: { _id },
           }));
 
-        if (item && item.type === 'password') {
-          // item.fields.password = await getPassword(
-          //   'socrathink',
-          //   `${hostname}-${item.fields.username}`,
-          // );
+        // Passwords are only filled on their own site. Passwords and card
+        // numbers are only filled while the vault is unlocked.
+        if (item && item.type === 'password' && item.url !== hostname) {
+          item = null;
+        } else if (item?.fields.secret) {
+          const { secret, ...fields } = item.fields;
+          item.fields = fields;
+          if (vault.isUnlocked) {
+            const key = item.type === 'card' ? 'cardNumber' : 'password';
+            item.fields[key] = vault.decrypt(secret);
+          }
         }
 
         appWindow.viewManager.selected.send(
@@ -149,21 +166,30 @@ export const runMessagingService = (appWindow: AppWindow) => {
       },
     );
 
-    // ipcMain.on(`credentials-show-${id}`, (e, data) => {
-    //   appWindow.dialogs.credentialsDialog.send('credentials-update', data);
-    //   appWindow.dialogs.credentialsDialog.rearrange();
-    //   appWindow.dialogs.credentialsDialog.show();
-    // });
+    ipcMain.on(`credentials-show-${id}`, async (e, data) => {
+      const dialog = credentialsDialog();
+      dialog.send('credentials-update', data);
+      await dialog.show(appWindow.win);
+      dialog.rearrange();
+    });
 
-    // ipcMain.on(`credentials-hide-${id}`, () => {
-    //   appWindow.dialogs.credentialsDialog.hide();
-    // });
+    ipcMain.on(`credentials-hide-${id}`, () => {
+      credentialsDialog().hide();
+    });
 
-    ipcMain.on(`credentials-save-${id}`, async (e, data) => {
+    // The dialog asks for the master password when the vault is locked.
+    ipcMain.handle(`credentials-save-${id}`, async (e, data) => {
       const { username, password, update, oldUsername } = data;
       const view = appWindow.viewManager.selected;
       const hostname = view.hostname;
 
+      // Nowhere to keep the password until the vault is unlocked.
+      if (!vault.isUnlocked) {
+        return { ok: false, status: 423, data: await vault.getStatus() };
+      }
+
+      const secret = vault.encrypt(password);
+
       if (!update) {
         const item = await Application.instance.storage.insert<IFormFillData>({
           scope: 'formfill',
@@ -174,42 +200,49 @@ export const runMessagingService = (appWindow: AppWindow) => {
             fields: {
               username,
               passLength: password.length,
+              secret,
             },
           },
         });
 
-        appWindow.viewManager.settingsView.webContents.send(
+        appWindow.viewManager.settingsView?.webContents.send(
           'credentials-insert',
           item,
         );
       } else {
-        await Application.instance.storage.update({
+        const item = await Application.instance.storage.findOne<IFormFillData>({
           scope: 'formfill',
           query: {
             type: 'password',
             url: hostname,
             'fields.username': oldUsername,
-            'fields.passLength': password.length,
           },
+        });
+        if (!item) return { ok: false, status: 404, data: 'Not found' };
+
+        await Application.instance.storage.update({
+          scope: 'formfill',
+          query: { _id: item._id },
           value: {
             'fields.username': username,
+            'fields.passLength': password.length,
+            'fields.secret': secret,
           },
         });
 
-        appWindow.viewManager.settingsView.webContents.send(
+        appWindow.viewManager.settingsView?.webContents.send(
           'credentials-update',
-          { ...data, hostname },
+          { _id: item._id, username, passLength: password.length },
         );
       }
 
-      // await setPassword('socrathink', `${hostname}-${username}`, password);
-
       appWindow.send(`has-credentials-${view.id}`, true);
+
+      return { ok: true, status: 200, data: await vault.getStatus() };
     });
 
     ipcMain.on(`credentials-remove-${id}`, async (e, data: IFormFillData) => {
-      const { _id, fields } = data;
-      const view = appWindow.viewManager.selected;
+      const { _id } = data;
 
       await Application.instance.storage.remove({
         scope: 'formfill',
@@ -218,21 +251,11 @@ export const runMessagingService = (appWindow: AppWindow) => {
         },
       });
 
-      // await deletePassword('socrathink', `${view.hostname}-${fields.username}`);
-
-      appWindow.viewManager.settingsView.webContents.send(
+      appWindow.viewManager.settingsView?.webContents.send(
         'credentials-remove',
         _id,
       );
     });
-
-    ipcMain.on(
-      'credentials-get-password',
-      async (e, id: string, account: string) => {
-        // const password = await getPassword('socrathink', account);
-        // e.sender.send(id, password);
-      },
-    );
   }
 
   ipcMain.handle(
@@ -0,0 +1,327 @@
+import { EventEmitter } from 'events';
+import { Application } from '../application';
+import { DEFAULT_SETTINGS } from '~/constants';
+import { IHarTimings, INetworkRetention, INetworkStream, INetworkStreamMessage, NetworkStreamKind } from '~/interfaces';
+import { NetworkStore, StoredNetworkData } from '~/renderer/views/app/store/network-store';
+import { HarCapture } from '~/renderer/views/app/store/har';
+import { Redactor } from './redactor';
+
+// Tabs making many requests are pruned at most this often
+const PRUNE_DELAY = 2000;
+const EXPIRY_INTERVAL = 10 * 60 * 1000;
+// Messages of open connections are written in batches
+const STREAM_FLUSH_DELAY = 2000;
+// Only the most recent messages of each connection are kept
+const MAX_STREAM_MESSAGES = 200;
+
+export interface CapturedRequest {
+    requestId: string;
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+    initiator?: any;
+}
+
+export interface CapturedResponse {
+    status: number;
+    headers: Record<string, string>;
+    timings?: IHarTimings;
+}
+
+export declare interface NetworkCapture {
+    on(event: 'request', listener: (entry: StoredNetworkData) => void): this;
+    on(event: 'response', listener: (entry: StoredNetworkData) => void): this;
+    on(event: 'finished', listener: (entry: StoredNetworkData) => void): this;
+    on(event: 'removed', listener: (requestIds: string[]) => void): this;
+    on(event: 'cleared', listener: () => void): this;
+    on(event: 'stream-opened' | 'stream-closed', listener: (stream: INetworkStream) => void): this;
+    on(event: 'stream-message', listener: (stream: INetworkStream, message: INetworkStreamMessage) => void): this;
+    off(event: 'request' | 'response' | 'finished', listener: (entry: StoredNetworkData) => void): this;
+    off(event: 'removed', listener: (requestIds: string[]) => void): this;
+    off(event: 'cleared', listener: () => void): this;
+    off(event: 'stream-opened' | 'stream-closed', listener: (stream: INetworkStream) => void): this;
+    off(event: 'stream-message', listener: (stream: INetworkStream, message: INetworkStreamMessage) => void): this;
+    emit(event: 'request' | 'response' | 'finished', entry: StoredNetworkData): boolean;
+    emit(event: 'removed', requestIds: string[]): boolean;
+    emit(event: 'cleared'): boolean;
+    emit(event: 'stream-opened' | 'stream-closed', stream: INetworkStream): boolean;
+    emit(event: 'stream-message', stream: INetworkStream, message: INetworkStreamMessage): boolean;
+}
+
+/**
+ * The single pipeline for the traffic of all tabs. Requests are masked by
+ * the Redactor, stored in the NetworkStore and then emitted, so that the
+ * network inspector, the tool extractor and the exporters all see the same
+ * requests. Each tab keeps only the requests within its retention limits.
+ *
+ * Emits `request` when a request is sent, `response` when its headers come
+ * back and `finished` once its body is stored. Pruned requests are emitted
+ * in `removed`, and `cleared` when the whole log is wiped.
+ *
+ * WebSocket and EventSource connections emit `stream-opened`, then
+ * `stream-message` for every message sent or received, then `stream-closed`.
+ */
+export class NetworkCapture extends EventEmitter {
+    private static instance: NetworkCapture;
+
+    private inFlight: Map<string, StoredNetworkData> = new Map();
+    private pruneTimers: Map<number, NodeJS.Timeout> = new Map();
+    private streams: Map<string, INetworkStream> = new Map();
+    private unsavedStreams: Map<string, INetworkStream> = new Map();
+    private flushTimer: NodeJS.Timeout | null = null;
+
+    private constructor() {
+        super();
+
+        this.removeExpired();
+        setInterval(() => this.removeExpired(), EXPIRY_INTERVAL).unref();
+    }
+
+    public static getInstance(): NetworkCapture {
+        if (!NetworkCapture.instance) {
+            NetworkCapture.instance = new NetworkCapture();
+        }
+        return NetworkCapture.instance;
+    }
+
+    private get retention(): INetworkRetention {
+        return Application.instance.settings.object.networkRetention || DEFAULT_SETTINGS.networkRetention;
+    }
+
+    public async addRequest(tabId: number, request: CapturedRequest): Promise<void> {
+        // Secrets are masked before anything is stored
+        const redacted = Redactor.getInstance().redactRequest(request);
+
+        const networkStore = await NetworkStore.getInstance();
+        const entry = await networkStore.addRequestToLog({ ...redacted, tabId });
+        if (!entry) return;
+
+        this.inFlight.set(entry.requestId, entry);
+        this.emit('request', entry);
+    }
+
+    public async addResponse(requestId: string, response: CapturedResponse): Promise<void> {
+        const entry = this.inFlight.get(requestId);
+        if (!entry) return;
+
+        entry.responseStatus = response.status;
+        entry.responseHeaders = Redactor.getInstance().redactHeaders(response.headers);
+        entry.timings = response.timings;
+
+        const networkStore = await NetworkStore.getInstance();
+        await networkStore.updateLogWithResponse({
+            requestId,
+            status: entry.responseStatus,
+            headers: entry.responseHeaders,
+        });
+
+        this.emit('response', entry);
+    }
+
+    /**
+     * Stores the body of a response once it has been fully received. The
+     * receive phase of the timings is what is left of the duration.
+     */
+    public async finishRequest(requestId: string, body: string, duration?: number): Promise<void> {
+        const entry = this.inFlight.get(requestId);
+        this.inFlight.delete(requestId);
+        if (!entry || entry.responseStatus === 0) return;
+
+        if (duration !== undefined) {
+            entry.duration = duration;
+            if (entry.timings) {
+                const { blocked, dns, connect, send, wait } = entry.timings;
+                const elapsed = [blocked, dns, connect, send, wait].filter(time => time > 0).reduce((sum, time) => sum + time, 0);
+                entry.timings.receive = Math.max(0, duration - elapsed);
+            }
+        }
+
+        const networkStore = await NetworkStore.getInstance();
+        entry.responseBody = Redactor.getInstance().redactBody(body, entry.responseHeaders['content-type']) ?? '';
+        entry.contentHash = await networkStore.hashString(entry.responseBody);
+
+        await networkStore.updateLogWithResponse({
+            requestId,
+            status: entry.responseStatus,
+            headers: entry.responseHeaders,
+            body: entry.responseBody,
+            duration: entry.duration,
+            timings: entry.timings,
+        });
+
+        this.emit('finished', entry);
+        this.schedulePrune(entry.tabId);
+    }
+
+    // For requests that failed or were cancelled before finishing
+    public dropRequest(requestId: string) {
+        this.inFlight.delete(requestId);
+    }
+
+    public openStream(tabId: number, id: string, kind: NetworkStreamKind, url: string) {
+        if (this.streams.has(id)) return;
+
+        const maskedUrl = Redactor.getInstance().redactUrl(url);
+        const now = Date.now();
+        const stream: INetworkStream = {
+            id,
+            kind,
+            url: maskedUrl,
+            baseUrl: new URL(maskedUrl).origin,
+            tabId,
+            openedAt: now,
+            updatedAt: now,
+            messages: [],
+        };
+
+        this.streams.set(id, stream);
+        this.scheduleFlush(stream);
+        this.emit('stream-opened', stream);
+    }
+
+    public addStreamMessage(id: string, message: Omit<INetworkStreamMessage, 'timestamp'>) {
+        const stream = this.streams.get(id);
+        if (!stream) return;
+
+        const masked: INetworkStreamMessage = {
+            ...message,
+            data: Redactor.getInstance().redactMessage(message.data),
+            timestamp: Date.now(),
+        };
+
+        stream.messages.push(masked);
+        if (stream.messages.length > MAX_STREAM_MESSAGES) {
+            stream.messages.shift();
+        }
+        stream.updatedAt = masked.timestamp;
+
+        this.scheduleFlush(stream);
+        this.emit('stream-message', stream, masked);
+    }
+
+    public closeStream(id: string) {
+        const stream = this.streams.get(id);
+        if (!stream) return;
+
+        this.streams.delete(id);
+        stream.closedAt = Date.now();
+
+        this.scheduleFlush(stream);
+        this.emit('stream-closed', stream);
+    }
+
+    public closeTabStreams(tabId: number) {
+        for (const stream of Array.from(this.streams.values())) {
+            if (stream.tabId === tabId) {
+                this.closeStream(stream.id);
+            }
+        }
+    }
+
+    /**
+     * Stores the requests of a HAR file, with their secrets masked the same
+     * way as the requests captured while browsing.
+     */
+    public async importCaptures(captures: HarCapture[]): Promise<{ imported: number; tools: string[] }> {
+        const redactor = Redactor.getInstance();
+        const networkStore = await NetworkStore.getInstance();
+
+        const { entries, tools } = await networkStore.importCaptures(captures.map(capture => {
+            const request = redactor.redactRequest({
+                url: capture.url,
+                headers: capture.requestHeaders,
+                body: capture.requestBody,
+            });
+            return {
+                ...capture,
+                url: request.url,
+                requestHeaders: request.headers,
+                requestBody: request.body,
+                responseHeaders: redactor.redactHeaders(capture.responseHeaders),
+                responseBody: redactor.redactBody(capture.responseBody, capture.responseHeaders['content-type']),
+            };
+        }));
+
+        entries.forEach(entry => this.emit('finished', entry));
+
+        return { imported: entries.length, tools };
+    }
+
+    public async clear(): Promise<void> {
+        this.inFlight.clear();
+        this.unsavedStreams.clear();
+        this.streams.forEach(stream => stream.messages = []);
+        await (await NetworkStore.getInstance()).clearLogs();
+        this.emit('cleared');
+    }
+
+    /**
+     * Forgets what was captured since the given time. Requests still in
+     * flight are dropped, their responses are not logged anymore.
+     */
+    public async clearSince(timestamp: number): Promise<void> {
+        this.inFlight.forEach((entry, requestId) => {
+            if (entry.timestamp >= timestamp) this.inFlight.delete(requestId);
+        });
+        this.unsavedStreams.clear();
+        this.streams.forEach(stream => {
+            stream.messages = stream.messages.filter(message => message.timestamp < timestamp);
+        });
+
+        const networkStore = await NetworkStore.getInstance();
+        this.emitRemoved(await networkStore.removeSince(timestamp));
+    }
+
+    private scheduleFlush(stream: INetworkStream) {
+        this.unsavedStreams.set(stream.id, stream);
+        if (this.flushTimer) return;
+
+        this.flushTimer = setTimeout(async () => {
+            this.flushTimer = null;
+            const streams = Array.from(this.unsavedStreams.values()).map(stream => ({
+                ...stream,
+                messages: [...stream.messages],
+            }));
+            this.unsavedStreams.clear();
+
+            try {
+                await (await NetworkStore.getInstance()).saveStreams(streams);
+            } catch (error) {
+                console.error('Error saving network streams:', error);
+            }
+        }, STREAM_FLUSH_DELAY);
+    }
+
+    private schedulePrune(tabId?: number) {
+        if (tabId === undefined || this.pruneTimers.has(tabId)) return;
+
+        this.pruneTimers.set(tabId, setTimeout(async () => {
+            this.pruneTimers.delete(tabId);
+            try {
+                const networkStore = await NetworkStore.getInstance();
+                this.emitRemoved(await networkStore.pruneTab(tabId, this.retention));
+            } catch (error) {
+                console.error(`Error pruning network log of tab ${tabId}:`, error);
+            }
+        }, PRUNE_DELAY));
+    }
+
+    // Also catches the requests of tabs that were closed, or of previous sessions
+    private async removeExpired() {
+        try {
+            const networkStore = await NetworkStore.getInstance();
+            const cutoff = Date.now() - this.retention.maxAge;
+            this.emitRemoved(await networkStore.removeCapturedBefore(cutoff));
+            await networkStore.removeStreamsBefore(cutoff);
+        } catch (error) {
+            console.error('Error removing expired network logs:', error);
+        }
+    }
+
+    private emitRemoved(requestIds: string[]) {
+        if (requestIds.length > 0) {
+            this.emit('removed', requestIds);
+        }
+    }
+}
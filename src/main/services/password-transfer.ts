@@ -0,0 +1,268 @@
+import { dialog, ipcMain } from 'electron';
+import { promises } from 'fs';
+import { Application } from '../application';
+import { PasswordVault } from './password-vault';
+import {
+    IFormFillData,
+    IPasswordCsvEntry,
+    IPasswordImportItem,
+    IPasswordImportPreview,
+    IPasswordImportResult,
+    PasswordCsvFormat,
+} from '~/interfaces';
+import { makeId } from '~/utils';
+import { parsePasswordCsv, stringifyPasswordCsv } from '~/utils/password-csv';
+
+interface PendingLogin extends IPasswordImportItem {
+    password: string;
+    // The saved credential a conflict would replace.
+    existingId?: string;
+}
+
+interface PendingImport {
+    id: string;
+    logins: PendingLogin[];
+}
+
+const CSV_FILTERS = [{ name: 'CSV file', extensions: ['csv'] }];
+
+// Saved credentials are keyed by hostname, like the pages filling them.
+const loginKey = (hostname: string, username: string) => `${hostname}\n${username}`;
+
+const parseLoginUrl = (url: string): URL => {
+    try {
+        const parsed = new URL(url.trim());
+        return /^https?:$/.test(parsed.protocol) ? parsed : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Moves saved passwords in and out as CSV files, in the formats Chrome,
+ * Edge, Firefox and Bitwarden export. An import is previewed first: logins
+ * saved already with the same password are skipped, and the user picks which
+ * of the ones saved with another password are replaced. The passwords read
+ * from the file stay in this process until the import is applied, cancelled
+ * or the vault locks.
+ *
+ * Exporting writes every password in clear, so it asks for the master
+ * password again.
+ */
+export class PasswordTransfer {
+    private static instance: PasswordTransfer;
+
+    private pending: PendingImport = null;
+
+    private constructor() {
+        this.setupIpcHandlers();
+
+        PasswordVault.getInstance().on('locked', () => {
+            this.pending = null;
+        });
+    }
+
+    public static getInstance(): PasswordTransfer {
+        if (!PasswordTransfer.instance) {
+            PasswordTransfer.instance = new PasswordTransfer();
+        }
+        return PasswordTransfer.instance;
+    }
+
+    private get vault() {
+        return PasswordVault.getInstance();
+    }
+
+    private async getCredentials(): Promise<IFormFillData[]> {
+        return Application.instance.storage.find<IFormFillData>({
+            scope: 'formfill',
+            query: { type: 'password' },
+        });
+    }
+
+    /**
+     * Compares the logins of a CSV export with the saved ones.
+     */
+    public async preview(text: string): Promise<IPasswordImportPreview> {
+        const { format, entries } = parsePasswordCsv(text);
+        if (!format) {
+            throw new Error('Unrecognized password export');
+        }
+
+        const saved = new Map<string, IFormFillData>();
+        for (const item of await this.getCredentials()) {
+            saved.set(loginKey(item.url, item.fields.username ?? ''), item);
+        }
+
+        const seen = new Set<string>();
+        const logins: PendingLogin[] = [];
+        let invalid = 0;
+
+        entries.forEach(({ url, username, password }: IPasswordCsvEntry, index) => {
+            const parsed = parseLoginUrl(url);
+            if (!parsed || !password) {
+                invalid++;
+                return;
+            }
+
+            const { hostname } = parsed;
+            const key = loginKey(hostname, username);
+            const existing = saved.get(key);
+
+            const login: PendingLogin = {
+                index,
+                hostname,
+                username,
+                password,
+                passLength: password.length,
+                status: 'new',
+            };
+
+            if (seen.has(key)) {
+                // Listed twice in the file, the first one wins
+                login.status = 'duplicate';
+            } else if (existing) {
+                const secret = existing.fields.secret;
+                login.status = secret && this.vault.decrypt(secret) === password ? 'duplicate' : 'conflict';
+                login.existingId = existing._id;
+            }
+
+            seen.add(key);
+            logins.push(login);
+        });
+
+        this.pending = { id: makeId(32), logins };
+
+        return {
+            id: this.pending.id,
+            format,
+            items: logins.map(({ password, existingId, ...item }) => item),
+            invalid,
+        };
+    }
+
+    /**
+     * Saves the new logins of a previewed import, and replaces the saved
+     * passwords of the conflicts listed in `replace`, by row.
+     */
+    public async apply(id: string, replace: number[]): Promise<IPasswordImportResult> {
+        if (!this.pending || this.pending.id !== id) {
+            throw new Error('No such import');
+        }
+
+        const { logins } = this.pending;
+        this.pending = null;
+
+        const { storage } = Application.instance;
+        const result: IPasswordImportResult = { inserted: 0, replaced: 0 };
+
+        for (const login of logins) {
+            if (login.status === 'new') {
+                await storage.insert<IFormFillData>({
+                    scope: 'formfill',
+                    item: {
+                        type: 'password',
+                        url: login.hostname,
+                        fields: {
+                            username: login.username,
+                            passLength: login.passLength,
+                            secret: this.vault.encrypt(login.password),
+                        },
+                    },
+                });
+                result.inserted++;
+            } else if (login.status === 'conflict' && replace.includes(login.index)) {
+                await storage.update({
+                    scope: 'formfill',
+                    query: { _id: login.existingId },
+                    value: {
+                        'fields.passLength': login.passLength,
+                        'fields.secret': this.vault.encrypt(login.password),
+                    },
+                });
+                result.replaced++;
+            }
+        }
+
+        return result;
+    }
+
+    public async export(format: PasswordCsvFormat): Promise<string> {
+        const entries = (await this.getCredentials())
+            .filter(item => item.fields.secret)
+            .map(item => ({
+                url: `https://${item.url}/`,
+                username: item.fields.username ?? '',
+                password: this.vault.decrypt(item.fields.secret),
+            }));
+
+        return stringifyPasswordCsv(entries, format);
+    }
+
+    private setupIpcHandlers() {
+        ipcMain.handle('passwords-import-preview', async () => {
+            if (!this.vault.isUnlocked) {
+                return { ok: false, status: 401, data: 'The password vault is locked' };
+            }
+
+            const { canceled, filePaths } = await dialog.showOpenDialog({
+                filters: CSV_FILTERS,
+                properties: ['openFile'],
+            });
+            if (canceled || !filePaths.length) {
+                return { ok: true, status: 204, data: null };
+            }
+
+            try {
+                const text = await promises.readFile(filePaths[0], 'utf8');
+                return { ok: true, status: 200, data: await this.preview(text) };
+            } catch (error) {
+                console.error('Password import error:', error);
+                return { ok: false, status: 400, data: error.message };
+            }
+        });
+
+        ipcMain.handle('passwords-import-apply', async (e, id: string, replace: number[] = []) => {
+            if (!this.vault.isUnlocked) {
+                return { ok: false, status: 401, data: 'The password vault is locked' };
+            }
+            if (this.pending?.id !== id) {
+                // Dropped when the vault locked
+                return { ok: false, status: 410, data: 'The import expired, open the file again' };
+            }
+
+            try {
+                return { ok: true, status: 200, data: await this.apply(id, replace) };
+            } catch (error) {
+                console.error('Password import error:', error);
+                return { ok: false, status: 500, data: 'Internal server error' };
+            }
+        });
+
+        ipcMain.on('passwords-import-cancel', () => {
+            this.pending = null;
+        });
+
+        ipcMain.handle('passwords-export', async (e, masterPassword: string, format: PasswordCsvFormat = 'chrome') => {
+            try {
+                if (!(await this.vault.unlock(masterPassword))) {
+                    return { ok: false, status: 401, data: 'Wrong master password' };
+                }
+
+                const { canceled, filePath } = await dialog.showSaveDialog({
+                    defaultPath: 'passwords.csv',
+                    filters: CSV_FILTERS,
+                });
+                if (canceled || !filePath) {
+                    return { ok: true, status: 204, data: null };
+                }
+
+                await promises.writeFile(filePath, await this.export(format), { mode: 0o600 });
+                return { ok: true, status: 200, data: filePath };
+            } catch (error) {
+                console.error('Password export error:', error);
+                return { ok: false, status: 500, data: 'Internal server error' };
+            }
+        });
+    }
+}
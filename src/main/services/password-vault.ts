@@ -0,0 +1,364 @@
+import { ipcMain, powerMonitor } from 'electron';
+import { EventEmitter } from 'events';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { promises } from 'fs';
+import { Application } from '../application';
+import { DEFAULT_SETTINGS } from '~/constants';
+import { IEncryptedValue, IFormFillData, IPasswordVaultSettings, IPasswordVaultStatus } from '~/interfaces';
+import { getPath } from '~/utils';
+
+const VAULT_FILE = 'password-vault.json';
+const VAULT_VERSION = 1;
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// Costs about a tenth of a second, once per unlock
+const SCRYPT_COST = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+// Encrypted with the key, to tell whether a master password is the right one
+const VERIFIER = 'socrathink-password-vault';
+
+interface VaultFile {
+    version: number;
+    salt: string;
+    N: number;
+    r: number;
+    p: number;
+    verifier: IEncryptedValue;
+    // Secrets encrypted under this key by a change of master password, until
+    // they are all saved with their items.
+    pending?: PendingSecret[];
+}
+
+interface PendingSecret {
+    _id: string;
+    // The secret it replaces, which is left alone if it changed since.
+    previous: string;
+    secret: IEncryptedValue;
+}
+
+export declare interface PasswordVault {
+    on(event: 'locked' | 'unlocked', listener: () => void): this;
+    emit(event: 'locked' | 'unlocked'): boolean;
+}
+
+/**
+ * Keeps the saved passwords encrypted with AES-256-GCM, under a key derived
+ * from a master password with scrypt. The key only lives in memory between
+ * an unlock and the next lock, which happens after the configured idle
+ * time, when the screen locks or when the computer goes to sleep.
+ *
+ * Only the salt and a verifier are stored in the vault file, the encrypted
+ * passwords and card numbers stay with their items in the `formfill`
+ * storage.
+ */
+export class PasswordVault extends EventEmitter {
+    private static instance: PasswordVault;
+
+    private key: Buffer | null = null;
+    private lockTimer: NodeJS.Timeout | null = null;
+
+    private constructor() {
+        super();
+
+        this.setupIpcHandlers();
+
+        powerMonitor.on('lock-screen', () => this.lock());
+        powerMonitor.on('suspend', () => this.lock());
+    }
+
+    public static getInstance(): PasswordVault {
+        if (!PasswordVault.instance) {
+            PasswordVault.instance = new PasswordVault();
+        }
+        return PasswordVault.instance;
+    }
+
+    private get settings(): IPasswordVaultSettings {
+        return Application.instance.settings.object.passwordVault || DEFAULT_SETTINGS.passwordVault;
+    }
+
+    private get path(): string {
+        return getPath(VAULT_FILE);
+    }
+
+    public get isUnlocked(): boolean {
+        return this.key !== null;
+    }
+
+    public async getStatus(): Promise<IPasswordVaultStatus> {
+        return {
+            initialized: (await this.readFile()) !== null,
+            unlocked: this.isUnlocked,
+        };
+    }
+
+    /**
+     * Sets the master password of a new vault, which is then left unlocked.
+     */
+    public async setup(masterPassword: string): Promise<void> {
+        if (await this.readFile()) {
+            throw new Error('The password vault is already set up');
+        }
+
+        await this.writeVault(masterPassword);
+        this.emit('unlocked');
+    }
+
+    /**
+     * Derives the key from the master password. Resolves to false when the
+     * password is wrong.
+     */
+    public async unlock(masterPassword: string): Promise<boolean> {
+        const file = await this.readFile();
+        if (!file) {
+            throw new Error('The password vault is not set up');
+        }
+
+        const key = await this.deriveKey(masterPassword, Buffer.from(file.salt, 'base64'), file);
+
+        try {
+            if (decryptWith(key, file.verifier) !== VERIFIER) return false;
+        } catch {
+            // The authentication tag doesn't match another key
+            return false;
+        }
+
+        this.setKey(key);
+        this.emit('unlocked');
+
+        if (file.pending) {
+            // Left by a change of master password which failed midway
+            try {
+                await this.savePending(file);
+            } catch (error) {
+                console.error('Password vault change error:', error);
+            }
+        }
+
+        return true;
+    }
+
+    public lock() {
+        if (!this.key) return;
+
+        this.key.fill(0);
+        this.key = null;
+        clearTimeout(this.lockTimer);
+        this.lockTimer = null;
+
+        this.emit('locked');
+    }
+
+    /**
+     * Encrypts the passwords and card numbers of every saved item again,
+     * under a key derived from the new master password.
+     *
+     * They are all encrypted in memory first, then written along with the new
+     * key in one go, which is when the master password changes. The items are
+     * only updated after that, and again on the next unlock if it fails midway.
+     */
+    public async changeMasterPassword(oldPassword: string, newPassword: string): Promise<boolean> {
+        if (!(await this.unlock(oldPassword))) return false;
+
+        const items = await Application.instance.storage.find<IFormFillData>({
+            scope: 'formfill',
+            query: {},
+        });
+
+        const salt = randomBytes(SALT_LENGTH);
+        const key = await this.deriveKey(newPassword, salt, SCRYPT_COST);
+
+        const pending: PendingSecret[] = items
+            .filter(item => item.fields?.secret)
+            .map(item => ({
+                _id: item._id,
+                previous: item.fields.secret.data,
+                secret: encryptWith(key, this.decrypt(item.fields.secret)),
+            }));
+
+        const file = createVaultFile(key, salt, pending);
+        await this.writeFile(file);
+        this.setKey(key);
+
+        await this.savePending(file);
+
+        return true;
+    }
+
+    // Throws when the vault is locked.
+    public encrypt(plaintext: string): IEncryptedValue {
+        return encryptWith(this.useKey(), plaintext);
+    }
+
+    // Throws when the vault is locked, or when the value was tampered with.
+    public decrypt(value: IEncryptedValue): string {
+        return decryptWith(this.useKey(), value);
+    }
+
+    private useKey(): Buffer {
+        if (!this.key) {
+            throw new Error('The password vault is locked');
+        }
+        this.scheduleLock();
+        return this.key;
+    }
+
+    private setKey(key: Buffer) {
+        if (this.key && this.key !== key) {
+            this.key.fill(0);
+        }
+        this.key = key;
+        this.scheduleLock();
+    }
+
+    private scheduleLock() {
+        clearTimeout(this.lockTimer);
+        this.lockTimer = null;
+
+        const { autoLockAfter } = this.settings;
+        if (autoLockAfter > 0) {
+            this.lockTimer = setTimeout(() => this.lock(), autoLockAfter);
+        }
+    }
+
+    private async writeVault(masterPassword: string): Promise<void> {
+        const salt = randomBytes(SALT_LENGTH);
+        const key = await this.deriveKey(masterPassword, salt, SCRYPT_COST);
+
+        await this.writeFile(createVaultFile(key, salt));
+        this.setKey(key);
+    }
+
+    /**
+     * Saves the secrets encrypted by a change of master password with their
+     * items, then forgets them. Secrets changed since are left as they are.
+     */
+    private async savePending(file: VaultFile): Promise<void> {
+        for (const { _id, previous, secret } of file.pending ?? []) {
+            await Application.instance.storage.update({
+                scope: 'formfill',
+                query: { _id, 'fields.secret.data': previous },
+                value: { 'fields.secret': secret },
+            });
+        }
+
+        const { pending, ...saved } = file;
+        await this.writeFile(saved);
+    }
+
+    private deriveKey(password: string, salt: Buffer, cost: { N: number; r: number; p: number }): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            scrypt(password.normalize('NFKC'), salt, KEY_LENGTH, { ...cost, maxmem: SCRYPT_MAXMEM }, (error, key) => {
+                if (error) reject(error);
+                else resolve(key);
+            });
+        });
+    }
+
+    private async readFile(): Promise<VaultFile | null> {
+        try {
+            return JSON.parse(await promises.readFile(this.path, 'utf8'));
+        } catch {
+            return null;
+        }
+    }
+
+    // Written aside then renamed, so the vault file is never half written
+    private async writeFile(file: VaultFile): Promise<void> {
+        const temp = `${this.path}.tmp`;
+        await promises.writeFile(temp, JSON.stringify(file), { mode: 0o600 });
+        await promises.rename(temp, this.path);
+    }
+
+    private setupIpcHandlers() {
+        ipcMain.handle('password-vault-status', async () => {
+            return this.getStatus();
+        });
+
+        ipcMain.handle('password-vault-setup', async (e, masterPassword: string) => {
+            try {
+                await this.setup(masterPassword);
+                return { ok: true, status: 200, data: await this.getStatus() };
+            } catch (error) {
+                console.error('Password vault setup error:', error);
+                return { ok: false, status: 409, data: error.message };
+            }
+        });
+
+        ipcMain.handle('password-vault-unlock', async (e, masterPassword: string) => {
+            try {
+                const unlocked = await this.unlock(masterPassword);
+                return unlocked
+                    ? { ok: true, status: 200, data: await this.getStatus() }
+                    : { ok: false, status: 401, data: 'Wrong master password' };
+            } catch (error) {
+                console.error('Password vault unlock error:', error);
+                return { ok: false, status: 500, data: 'Internal server error' };
+            }
+        });
+
+        ipcMain.handle('password-vault-lock', async () => {
+            this.lock();
+            return this.getStatus();
+        });
+
+        // The settings page reveals a saved password, by its credential
+        ipcMain.handle('credentials-get-password', async (e, _id: string) => {
+            const item = await Application.instance.storage.findOne<IFormFillData>({
+                scope: 'formfill',
+                query: { _id },
+            });
+            if (!item?.fields.secret || !this.isUnlocked) return null;
+            return this.decrypt(item.fields.secret);
+        });
+
+        ipcMain.handle('password-vault-change', async (e, oldPassword: string, newPassword: string) => {
+            try {
+                const changed = await this.changeMasterPassword(oldPassword, newPassword);
+                return changed
+                    ? { ok: true, status: 200, data: await this.getStatus() }
+                    : { ok: false, status: 401, data: 'Wrong master password' };
+            } catch (error) {
+                console.error('Password vault change error:', error);
+                return { ok: false, status: 500, data: 'Internal server error' };
+            }
+        });
+    }
+}
+
+function createVaultFile(key: Buffer, salt: Buffer, pending?: PendingSecret[]): VaultFile {
+    return {
+        version: VAULT_VERSION,
+        salt: salt.toString('base64'),
+        ...SCRYPT_COST,
+        verifier: encryptWith(key, VERIFIER),
+        pending,
+    };
+}
+
+function encryptWith(key: Buffer, plaintext: string): IEncryptedValue {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return {
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+    };
+}
+
+function decryptWith(key: Buffer, value: IEncryptedValue): string {
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(value.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+
+    return Buffer.concat([
+        decipher.update(Buffer.from(value.data, 'base64')),
+        decipher.final(),
+    ]).toString('utf8');
+}
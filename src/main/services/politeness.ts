@@ -0,0 +1,206 @@
+import fetch from 'cross-fetch';
+import { session } from 'electron';
+import { getUserAgentForURL } from '../user-agent';
+import {
+    getCrawlDelay,
+    isAllowedByRobots,
+    IRobotsTxt,
+    parseRobotsTxt,
+} from '~/utils/robots';
+
+// Matched against the User-agent lines of robots.txt.
+const ROBOTS_USER_AGENT = 'socrathink';
+
+const ROBOTS_TTL = 24 * 60 * 60 * 1000;
+const ROBOTS_ERROR_TTL = 60 * 60 * 1000;
+const ROBOTS_TIMEOUT = 10000;
+
+const MAX_CONCURRENT_PER_HOST = 2;
+const DEFAULT_DELAY = 1000;
+const MAX_CRAWL_DELAY = 60 * 1000;
+
+const BASE_BACKOFF = 5000;
+const MAX_BACKOFF = 10 * 60 * 1000;
+
+// Hosts served by the app itself are never throttled.
+const LOCAL_HOSTS = ['context.socrathink'];
+
+interface RobotsEntry {
+    robots: IRobotsTxt | null;
+    // Set when robots.txt could not be fetched because of a server error.
+    disallowAll: boolean;
+    expiresAt: number;
+}
+
+interface HostState {
+    active: number;
+    nextRequestAt: number;
+    backoffLevel: number;
+    waiting: (() => void)[];
+}
+
+/**
+ * Keeps background crawling polite: honours robots.txt rules and
+ * Crawl-delay, caps concurrent requests per host and backs off when a host
+ * answers with 429 or 503.
+ */
+export class PolitenessManager {
+    private robots: Map<string, RobotsEntry> = new Map();
+    private pendingRobots: Map<string, Promise<RobotsEntry>> = new Map();
+    private hosts: Map<string, HostState> = new Map();
+
+    public async isAllowed(url: string): Promise<boolean> {
+        const { origin, hostname, pathname, search } = new URL(url);
+        if (this.isLocal(hostname)) return true;
+
+        const entry = await this.getRobots(origin);
+        if (entry.disallowAll) return false;
+        if (!entry.robots) return true;
+
+        return isAllowedByRobots(entry.robots, ROBOTS_USER_AGENT, pathname + search);
+    }
+
+    /**
+     * Waits until the host has a free slot and its delay has elapsed.
+     * The returned function must be called once the request has finished.
+     */
+    public async acquire(url: string): Promise<() => void> {
+        const { origin, hostname } = new URL(url);
+        if (this.isLocal(hostname)) return () => undefined;
+
+        const entry = await this.getRobots(origin);
+        const crawlDelay = entry.robots ? getCrawlDelay(entry.robots, ROBOTS_USER_AGENT) : undefined;
+        const delay = crawlDelay !== undefined
+            ? Math.min(crawlDelay * 1000, MAX_CRAWL_DELAY)
+            : DEFAULT_DELAY;
+
+        const host = this.getHost(hostname);
+
+        while (host.active >= MAX_CONCURRENT_PER_HOST) {
+            await new Promise<void>(resolve => host.waiting.push(resolve));
+        }
+        host.active++;
+
+        // Reserve the slot before sleeping so concurrent callers queue up behind it.
+        const startAt = Math.max(Date.now(), host.nextRequestAt);
+        host.nextRequestAt = startAt + delay;
+
+        const wait = startAt - Date.now();
+        if (wait > 0) {
+            await new Promise(resolve => setTimeout(resolve, wait));
+        }
+
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            host.active--;
+            host.waiting.shift()?.();
+        };
+    }
+
+    /**
+     * Records the status of a finished request. Returns true when the request
+     * was throttled by the host and should be retried later.
+     */
+    public reportResponse(url: string, status: number, retryAfter?: string): boolean {
+        const { hostname } = new URL(url);
+        if (this.isLocal(hostname)) return false;
+
+        const host = this.getHost(hostname);
+
+        if (status === 429 || status === 503) {
+            const backoff = this.parseRetryAfter(retryAfter)
+                ?? Math.min(BASE_BACKOFF * Math.pow(2, host.backoffLevel), MAX_BACKOFF);
+
+            host.backoffLevel++;
+            host.nextRequestAt = Math.max(host.nextRequestAt, Date.now() + Math.min(backoff, MAX_BACKOFF));
+
+            console.log(`Backing off ${hostname} for ${Math.round(backoff / 1000)}s after status ${status}`);
+            return true;
+        }
+
+        if (status >= 200 && status < 400) {
+            host.backoffLevel = 0;
+        }
+
+        return false;
+    }
+
+    private parseRetryAfter(value?: string): number | undefined {
+        if (!value) return undefined;
+
+        const seconds = Number(value);
+        if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+        const date = Date.parse(value);
+        if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+        return undefined;
+    }
+
+    private getHost(hostname: string): HostState {
+        let host = this.hosts.get(hostname);
+        if (!host) {
+            host = { active: 0, nextRequestAt: 0, backoffLevel: 0, waiting: [] };
+            this.hosts.set(hostname, host);
+        }
+        return host;
+    }
+
+    private isLocal(hostname: string): boolean {
+        return LOCAL_HOSTS.includes(hostname);
+    }
+
+    private async getRobots(origin: string): Promise<RobotsEntry> {
+        const cached = this.robots.get(origin);
+        if (cached && cached.expiresAt > Date.now()) return cached;
+
+        if (!this.pendingRobots.has(origin)) {
+            this.pendingRobots.set(origin, this.fetchRobots(origin).then(entry => {
+                this.robots.set(origin, entry);
+                this.pendingRobots.delete(origin);
+                return entry;
+            }));
+        }
+
+        return this.pendingRobots.get(origin);
+    }
+
+    private async fetchRobots(origin: string): Promise<RobotsEntry> {
+        const url = `${origin}/robots.txt`;
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), ROBOTS_TIMEOUT);
+
+        try {
+            // Fetched without the user's cookies, like any other crawler would.
+            const response = await fetch(url, {
+                headers: {
+                    'User-Agent': getUserAgentForURL(session.defaultSession.getUserAgent(), url),
+                },
+                signal: controller.signal as any,
+            });
+
+            if (response.ok) {
+                return {
+                    robots: parseRobotsTxt(await response.text()),
+                    disallowAll: false,
+                    expiresAt: Date.now() + ROBOTS_TTL,
+                };
+            }
+
+            // Per RFC 9309, a missing robots.txt allows everything while a
+            // server error means the site must not be crawled for now.
+            return {
+                robots: null,
+                disallowAll: response.status >= 500,
+                expiresAt: Date.now() + (response.status >= 500 ? ROBOTS_ERROR_TTL : ROBOTS_TTL),
+            };
+        } catch (error) {
+            console.error(`Error fetching ${url}:`, error);
+            return { robots: null, disallowAll: true, expiresAt: Date.now() + ROBOTS_ERROR_TTL };
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+}
@@ -1,36 +1,60 @@
 // src/main/services/queue-manager.ts
 
-import { simpleFetch } from '~/utils/hybrid-fetch';
-import { handleContextOmnidoraRequest } from '..';
+import { ipcMain, WebContents } from 'electron';
 import { sha256 } from 'hash-wasm';
 import { CrawlStore } from '~/renderer/views/app/store/crawl-store';
-import { getAuthInfo, SerializableAuthInfo } from './context';
-import { Pool, ModuleThread } from 'threads';
-import { extractQueryParams } from '~/utils/url';
-import { parseMarkdown } from '~/utils/parse';
+import { CrawlJobStore } from '~/renderer/views/app/store/crawl-job-store';
+import { getAuthInfo, isTrustedSender, SerializableAuthInfo } from './context';
+import { Pool } from 'threads';
 import { CrawlerWorker } from './worker';
+import { CrawlJob } from './crawl-job';
+import { PolitenessManager } from './politeness';
+import { CrawlRulesEngine } from './crawl-rules';
+import { RecrawlScheduler } from './recrawl-scheduler';
+import { Redactor } from './redactor';
+import { IArticleMetadata, ICrawlFrontierEntry, ICrawlJobOptions, IExtractedRecord } from '~/interfaces';
 
 export interface CrawledData {
     url: string;
     rawHtml: string;
     content: string;
     links: string[];
+    // Title, byline, publish date and canonical URL of HTML pages
+    article?: IArticleMetadata;
+    // JSON-LD, microdata, meta cards and tables found in HTML pages
+    structuredData?: IExtractedRecord[];
     completed: boolean;
     depth: number;
+    status?: number;
+    retryAfter?: string;
+    etag?: string;
+    lastModified?: string;
 }
 
+// Passive crawling of the pages the user visits runs as a regular job.
+const BROWSING_JOB_ID = 'browsing';
+
+// The browsing job never finishes, so it only remembers the latest URLs.
+const BROWSING_MAX_VISITED = 10000;
+
+const SAVE_DELAY = 2000;
+
+// How many times a URL throttled with 429/503 is put back into the frontier.
+const MAX_RETRIES = 3;
+
 export class QueueManager {
-    private depth0UrlsToCrawl: string[] = [];
-    private otherUrlsToCrawl: string[] = [];
-    private crawledHashes: Set<string> = new Set();
-    private requestCount: number = 0;
-    private urlDepthMap: Map<string, number> = new Map();
-    private readonly MAX_DEPTH = 2;
-    private readonly MAX_CRAWLS: number = -1;
-    private crawlCount: number = 0;
+    private static instance: QueueManager;
+
+    private jobs: Map<string, CrawlJob> = new Map();
     private crawlStore: CrawlStore;
+    private jobStore: CrawlJobStore;
     private pool: Pool<CrawlerWorker>;
-    private isProcessing: boolean = false;
+    private ready: Promise<void>;
+    private saveTimeouts: Map<string, NodeJS.Timeout> = new Map();
+    private subscribers: Set<WebContents> = new Set();
+    private politeness = new PolitenessManager();
+    private rules = new CrawlRulesEngine();
+    private recrawl: RecrawlScheduler;
 
     private allowedContentTypes: Set<string> = new Set([
         'text/html',
@@ -46,153 +70,406 @@ export class QueueManager {
         'application/pdf'
     ]);
 
-    constructor(crawlStore: CrawlStore, pool: Pool<CrawlerWorker>) {
+    private constructor(crawlStore: CrawlStore, pool: Pool<CrawlerWorker>) {
         this.crawlStore = crawlStore;
         this.pool = pool;
+        this.setupIpcHandlers();
+        this.ready = this.restoreJobs();
+        this.startRecrawl();
     }
 
-    public async enqueue(url: string, depth: number = 1): Promise<void> {
-        const urlObj = new URL(url);
+    /**
+     * Returns the shared queue manager. Views may be created before the crawl
+     * store and the worker pool are ready, so missing dependencies are filled
+     * in by later calls.
+     */
+    public static getInstance(crawlStore: CrawlStore, pool: Pool<CrawlerWorker>): QueueManager {
+        if (!QueueManager.instance) {
+            QueueManager.instance = new QueueManager(crawlStore, pool);
+        } else {
+            QueueManager.instance.attach(crawlStore, pool);
+        }
+        return QueueManager.instance;
+    }
 
-        if (urlObj.protocol !== 'https:' && urlObj.protocol !== 'socrathink:') {
-            console.log(`Skipping ${url}: Only HTTPS and socrathink protocols are allowed`);
-            return;
+    private attach(crawlStore: CrawlStore, pool: Pool<CrawlerWorker>) {
+        if (!this.crawlStore && crawlStore) {
+            this.crawlStore = crawlStore;
         }
 
-        const urlHash = await this.hashString(url);
+        if (!this.pool && pool) {
+            this.pool = pool;
+            this.jobs.forEach(job => this.pump(job));
+        }
 
-        if (!this.crawledHashes.has(urlHash) &&
-            !this.depth0UrlsToCrawl.includes(url) &&
-            !this.otherUrlsToCrawl.includes(url)) {
-            if (depth === 0) {
-                this.depth0UrlsToCrawl.push(url);
-            } else {
-                this.otherUrlsToCrawl.push(url);
-            }
-            this.urlDepthMap.set(url, depth);
+        this.startRecrawl();
+    }
 
-            if (!this.isProcessing) {
-                this.processQueue();
-            }
-        }
+    private startRecrawl() {
+        if (this.recrawl || !this.crawlStore || !this.pool) return;
+
+        this.recrawl = new RecrawlScheduler(this.crawlStore, this.pool, this.politeness, this.rules, url => this.isOnHold(url));
+        this.recrawl.start();
     }
 
-    private async processQueue(): Promise<void> {
-        this.isProcessing = true;
-        while (this.crawlCount < this.MAX_CRAWLS || this.MAX_CRAWLS === -1) {
-            if (this.isEmpty()) {
-                this.isProcessing = false;
-                return;
-            }
-            const url = this.dequeue();
-            if (url) {
-                try {
-                    const depth = this.urlDepthMap.get(url) || 0;
-                    const authInfo: SerializableAuthInfo = await getAuthInfo(url);
-                    // console.log({ pool: this.pool });
-                    const result = await this.pool.queue(worker => worker.crawlUrl(authInfo, depth));
-                    await this.handleCrawlResult(result);
-                } catch (error) {
-                    console.error(`Error processing URL: ${url}`, error);
-                    this.handleFailedCrawl(url);
+    private setupIpcHandlers() {
+        ipcMain.handle('crawl-jobs-get', async (e) => {
+            if (!isTrustedSender(e.sender)) return [];
+
+            await this.ready;
+            return Array.from(this.jobs.values()).map(job => job.toInfo());
+        });
+
+        ipcMain.handle('crawl-job-create', async (e, options: ICrawlJobOptions) => {
+            if (!isTrustedSender(e.sender)) return null;
+
+            const job = await this.createJob(options);
+            return job ? job.toInfo() : null;
+        });
+
+        ipcMain.handle('crawl-job-pause', async (e, id: string) => {
+            if (!isTrustedSender(e.sender)) return false;
+
+            return this.pauseJob(id);
+        });
+
+        ipcMain.handle('crawl-job-resume', async (e, id: string) => {
+            if (!isTrustedSender(e.sender)) return false;
+
+            return this.resumeJob(id);
+        });
+
+        ipcMain.handle('crawl-job-cancel', async (e, id: string) => {
+            if (!isTrustedSender(e.sender)) return false;
+
+            return this.cancelJob(id);
+        });
+
+        ipcMain.handle('crawl-job-remove', async (e, id: string) => {
+            if (!isTrustedSender(e.sender)) return false;
+
+            return this.removeJob(id);
+        });
+
+        ipcMain.handle('crawl-jobs-subscribe', (e) => {
+            const { sender } = e;
+            if (!isTrustedSender(sender) || this.subscribers.has(sender)) return;
+
+            this.subscribers.add(sender);
+            sender.once('destroyed', () => {
+                this.subscribers.delete(sender);
+            });
+        });
+    }
+
+    private async restoreJobs(): Promise<void> {
+        try {
+            this.jobStore = await CrawlJobStore.getInstance();
+            const snapshots = await this.jobStore.getAll();
+
+            for (const snapshot of snapshots) {
+                const job = CrawlJob.fromSnapshot(snapshot);
+
+                if (job.id === BROWSING_JOB_ID) {
+                    job.maxVisited = BROWSING_MAX_VISITED;
+
+                    // Passive crawling can't be cancelled for good.
+                    if (job.state === 'cancelled') {
+                        job.state = 'done';
+                    }
+                }
+
+                const wasRunning = job.state === 'running';
+
+                // Work that was in flight when the app quit is crawled again.
+                if (wasRunning) {
+                    job.state = 'queued';
+                }
+
+                this.registerJob(job);
+
+                if (wasRunning) {
+                    this.startJob(job);
                 }
-                this.crawlCount++;
             }
+        } catch (error) {
+            console.error('Error restoring crawl jobs:', error);
         }
-        this.isProcessing = false;
-    }
 
-    private async handleCrawlResult(result: CrawledData) {
-        const { url, rawHtml, content, links, depth } = result;
-        // console.log({ rawHtml, content })
-        if (rawHtml && content) {
-            await this.crawlStore.add(url, rawHtml, content, depth);
-        }
-        if (depth < this.MAX_DEPTH) {
-            for (const link of links) {
-                await this.enqueue(link, depth + 1);
-            }
+        if (!this.jobs.has(BROWSING_JOB_ID)) {
+            this.registerJob(new CrawlJob({
+                name: 'Browsing',
+                seedUrl: '',
+                maxVisited: BROWSING_MAX_VISITED,
+            }, BROWSING_JOB_ID));
         }
-        console.log(`Processed URL: ${url}, extracted ${links.length} links, depth: ${depth}`);
     }
 
-    private isAllowedContentType(contentType: string): boolean {
-        return Array.from(this.allowedContentTypes).some(allowed => contentType.startsWith(allowed));
+    private registerJob(job: CrawlJob) {
+        this.jobs.set(job.id, job);
+
+        job.on('progress', () => this.emitProgress(job));
+        job.on('state', () => this.saveJob(job));
     }
 
-    public dequeue(): string | undefined {
-        this.requestCount++;
-        if (this.requestCount % 10 === 0) {
-            this.sortQueue();
+    public async createJob(options: ICrawlJobOptions): Promise<CrawlJob | null> {
+        await this.ready;
+
+        if (!this.isCrawlable(options.seedUrl)) {
+            console.log(`Skipping crawl job for ${options.seedUrl}: Only HTTPS and socrathink protocols are allowed`);
+            return null;
         }
 
-        if (this.depth0UrlsToCrawl.length > 0) {
-            return this.depth0UrlsToCrawl.shift();
-        } else {
-            return this.otherUrlsToCrawl.shift();
+        const violation = await this.rules.check(options.seedUrl);
+        if (violation) {
+            console.log(`Skipping crawl job for ${options.seedUrl}: ${violation}`);
+            return null;
         }
+
+        const job = new CrawlJob(options);
+        this.registerJob(job);
+
+        await this.enqueueInJob(job, options.seedUrl, 0);
+        this.startJob(job);
+
+        return job;
     }
 
-    public isEmpty(): boolean {
-        return this.depth0UrlsToCrawl.length === 0 && this.otherUrlsToCrawl.length === 0;
+    public getJob(id: string): CrawlJob | undefined {
+        return this.jobs.get(id);
     }
 
-    public async markAsCrawled(url: string): Promise<void> {
-        const urlHash = await this.hashString(url);
-        this.crawledHashes.add(urlHash);
+    public async pauseJob(id: string): Promise<boolean> {
+        await this.ready;
+        const job = this.jobs.get(id);
+        return !!job && job.setState('paused');
     }
 
-    public handleFailedCrawl(url: string): void {
-        const urlObj = new URL(url);
-        const domain = urlObj.hostname;
+    public async resumeJob(id: string): Promise<boolean> {
+        await this.ready;
+        const job = this.jobs.get(id);
+        return !!job && this.startJob(job);
+    }
 
-        this.depth0UrlsToCrawl = this.moveFailedDomainToEnd(this.depth0UrlsToCrawl, domain);
-        this.otherUrlsToCrawl = this.moveFailedDomainToEnd(this.otherUrlsToCrawl, domain);
+    /**
+     * Cancels a job for good. The browsing job can only be paused.
+     */
+    public async cancelJob(id: string): Promise<boolean> {
+        await this.ready;
+        const job = this.jobs.get(id);
+        return !!job && id !== BROWSING_JOB_ID && job.setState('cancelled');
     }
 
-    private moveFailedDomainToEnd(queue: string[], domain: string): string[] {
-        return queue.filter(u => {
-            if (new URL(u).hostname === domain) {
-                queue.push(u);
-                return false;
+    public async removeJob(id: string): Promise<boolean> {
+        await this.ready;
+        const job = this.jobs.get(id);
+
+        if (!job || id === BROWSING_JOB_ID) return false;
+
+        job.setState('cancelled');
+        job.removeAllListeners();
+        this.jobs.delete(id);
+
+        clearTimeout(this.saveTimeouts.get(id));
+        this.saveTimeouts.delete(id);
+        await this.jobStore?.remove(id);
+
+        return true;
+    }
+
+    /**
+     * Whether the jobs that crawled a URL were all paused or cancelled, in
+     * which case the page isn't rechecked either.
+     */
+    private async isOnHold(url: string): Promise<boolean> {
+        const urlHash = await this.hashString(url);
+        const jobs = Array.from(this.jobs.values()).filter(job => job.hasVisited(urlHash));
+        return jobs.length > 0 && jobs.every(job => job.state === 'paused' || job.state === 'cancelled');
+    }
+
+    /**
+     * Forgets what the jobs kept of the pages cleared from the crawl store. The
+     * jobs created since `since` are removed, the others forget the URLs of
+     * the pages removed, and the browsing job what it was about to crawl. A
+     * `since` of null clears all time.
+     */
+    public async clearJobs(since: number | null, urls: string[] = []): Promise<void> {
+        await this.ready;
+
+        const urlHashes = since ? await Promise.all(urls.map(url => this.hashString(url))) : undefined;
+
+        for (const job of Array.from(this.jobs.values())) {
+            if (job.id !== BROWSING_JOB_ID && (!since || job.createdAt >= since)) {
+                await this.removeJob(job.id);
+                continue;
             }
-            return true;
-        });
+
+            if (job.id === BROWSING_JOB_ID) {
+                job.clearFrontier();
+            }
+            job.forget(urlHashes);
+            await this.saveJob(job);
+        }
+    }
+
+    private startJob(job: CrawlJob): boolean {
+        if (!job.setState('running')) return false;
+        this.pump(job);
+        return true;
+    }
+
+    /**
+     * Queues a URL for the browsing job. `referrer` is the page the URL was
+     * found on and is used by the same-site rule.
+     */
+    public async enqueue(url: string, depth: number = 1, referrer?: string): Promise<void> {
+        await this.ready;
+        const job = this.jobs.get(BROWSING_JOB_ID);
+        await this.enqueueInJob(job, url, depth, referrer);
+
+        if (job.state === 'queued' || job.state === 'done') {
+            this.startJob(job);
+        }
+    }
+
+    private async enqueueInJob(job: CrawlJob, url: string, depth: number, referrer?: string): Promise<boolean> {
+        if (!this.isCrawlable(url)) return false;
+        if (await this.rules.check(url, referrer)) return false;
+
+        const urlHash = await this.hashString(url);
+        const queued = job.enqueue(url, urlHash, depth);
+
+        if (queued) {
+            this.scheduleSave(job);
+            this.pump(job);
+        }
+
+        return queued;
+    }
+
+    private isCrawlable(url: string): boolean {
+        try {
+            const { protocol } = new URL(url);
+            return protocol === 'https:' || protocol === 'socrathink:';
+        } catch {
+            return false;
+        }
     }
 
-    private sortQueue(): void {
-        this.depth0UrlsToCrawl = this.sortQueueByDomain(this.depth0UrlsToCrawl);
-        this.otherUrlsToCrawl = this.sortQueueByDomain(this.otherUrlsToCrawl);
+    /**
+     * Starts as many crawls as the job's concurrency and page budget allow,
+     * and marks the job as done once nothing is left to do.
+     */
+    private pump(job: CrawlJob): void {
+        if (!this.pool) return;
+
+        while (job.state === 'running' && job.inFlight < job.concurrency && job.hasBudget()) {
+            const entry = job.dequeue();
+            if (!entry) break;
+
+            this.crawl(job, entry).finally(() => {
+                job.finish(entry);
+                this.pump(job);
+            });
+        }
+
+        if (job.state === 'running' && job.inFlight === 0 && (job.isEmpty() || !job.hasBudget())) {
+            job.setState('done');
+        }
     }
 
-    private sortQueueByDomain(queue: string[]): string[] {
-        const domainMap: Map<string, string[]> = new Map();
+    private async crawl(job: CrawlJob, entry: ICrawlFrontierEntry): Promise<void> {
+        const { url, depth } = entry;
+
+        try {
+            // The rules may have changed since the URL was queued.
+            const violation = await this.rules.check(url);
+            if (violation) {
+                console.log(`Skipping ${url}: ${violation}`);
+                return;
+            }
+
+            if (!(await this.politeness.isAllowed(url))) {
+                console.log(`Skipping ${url}: Disallowed by robots.txt`);
+                return;
+            }
+
+            const authInfo: SerializableAuthInfo = await getAuthInfo(url);
+
+            const release = await this.politeness.acquire(url);
+            let result: CrawledData;
+            try {
+                if (job.isCancelled()) return;
+                result = await this.pool.queue(worker => worker.crawlUrl(authInfo, depth));
+            } finally {
+                release();
+            }
+
+            if (job.isCancelled()) return;
 
-        for (const url of queue) {
-            const domain = new URL(url).hostname;
-            if (!domainMap.has(domain)) {
-                domainMap.set(domain, []);
+            const throttled = this.politeness.reportResponse(url, result.status, result.retryAfter);
+            const retries = entry.retries ?? 0;
+
+            if (throttled && retries < MAX_RETRIES) {
+                job.requeue({ ...entry, retries: retries + 1 });
+            } else if (result.completed) {
+                await this.handleCrawlResult(job, { ...result, depth });
+                job.crawledCount++;
+            } else {
+                job.failedCount++;
+                job.handleFailedCrawl(url);
             }
-            domainMap.get(domain)!.push(url);
+        } catch (error) {
+            console.error(`Error processing URL: ${url}`, error);
+            job.failedCount++;
+            job.handleFailedCrawl(url);
         }
 
-        const sortedQueue: string[] = [];
-        const domains = Array.from(domainMap.keys());
+        job.touch();
+        this.scheduleSave(job);
+    }
 
-        while (domains.length > 0) {
-            for (let i = 0; i < domains.length; i++) {
-                const domain = domains[i];
-                const urls = domainMap.get(domain)!;
-                if (urls.length > 0) {
-                    sortedQueue.push(urls.shift()!);
-                } else {
-                    domains.splice(i, 1);
-                    i--;
-                }
+    private async handleCrawlResult(job: CrawlJob, result: CrawledData) {
+        const { url, rawHtml, content, links, article, structuredData, depth, etag, lastModified } = result;
+        if (rawHtml && content && this.crawlStore) {
+            const redactor = Redactor.getInstance();
+            const redactedContent = redactor.redactContent(content);
+            const records = redactor.redactData(structuredData ?? []);
+            await this.crawlStore.add(url, rawHtml, redactedContent, depth, { etag, lastModified }, records, redactor.redactData(article ?? {}));
+        }
+        if (depth < job.maxDepth) {
+            for (const link of links) {
+                await this.enqueueInJob(job, link, depth + 1, url);
             }
         }
+        console.log(`Processed URL: ${url}, extracted ${links.length} links, depth: ${depth}, job: ${job.name}`);
+    }
+
+    private isAllowedContentType(contentType: string): boolean {
+        return Array.from(this.allowedContentTypes).some(allowed => contentType.startsWith(allowed));
+    }
+
+    private emitProgress(job: CrawlJob) {
+        const info = job.toInfo();
+        this.subscribers.forEach(contents => {
+            if (!contents.isDestroyed()) {
+                contents.send('crawl-job-progress', info);
+            }
+        });
+    }
+
+    private scheduleSave(job: CrawlJob) {
+        if (this.saveTimeouts.has(job.id)) return;
 
-        return sortedQueue;
+        this.saveTimeouts.set(job.id, setTimeout(() => {
+            this.saveTimeouts.delete(job.id);
+            this.saveJob(job);
+        }, SAVE_DELAY));
+    }
+
+    private async saveJob(job: CrawlJob) {
+        if (!this.jobs.has(job.id)) return;
+        await this.jobStore?.save(job.toSnapshot());
     }
 
     private async hashString(str: string): Promise<string> {
@@ -200,6 +477,10 @@ export class QueueManager {
     }
 
     public async addInitialUrl(url: string): Promise<void> {
+        // Pages seen before are not queued again, but may need a recheck.
+        if (this.isCrawlable(url)) {
+            await this.recrawl?.onVisit(url);
+        }
         await this.enqueue(url, 0);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,148 @@
+import { ipcMain } from 'electron';
+import { Pool } from 'threads';
+import { CrawlStore, StoredCrawlData } from '~/renderer/views/app/store/crawl-store';
+import { getAuthInfo, isTrustedSender } from './context';
+import { CrawlerWorker } from './worker';
+import { PolitenessManager } from './politeness';
+import { CrawlRulesEngine } from './crawl-rules';
+import { CrawledData } from './queue-manager';
+import { Redactor } from './redactor';
+
+const CHECK_INTERVAL = 5 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+// A page the user opens again is rechecked when it is older than this.
+const VISIT_RECHECK_AGE = 60 * 60 * 1000;
+
+/**
+ * Keeps stored pages fresh. Pages whose recheck time has come are fetched
+ * again with their ETag and Last-Modified validators, so unchanged pages
+ * cost a 304 instead of a full download. CrawlStore decides how often each
+ * page is checked and keeps its revision history.
+ */
+export class RecrawlScheduler {
+    private crawlStore: CrawlStore;
+    private pool: Pool<CrawlerWorker>;
+    private politeness: PolitenessManager;
+    private rules: CrawlRulesEngine;
+    private isOnHold: (url: string) => Promise<boolean>;
+    private timer: NodeJS.Timeout;
+    private checking = false;
+    private pending: Set<string> = new Set();
+
+    public constructor(crawlStore: CrawlStore, pool: Pool<CrawlerWorker>, politeness: PolitenessManager, rules: CrawlRulesEngine, isOnHold: (url: string) => Promise<boolean>) {
+        this.crawlStore = crawlStore;
+        this.pool = pool;
+        this.politeness = politeness;
+        this.rules = rules;
+        this.isOnHold = isOnHold;
+        this.setupIpcHandlers();
+    }
+
+    private setupIpcHandlers() {
+        ipcMain.handle('crawl-changes-get', async (e, url: string, since?: number) => {
+            if (!isTrustedSender(e.sender)) return null;
+
+            return this.crawlStore.getChanges(url, since);
+        });
+
+        ipcMain.handle('crawl-revisions-get', async (e, url: string) => {
+            if (!isTrustedSender(e.sender)) return [];
+
+            return this.crawlStore.getRevisions(url);
+        });
+    }
+
+    public start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.checkDue(), CHECK_INTERVAL);
+        this.checkDue();
+    }
+
+    public stop() {
+        clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Called when the user opens a page, which is then rechecked right away
+     * if the stored copy is getting old.
+     */
+    public async onVisit(url: string): Promise<void> {
+        await this.crawlStore.markVisited(url);
+
+        const entry = await this.crawlStore.get(url);
+        if (entry && Date.now() - (entry.lastCheckedAt ?? entry.timestamp) > VISIT_RECHECK_AGE) {
+            // Not awaited, the recheck may have to wait for the host's delay.
+            this.recheck(entry);
+        }
+    }
+
+    private async checkDue() {
+        if (this.checking) return;
+        this.checking = true;
+
+        try {
+            const entries = await this.crawlStore.getDueForRecheck(BATCH_SIZE);
+            for (const entry of entries) {
+                await this.recheck(entry);
+            }
+        } catch (error) {
+            console.error('Error rechecking crawled pages:', error);
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    private async recheck(entry: StoredCrawlData): Promise<void> {
+        const { url, depth } = entry;
+        if (this.pending.has(url)) return;
+
+        this.pending.add(url);
+
+        try {
+            // Pages that are excluded now are left alone until the rules change,
+            // and those of paused or cancelled jobs until they are resumed.
+            if (await this.isOnHold(url) || await this.rules.check(url) || !(await this.politeness.isAllowed(url))) {
+                await this.crawlStore.markUnchanged(url);
+                return;
+            }
+
+            const authInfo = await getAuthInfo(url);
+            const validators = { etag: entry.etag, lastModified: entry.lastModified };
+
+            const release = await this.politeness.acquire(url);
+            let result: CrawledData;
+            try {
+                result = await this.pool.queue(worker => worker.crawlUrl(authInfo, depth, validators));
+            } finally {
+                release();
+            }
+
+            if (this.politeness.reportResponse(url, result.status, result.retryAfter)) {
+                // Throttled; the page stays due and is picked up again later.
+                return;
+            }
+
+            const redactor = Redactor.getInstance();
+
+            if (result.status === 304) {
+                await this.crawlStore.markUnchanged(url, result);
+            } else if (!result.completed || !(await this.crawlStore.add(
+                url,
+                result.rawHtml,
+                redactor.redactContent(result.content),
+                depth,
+                result,
+                redactor.redactData(result.structuredData ?? []),
+                redactor.redactData(result.article ?? {}),
+            ))) {
+                await this.crawlStore.markUnchanged(url);
+            }
+        } catch (error) {
+            console.error(`Error rechecking URL: ${url}`, error);
+        } finally {
+            this.pending.delete(url);
+        }
+    }
+}
@@ -0,0 +1,135 @@
+import { Application } from '../application';
+import { DEFAULT_SETTINGS } from '~/constants';
+import { IRedactionSettings } from '~/interfaces';
+import {
+    hasPlaceholder,
+    IRedactOptions,
+    redactBody,
+    redactHeaders,
+    redactJson,
+    redactText,
+    redactUrl,
+    SecretVault,
+} from '~/utils/redaction';
+import { ExecutableTool } from '~/renderer/views/app/store/tools';
+
+export interface RedactableRequest {
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+/**
+ * Masks the secrets of captured traffic and crawled pages before they are
+ * stored, so they never reach tool definitions or the sidebar. The masked
+ * values stay in a vault for the lifetime of the app, only to replay the
+ * requests they were captured from.
+ */
+export class Redactor {
+    private static instance: Redactor;
+
+    private vault = new SecretVault();
+
+    private constructor() { }
+
+    public static getInstance(): Redactor {
+        if (!Redactor.instance) {
+            Redactor.instance = new Redactor();
+        }
+        return Redactor.instance;
+    }
+
+    private get settings(): IRedactionSettings {
+        return Application.instance.settings.object.redaction || DEFAULT_SETTINGS.redaction;
+    }
+
+    private get options(): IRedactOptions {
+        return { vault: this.vault, customPatterns: this.settings.customPatterns };
+    }
+
+    public redactRequest<T extends RedactableRequest>(request: T): T {
+        if (!this.settings.enabled) return request;
+
+        const options = { ...this.options, origin: this.getOrigin(request.url) };
+        const contentType = this.getContentType(request.headers);
+
+        return {
+            ...request,
+            url: redactUrl(request.url, options),
+            headers: redactHeaders(request.headers, options),
+            body: redactBody(request.body, contentType, options),
+        };
+    }
+
+    public redactHeaders(headers: Record<string, string>): Record<string, string> {
+        if (!this.settings.enabled) return headers;
+        return redactHeaders(headers, this.options);
+    }
+
+    public redactBody(body: string | undefined, contentType?: string): string | undefined {
+        if (!this.settings.enabled) return body;
+        return redactBody(body, contentType, this.options);
+    }
+
+    public redactUrl(url: string): string {
+        if (!this.settings.enabled) return url;
+        return redactUrl(url, this.options);
+    }
+
+    // Messages of WebSockets and event streams, which are never replayed.
+    public redactMessage(data: string): string {
+        if (!this.settings.enabled) return data;
+        return redactBody(data, undefined, { customPatterns: this.settings.customPatterns });
+    }
+
+    // Text of crawled pages, which is never replayed.
+    public redactContent(content: string): string {
+        if (!this.settings.enabled) return content;
+        return redactText(content, { customPatterns: this.settings.customPatterns });
+    }
+
+    // Structured data of crawled pages, which is never replayed either.
+    public redactData<T>(value: T): T {
+        if (!this.settings.enabled) return value;
+        return redactJson(value, { customPatterns: this.settings.customPatterns });
+    }
+
+    /**
+     * Puts the masked values back into what a tool was captured with, its
+     * address, GraphQL operation and headers, before the caller's parameters
+     * are filled in. Parameters are never revealed, whoever passes them.
+     * Headers whose secret was forgotten, after a restart, are left out so
+     * the session of the browser is used instead.
+     */
+    public revealTool(tool: ExecutableTool): ExecutableTool {
+        const origin = this.getOrigin(tool.baseUrl);
+
+        const requestHeaders: Record<string, string> = {};
+        for (const [key, value] of Object.entries(this.vault.reveal(tool.requestHeaders ?? {}, origin))) {
+            if (!hasPlaceholder(value)) {
+                requestHeaders[key] = value;
+            }
+        }
+
+        return {
+            ...tool,
+            baseUrl: this.vault.reveal(tool.baseUrl, origin),
+            pattern: this.vault.reveal(tool.pattern, origin),
+            graphql: tool.graphql && this.vault.reveal(tool.graphql, origin),
+            requestHeaders,
+        };
+    }
+
+    private getOrigin(url: string): string | undefined {
+        try {
+            return new URL(url).origin;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private getContentType(headers: Record<string, string> = {}): string | undefined {
+        const key = Object.keys(headers).find(key => key.toLowerCase() === 'content-type');
+        return key ? headers[key] : undefined;
+    }
+}
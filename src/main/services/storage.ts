@@ -43,6 +43,9 @@ const encodeTitle = (str: string) => {
     .replace(/"/g, '&quot;');
 };
 
+// Items saved before they got timestamps are only cleared for all time.
+const TIMESTAMPED_SCOPES = ['favicons', 'formfill', 'permissions'];
+
 const indentLength = 4;
 const indentType = ' ';
 
@@ -433,9 +436,33 @@ export class StorageService {
     return new Datastore({
       filename: getPath(`storage/${name}.db`),
       autoload: true,
+      // createdAt, so their items can be cleared by time
+      timestampData: TIMESTAMPED_SCOPES.includes(name),
     });
   };
 
+  /**
+   * Removes the history visited since the given time, or all of it.
+   */
+  public async clearHistory(since?: number) {
+    await this.remove({
+      scope: 'history',
+      query: since ? { date: { $gte: since } } : {},
+      multi: true,
+    });
+    await this.loadHistory();
+  }
+
+  public async clearFavicons(since?: number) {
+    await this.remove({
+      scope: 'favicons',
+      query: since ? { createdAt: { $gte: new Date(since) } } : {},
+      multi: true,
+    });
+    this.favicons.clear();
+    await this.loadFavicons();
+  }
+
   public addFavicon = async (url: string): Promise<string> => {
     try {
       if (!this.favicons.get(url)) {
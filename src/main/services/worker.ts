@@ -2,7 +2,10 @@ import { expose } from 'threads/worker';
 import { URL } from 'url';
 import fetch from 'node-fetch';
 import { SerializableAuthInfo } from './context';
-import { parseMarkdown } from '~/utils/parse';
+import { CrawledData } from './queue-manager';
+import { ICrawlValidators } from '~/interfaces/crawl-revision';
+import { parseArticle, parseMarkdown } from '~/utils/parse';
+import { extractStructuredData } from '~/utils/structured-data';
 import { PDFDocument } from 'pdf-lib';
 
 const TIMEOUT = 10000; // 10 seconds timeout
@@ -38,9 +41,19 @@ async function parsePdf(pdfBuffer: ArrayBuffer): Promise<string> {
 async function simpleFetch(url: string, options = {}): Promise<any> {
     try {
         const response = await fetch(url, options);
+        const { status } = response;
+        const validators = {
+            etag: response.headers.get('etag') ?? undefined,
+            lastModified: response.headers.get('last-modified') ?? undefined,
+        };
+
+        if (status === 304) {
+            return { links: [], content: '', status, ...validators };
+        }
 
         if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
+            console.error(`HTTP error! status: ${status}`);
+            return { links: [], content: '', status, retryAfter: response.headers.get('retry-after') };
         }
 
         const contentType = response.headers.get('content-type');
@@ -49,47 +62,71 @@ async function simpleFetch(url: string, options = {}): Promise<any> {
             console.log("Processing PDF URL");
             const pdfBuffer = await response.arrayBuffer();
             const pdfText = await parsePdf(pdfBuffer);
-            return { links: [], rawHtml: pdfText, content: parseMarkdown(pdfText) };
+            return { links: [], rawHtml: pdfText, content: parseMarkdown(pdfText), status, ...validators };
         } else {
             const content = await response.text();
-            return { links: extractLinks(content, url), rawHtml: content, content: parseMarkdown(content) };
+            const { content: markdown, ...article } = parseArticle(content, url);
+            return {
+                links: extractLinks(content, url),
+                rawHtml: content,
+                content: markdown,
+                article,
+                structuredData: extractStructuredData(content),
+                status,
+                ...validators,
+            };
         }
     } catch (error) {
         console.error('Error in simpleFetch:', error);
         return { links: [], content: '' };
     }
 }
-// Update the crawlUrl function
-const crawlUrl = async (authInfo: SerializableAuthInfo, depth: number) => {
+// Passing the validators of a previous crawl turns the request into a
+// conditional one, answered with a 304 when the page did not change.
+const crawlUrl = async (authInfo: SerializableAuthInfo, depth: number, validators: ICrawlValidators = {}): Promise<CrawledData> => {
     try {
-        const { url, headers } = authInfo;
+        const { url } = authInfo;
+        const headers: Record<string, string> = { ...authInfo.headers };
+
+        if (validators.etag) {
+            headers['If-None-Match'] = validators.etag;
+        }
+        if (validators.lastModified) {
+            headers['If-Modified-Since'] = validators.lastModified;
+        }
 
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), TIMEOUT);
 
-        const { rawHtml, content, links } = await simpleFetch(url, {
+        const { rawHtml, content, links, article, structuredData, status, retryAfter, etag, lastModified } = await simpleFetch(url, {
             method: 'GET',
             headers: headers,
+            signal: controller.signal,
         });
         // console.log({ links })
         clearTimeout(timeoutId);
 
-        if (content && content.trim().length === 0) {
+        if (!content || content.trim().length === 0) {
             // console.log(`No useful content found for URL: ${url}`);
-            return { url, rawHtml: '', content: '', links: [], completed: false };
+            return { url, rawHtml: '', content: '', links: [], completed: false, depth, status, retryAfter, etag, lastModified };
         } else {
             return {
                 url: authInfo.url,
                 rawHtml,
                 content,
                 links: links ?? [],
+                article,
+                structuredData: structuredData ?? [],
                 completed: true,
-                depth
+                depth,
+                status,
+                etag,
+                lastModified,
             };
         }
     } catch (error) {
         console.error(`Crawl error: ${error.message}`);
-        return { url: authInfo.url, rawHtml: '', content: '', links: [], completed: false };
+        return { url: authInfo.url, rawHtml: '', content: '', links: [], completed: false, depth };
     }
 };
 
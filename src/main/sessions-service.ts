@@ -28,6 +28,8 @@ export class SessionsService {
 
   public extensions: Electron.Extension[] = [];
 
+  public downloads: IDownloadItem[] = [];
+
   public constructor() {
     registerProtocol(this.view);
     registerProtocol(this.viewIncognito);
@@ -112,6 +114,7 @@ export class SessionsService {
       receivedBytes: item.getReceivedBytes(),
       totalBytes: item.getTotalBytes(),
       savePath: item.savePath,
+      startedAt: item.getStartTime() * 1000,
       id,
     });
 
@@ -119,10 +122,8 @@ export class SessionsService {
       Application.instance.dialogs.getDynamic('downloads-dialog')?.browserView
         ?.webContents;
 
-    const downloads: IDownloadItem[] = [];
-
     ipcMain.handle('get-downloads', () => {
-      return downloads;
+      return this.downloads;
     });
 
     // TODO(sentialx): clean up the download listeners
@@ -149,7 +150,7 @@ export class SessionsService {
       }
 
       const downloadItem = getDownloadItem(item, id);
-      downloads.push(downloadItem);
+      this.downloads.push(downloadItem);
 
       downloadsDialog()?.send('download-started', downloadItem);
       window.send('download-started', downloadItem);
@@ -227,7 +228,7 @@ export class SessionsService {
       );
 
       const downloadItem = getDownloadItem(item, id);
-      downloads.push(downloadItem);
+      this.downloads.push(downloadItem);
 
       downloadsDialog()?.send('download-started', downloadItem);
       window.send('download-started', downloadItem);
@@ -260,11 +261,6 @@ export class SessionsService {
         }
       });
     });
-
-    ipcMain.on('clear-browsing-data', () => {
-      this.clearCache('normal');
-      this.clearCache('incognito');
-    });
   }
 
   public clearCache(session: 'normal' | 'incognito') {
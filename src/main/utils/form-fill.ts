@@ -1,38 +1,45 @@
-import { IFormFillData } from '~/interfaces';
-import { getFormFillValue, getFormFillSubValue } from '~/utils/form-fill';
+import { FormFieldType, IFormFillData } from '~/interfaces';
+import {
+  getFormFillDataTypes,
+  getFormFillValue,
+  getFormFillSubValue,
+} from '~/utils/form-fill';
 import { Application } from '../application';
 import { URL } from 'url';
 
-const getType = (name: string) => {
-  return name === 'username' || name === 'login' || name === 'password'
-    ? 'password'
-    : 'address';
-};
-
-export const getFormFillMenuItems = async (name: string, value: string) => {
-  const dataType = getType(name);
+export const getFormFillMenuItems = async (
+  type: FormFieldType,
+  value: string,
+) => {
+  const dataTypes = getFormFillDataTypes(type);
   const { url } = Application.instance.windows.current.viewManager.selected;
   const { hostname } = new URL(url);
 
   const items = await Application.instance.storage.find<IFormFillData>({
     scope: 'formfill',
     query: {
-      type: dataType,
+      type: { $in: dataTypes },
     },
   });
 
   return items
     .map((item: IFormFillData) => {
-      const text = getFormFillValue(name, item, true);
-      const subtext = getFormFillSubValue(name, item);
+      const text = getFormFillValue(type, item, true);
+      const subtext = getFormFillSubValue(type, item);
 
-      if (dataType === 'password' && item.url !== hostname) {
+      if (item.type === 'password' && item.url !== hostname) {
         return null;
       }
 
+      // Masked values are offered to empty fields, others as the user types
+      const filtered =
+        item.type === 'password' ? type === 'username' : type !== 'cc-number';
+
       if (
         text &&
-        (name !== 'password' ? text.startsWith(value) : !value.length)
+        (filtered
+          ? text.toLowerCase().startsWith(value.toLowerCase())
+          : !value.length)
       ) {
         return {
           _id: item._id,
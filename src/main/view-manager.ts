@@ -14,7 +14,6 @@ import { EventEmitter } from 'events';
 import { Application } from './application';
 import { QueueManager } from './services/queue-manager';
 import { CrawlStore } from '~/renderer/views/app/store/crawl-store';
-import { NetworkStore } from '~/renderer/views/app/store/network-store';
 
 
 const workerPath = app.isPackaged
@@ -35,8 +34,6 @@ export class ViewManager extends EventEmitter {
 
   private crawlStore: CrawlStore;
 
-  private networkStore: NetworkStore;
-
   private readonly window: AppWindow;
 
   public get fullscreen() {
@@ -54,14 +51,19 @@ export class ViewManager extends EventEmitter {
     this.window = window;
     this.incognito = incognito;
 
-    CrawlStore.getInstance().then(store => {
-      this.crawlStore = store;
+    // Nothing private windows load is crawled, they don't need workers.
+    if (!incognito) {
+      CrawlStore.getInstance().then(store => {
+        this.crawlStore = store;
+
+        this.pool = Pool(() => spawn<CrawlerWorker>(new Worker(workerPath)), {
+          size: 2,
+          concurrency: 2
+        });
 
-      this.pool = Pool(() => spawn<CrawlerWorker>(new Worker(workerPath)), {
-        size: 2,
-        concurrency: 2
+        this.queueManager = QueueManager.getInstance(store, this.pool);
       });
-    });
+    }
 
     const { id } = window.win;
     ipcMain.handle(`view-create-${id}`, (e, details) => {
@@ -157,11 +159,7 @@ export class ViewManager extends EventEmitter {
     hidden = false,
     scrollToText?: string
   ) {
-    NetworkStore.getInstance().then((store) => {
-      this.networkStore = store
-    });
-
-    const view = new View(this.window, details.url, this.incognito, this.crawlStore, this.networkStore, this.pool);
+    const view = new View(this.window, details.url, this.incognito, this.crawlStore, this.pool);
 
     // Adjust the initial bounds of the BrowserView
     const { width, height } = this.window.win.getContentBounds();
@@ -22,8 +22,9 @@ import { LinkProcessor } from './services/crawler';
 import { QueueManager } from './services/queue-manager';
 import { DevToolsCrawler } from './services/devtools-crawler';
 import { CrawlStore } from '~/renderer/views/app/store/crawl-store';
+import { resolveCapturePolicy } from './services/capture-policy';
+import { ICapturePolicy } from '~/interfaces';
 import { ModuleThread, Pool } from 'threads';
-import { NetworkStore } from '~/renderer/views/app/store/network-store';
 
 interface IAuthInfo {
   url: string;
@@ -45,7 +46,6 @@ export class View {
   private queueManager: QueueManager;
   private devToolsCrawler: DevToolsCrawler;
   private crawlStore: CrawlStore;
-  private networkStore: NetworkStore;
   private pool: Pool<ModuleThread>;
   private readonly window: AppWindow;
 
@@ -75,7 +75,7 @@ export class View {
 
   private lastUrl = '';
 
-  public constructor(window: AppWindow, url: string, incognito: boolean, crawlStore: CrawlStore, networkStore: NetworkStore, pool: Pool<ModuleThread>) {
+  public constructor(window: AppWindow, url: string, incognito: boolean, crawlStore: CrawlStore, pool: Pool<ModuleThread>) {
     this.browserView = new BrowserView({
       webPreferences: {
         preload: `${app.getAppPath()}/build/view-preload.bundle.js`,
@@ -88,7 +88,6 @@ export class View {
         javascript: true,
       },
     });
-    this.networkStore = networkStore;
 
     this.browserView.setBackgroundColor('#FFFFFFFF');
     this.pool = pool
@@ -105,7 +104,12 @@ export class View {
     this.window = window;
     this.homeUrl = url;
     this.crawlStore = crawlStore;
-    this.linkProcessor = new LinkProcessor(this.pool, this.crawlStore);
+
+    // Private views get no crawler, their windows have no store or pool.
+    if (!incognito) {
+      this.linkProcessor = new LinkProcessor(this.pool, this.crawlStore);
+      this.queueManager = QueueManager.getInstance(this.crawlStore, this.pool);
+    }
 
     this.webContents.session.webRequest.onBeforeSendHeaders(
       (details, callback) => {
@@ -154,9 +158,13 @@ export class View {
 
     });
 
-    NetworkStore.getInstance().then(networkStore => {
-      this.devToolsCrawler = new DevToolsCrawler(networkStore, this.webContents, this.queueManager)
-    })
+    if (!incognito) {
+      this.devToolsCrawler = new DevToolsCrawler(
+        this.webContents,
+        this.queueManager,
+        () => this.capturePolicy,
+      );
+    }
 
     this.webContents.addListener(
       'did-navigate-in-page',
@@ -186,6 +194,8 @@ export class View {
     });
 
     this.webContents.addListener('did-finish-load', () => {
+      if (!this.capturePolicy.crawl) return;
+
       const url = this.webContents.getURL();
       this.linkProcessor.addInitialUrl(url);
     });
@@ -371,6 +381,10 @@ export class View {
     return this.id === this.window.viewManager.selectedId;
   }
 
+  public get capturePolicy(): ICapturePolicy {
+    return resolveCapturePolicy(this.incognito);
+  }
+
   public updateNavigationState() {
     if (this.browserView.webContents.isDestroyed()) return;
 
@@ -385,7 +399,7 @@ export class View {
   public destroy() {
     (this.browserView.webContents as any).destroy();
     this.browserView = null;
-    this.linkProcessor.terminate();
+    this.linkProcessor?.terminate();
 
   }
 
@@ -1,5 +0,0 @@
-export const formFieldFilters = {
-  type: /text|email|password/i,
-  name: /login|username|email|password|name|fname|mname|lname|phone|mobile|address|city|country/i,
-  menu: /login|username|email|password|name|mname|lname|phone|mobile|address/i,
-};
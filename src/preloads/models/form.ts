@@ -1,13 +1,54 @@
 import { ipcRenderer } from 'electron';
 
-import { formFieldFilters } from '../constants';
-import { isVisible, searchElements } from '../utils';
+import { describeField, isVisible, searchElements } from '../utils';
 import { getFormFillValue } from '~/utils/form-fill';
-import { IFormFillData } from '~/interfaces';
+import { classifyForm } from '~/utils/form-field-classifier';
+import { IFormFieldClassification, IFormFillData } from '~/interfaces';
 import AutoComplete from './auto-complete';
 import { windowId } from '../view-preload';
 
-export type FormField = HTMLInputElement | HTMLSelectElement;
+export type FormField =
+  | HTMLInputElement
+  | HTMLSelectElement
+  | HTMLTextAreaElement;
+
+interface IClassifiedField extends IFormFieldClassification {
+  el: FormField;
+}
+
+const PASSWORD_TYPES = ['current-password', 'new-password'];
+
+// Options are matched on their value or text, and numbers on their value,
+// so a month of "3" picks "03" or "March (03)".
+const findOption = (select: HTMLSelectElement, value: string) => {
+  const wanted = value.trim().toLowerCase();
+  const options = Array.from(select.options);
+
+  return (
+    options.find(
+      (o) =>
+        o.value.toLowerCase() === wanted ||
+        o.text.trim().toLowerCase() === wanted,
+    ) ||
+    options.find(
+      (o) =>
+        /^\d+$/.test(wanted) &&
+        /\d/.test(o.value) &&
+        Number(o.value.replace(/\D/g, '')) === Number(wanted),
+    ) ||
+    options.find((o) => wanted && o.text.trim().toLowerCase().startsWith(wanted))
+  );
+};
+
+const setFieldValue = (field: FormField, value: string) => {
+  if (field instanceof HTMLSelectElement) {
+    const option = value ? findOption(field, value) : null;
+    if (option) field.value = option.value;
+    else if (!value) field.selectedIndex = 0;
+  } else {
+    field.value = value;
+  }
+};
 
 export class Form {
   public data: IFormFillData;
@@ -18,69 +59,88 @@ export class Form {
 
   public ref: HTMLFormElement;
 
+  // The field the menu was opened for, its section is the one filled.
+  public activeField: FormField;
+
   public constructor(ref: HTMLFormElement) {
     this.ref = ref;
     this.load();
   }
 
   public load() {
-    for (const field of this.fields) {
-      const { menu } = formFieldFilters;
-      const isNameValid = menu.test(field.getAttribute('name'));
-
-      if (field instanceof HTMLInputElement && isNameValid) {
-        field.addEventListener('focus', this.onFieldFocus);
-        field.addEventListener('input', this.onFieldInput);
+    for (const { el, type } of this.fields) {
+      if (el instanceof HTMLInputElement && type !== 'cc-csc') {
+        el.addEventListener('focus', this.onFieldFocus);
+        el.addEventListener('input', this.onFieldInput);
       }
     }
 
     this.ref.addEventListener('submit', this.onFormSubmit);
   }
 
-  public get fields() {
+  /**
+   * The visible fields of the form the classifier recognized, classified
+   * again each time as pages add and remove fields.
+   */
+  public get fields(): IClassifiedField[] {
     const id = this.ref.getAttribute('id');
-    const inside = searchElements(this.ref, 'input, select') as FormField[];
-    const outside = searchElements(
-      document,
-      `input[form=${id}], select[form=${id}]`,
-    ) as FormField[];
-
-    return [...inside, ...outside].filter((el) => this.validateField(el));
+    const query = 'input, select, textarea';
+    const inside = searchElements(this.ref, query) as FormField[];
+    const outside = id
+      ? (searchElements(
+          document,
+          `input[form="${id}"], select[form="${id}"], textarea[form="${id}"]`,
+        ) as FormField[])
+      : [];
+
+    const elements = [...inside, ...outside].filter((el) => isVisible(el));
+    const classes = classifyForm(elements.map(describeField));
+
+    return elements
+      .map((el, i) => {
+        const classified = classes[i];
+        return classified && { el, ...classified };
+      })
+      .filter((r) => r);
   }
 
-  public validateField(field: FormField) {
-    const { name, type } = formFieldFilters;
-    const isNameValid = name.test(field.getAttribute('name'));
-    const isTypeValid =
-      type.test(field.getAttribute('type')) ||
-      field instanceof HTMLSelectElement;
-
-    return isVisible(field) && isNameValid && isTypeValid;
+  public getField(el: FormField) {
+    return this.fields.find((r) => r.el === el);
   }
 
   public insertData(data: IFormFillData, persistent = false) {
-    for (const field of this.fields) {
-      const autoComplete = this.ref.getAttribute('autocomplete');
-
-      if (autoComplete !== 'off') {
-        const changed = this.changedFields.indexOf(field) !== -1;
-        const temp = this.tempFields.indexOf(field) !== -1;
-        const value = data
-          ? getFormFillValue(field.getAttribute('name'), data)
-          : '';
-
-        if (!field.value.length || !changed) {
-          field.value = value || '';
-
-          if (!temp) {
-            this.tempFields.push(field);
-          }
-        }
+    const autoComplete = this.ref.getAttribute('autocomplete');
+    if (autoComplete === 'off') return;
+
+    const fields = this.fields;
+    const active = fields.find((r) => r.el === this.activeField);
+
+    for (const { el, type, section } of fields) {
+      // A form asking for both a shipping and a billing address
+      if (active && section !== active.section) continue;
 
-        if (value && persistent && !changed) {
-          this.changedFields.push(field);
+      const changed = this.changedFields.indexOf(el) !== -1;
+      const temp = this.tempFields.indexOf(el) !== -1;
+      const value = data ? getFormFillValue(type, data) : '';
+
+      // Fields the item has nothing for are left as they are
+      if (value == null && !temp) continue;
+
+      if (!el.value.length || !changed) {
+        setFieldValue(el, value || '');
+
+        if (!temp) {
+          this.tempFields.push(el);
         }
       }
+
+      if (value && persistent && !changed) {
+        this.changedFields.push(el);
+
+        // Lets the page's scripts see the filled value
+        el.dispatchEvent(new Event('input', { bubbles: true }));
+        el.dispatchEvent(new Event('change', { bubbles: true }));
+      }
     }
 
     if (!data && !persistent) {
@@ -91,7 +151,7 @@ export class Form {
   private clearTemp() {
     for (const field of this.tempFields) {
       if (this.changedFields.indexOf(field) === -1) {
-        field.value = '';
+        setFieldValue(field, '');
       }
     }
 
@@ -99,23 +159,25 @@ export class Form {
   }
 
   public get usernameField() {
-    return this.fields.find((r) => {
-      const name = r.getAttribute('name');
-      return name === 'username' || name === 'login' || 'email';
-    });
+    const field = this.fields.find(
+      (r) => r.type === 'username' || r.type === 'email',
+    );
+    return field?.el;
   }
 
   public get passwordField() {
-    return this.fields.find((r) => {
-      const typeAttr = r.getAttribute('type');
-      const name = r.getAttribute('name');
-      return typeAttr === 'password' && name === 'password';
-    });
+    const fields = this.fields.filter((r) => PASSWORD_TYPES.includes(r.type));
+    // The new one, when changing a password
+    const field = fields.find((r) => r.type === 'new-password') || fields[0];
+    return field?.el;
   }
 
   public onFormSubmit = () => {
-    const username = this.usernameField.value;
-    const password = this.passwordField.value;
+    const { usernameField, passwordField } = this;
+    if (!usernameField || !passwordField) return;
+
+    const username = usernameField.value;
+    const password = passwordField.value;
 
     const sameUsername = this.data && username === this.data.fields.username;
     const samePassword = this.data && password === this.data.fields.password;
@@ -131,8 +193,12 @@ export class Form {
 
   public onFieldFocus = (e: FocusEvent) => {
     const field = e.target as HTMLInputElement;
+    const classified = this.getField(field);
+    if (!classified) return;
+
     const rects = field.getBoundingClientRect();
 
+    this.activeField = field;
     AutoComplete.currentForm = this;
     AutoComplete.visible = true;
 
@@ -144,7 +210,7 @@ export class Form {
         x: Math.floor(rects.left),
         y: Math.floor(rects.top),
       },
-      field.getAttribute('name'),
+      classified.type,
       field.value,
     );
   };
@@ -1,9 +1,15 @@
 import { ipcRenderer } from 'electron';
 import { contextBridge } from 'electron';
+import { ICrawlJobInfo, ICrawlJobOptions, IEntityFilters, IFetchContextOptions, INetworkStreamMessage, ISearchContextFilters } from '~/interfaces';
 declare global {
   interface Window {
     authedFetch: (url: string, options?: any) => Promise<any>;
-    fetchContext: (url: string) => Promise<any>;
+    fetchContext: (query?: string, options?: IFetchContextOptions) => Promise<any>;
+    getDocument: (url: string) => Promise<any>;
+    getEntities: (filters?: IEntityFilters) => Promise<any>;
+    searchContext: (query: string, topK?: number, filters?: ISearchContextFilters) => Promise<any>;
+    searchTools: (query: string, topK?: number) => Promise<any>;
+    executeTool: (name: string, params?: Record<string, any>) => Promise<any>;
     loadURL: (url: string) => Promise<any>;
   }
 }
@@ -12,8 +18,8 @@ window.authedFetch = async (url: string, options = {}) => {
   return ipcRenderer.invoke('authed-fetch', { url, options });
 };
 
-window.fetchContext = async (url: string) => {
-  return ipcRenderer.invoke('fetch-context', url);
+window.fetchContext = async (query: string = '', options: IFetchContextOptions = {}) => {
+  return ipcRenderer.invoke('fetch-context', query, options);
 };
 
 window.loadURL = async (url: string, text?: string) => {
@@ -24,10 +30,68 @@ contextBridge.exposeInMainWorld('authedFetch', async (url: string, options = {})
   return ipcRenderer.invoke('authed-fetch', url, options);
 });
 
-contextBridge.exposeInMainWorld('fetchContext', async (url: string) => {
-  return ipcRenderer.invoke('fetch-context', url);
+contextBridge.exposeInMainWorld('fetchContext', async (query: string = '', options: IFetchContextOptions = {}) => {
+  return ipcRenderer.invoke('fetch-context', query, options);
+});
+
+contextBridge.exposeInMainWorld('getDocument', async (url: string) => {
+  return ipcRenderer.invoke('get-document', url);
+});
+
+contextBridge.exposeInMainWorld('getEntities', async (filters: IEntityFilters = {}) => {
+  return ipcRenderer.invoke('get-entities', filters);
+});
+
+contextBridge.exposeInMainWorld('searchContext', async (query: string, topK: number = 10, filters: ISearchContextFilters = {}) => {
+  return ipcRenderer.invoke('search-context', query, topK, filters);
+});
+
+contextBridge.exposeInMainWorld('searchTools', async (query: string, topK: number = 10) => {
+  return ipcRenderer.invoke('search-tools', query, topK);
+});
+
+contextBridge.exposeInMainWorld('executeTool', async (name: string, params: Record<string, any> = {}) => {
+  return ipcRenderer.invoke('execute-tool', name, params);
 });
 
 contextBridge.exposeInMainWorld('loadURL', async (url: string, text?: string) => {
   return ipcRenderer.invoke('open-url', url, text);
-});
\ No newline at end of file
+});
+
+const streamListeners = new Map<string, (e: Electron.IpcRendererEvent, data: any) => void>();
+contextBridge.exposeInMainWorld('streamTools', {
+  subscribe: (name: string, callback: (data: { name: string; url: string; message: INetworkStreamMessage }) => void) => {
+    if (!streamListeners.has(name)) {
+      const listener = (e: Electron.IpcRendererEvent, data: any) => {
+        if (data.name === name) callback(data);
+      };
+      streamListeners.set(name, listener);
+      ipcRenderer.on('stream-tool-message', listener);
+    }
+    return ipcRenderer.invoke('subscribe-stream-tool', name);
+  },
+  unsubscribe: (name: string) => {
+    const listener = streamListeners.get(name);
+    if (listener) {
+      ipcRenderer.removeListener('stream-tool-message', listener);
+      streamListeners.delete(name);
+    }
+    return ipcRenderer.invoke('unsubscribe-stream-tool', name);
+  },
+});
+contextBridge.exposeInMainWorld('crawlJobs', {
+  list: () => ipcRenderer.invoke('crawl-jobs-get'),
+  create: (options: ICrawlJobOptions) => ipcRenderer.invoke('crawl-job-create', options),
+  pause: (id: string) => ipcRenderer.invoke('crawl-job-pause', id),
+  resume: (id: string) => ipcRenderer.invoke('crawl-job-resume', id),
+  cancel: (id: string) => ipcRenderer.invoke('crawl-job-cancel', id),
+  remove: (id: string) => ipcRenderer.invoke('crawl-job-remove', id),
+  onProgress: (callback: (job: ICrawlJobInfo) => void) => {
+    ipcRenderer.on('crawl-job-progress', (e, job: ICrawlJobInfo) => callback(job));
+    ipcRenderer.invoke('crawl-jobs-subscribe');
+  },
+});
+contextBridge.exposeInMainWorld('crawlChanges', {
+  get: (url: string, since?: number) => ipcRenderer.invoke('crawl-changes-get', url, since),
+  revisions: (url: string) => ipcRenderer.invoke('crawl-revisions-get', url),
+});
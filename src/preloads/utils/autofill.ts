@@ -1,34 +1,60 @@
-import { IFormFillData } from '~/interfaces';
+import { IFormFillData, IPasswordVaultStatus } from '~/interfaces';
 import { makeId } from '~/utils/string';
 
-const passwords: Map<string, string> = new Map();
-
-export const getUserPassword = (data: IFormFillData): Promise<string> => {
+const request = <T>(message: any): Promise<T> => {
   return new Promise((resolve) => {
-    const { url, fields } = data;
-    const account = `${url}-${fields.username}`;
-    const password = passwords.get(account);
-
-    if (password) return resolve(password);
-
     const id = makeId(32);
 
-    window.postMessage(
-      {
-        type: 'credentials-get-password',
-        data: account,
-        id,
-      },
-      '*',
-    );
+    window.postMessage({ ...message, id }, '*');
 
     window.addEventListener('message', (e) => {
       const { data } = e;
 
       if (data.type === 'result' && data.id === id) {
-        passwords.set(account, data.result);
         resolve(data.result);
       }
     });
   });
 };
+
+// Resolves to null while the password vault is locked.
+export const getUserPassword = (data: IFormFillData): Promise<string> => {
+  return request({
+    type: 'credentials-get-password',
+    data: data._id,
+  });
+};
+
+export interface IPasswordVaultResponse {
+  ok: boolean;
+  status: number;
+  data: IPasswordVaultStatus | string;
+}
+
+export const getPasswordVaultStatus = (): Promise<IPasswordVaultStatus> => {
+  return request({ type: 'password-vault', operation: 'status', data: [] });
+};
+
+export const lockPasswordVault = (): Promise<IPasswordVaultStatus> => {
+  return request({ type: 'password-vault', operation: 'lock', data: [] });
+};
+
+export const setupPasswordVault = (
+  masterPassword: string,
+): Promise<IPasswordVaultResponse> => {
+  return request({
+    type: 'password-vault',
+    operation: 'setup',
+    data: [masterPassword],
+  });
+};
+
+export const unlockPasswordVault = (
+  masterPassword: string,
+): Promise<IPasswordVaultResponse> => {
+  return request({
+    type: 'password-vault',
+    operation: 'unlock',
+    data: [masterPassword],
+  });
+};
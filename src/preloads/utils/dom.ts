@@ -1,3 +1,5 @@
+import { IFormFieldDescriptor } from '~/interfaces';
+
 export const isVisible = (el: HTMLElement) => {
   return el.offsetHeight !== 0;
 };
@@ -8,3 +10,29 @@ export const searchElements = <T>(
 ) => {
   return (Array.from(el.querySelectorAll(query)) as unknown) as T[];
 };
+
+const getText = (elements: Element[]) =>
+  elements
+    .map((el) => el.textContent.trim())
+    .filter((text) => text)
+    .join(' ');
+
+export const describeField = (
+  field: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement,
+): IFormFieldDescriptor => {
+  const labelledBy = (field.getAttribute('aria-labelledby') || '')
+    .split(/\s+/)
+    .map((id) => id && document.getElementById(id))
+    .filter((el) => el);
+
+  return {
+    tagName: field.tagName,
+    type: field.getAttribute('type'),
+    name: field.getAttribute('name'),
+    id: field.id,
+    autocomplete: field.getAttribute('autocomplete'),
+    label: getText(Array.from(field.labels || [])),
+    placeholder: field.getAttribute('placeholder'),
+    ariaLabel: field.getAttribute('aria-label') || getText(labelledBy),
+  };
+};
@@ -5,6 +5,15 @@ import { getTheme } from '~/utils/themes';
 import { ERROR_PROTOCOL, WEBUI_BASE_URL } from '~/constants/files';
 import { injectChromeWebstoreInstallButton } from './chrome-webstore';
 import { contextBridge } from 'electron';
+import {
+  ICrawlChanges,
+  ICrawlJobInfo,
+  ICrawlJobOptions,
+  ICrawlRevision,
+  IHar,
+  IHarExportOptions,
+  INetworkRequestSummary,
+} from '~/interfaces';
 const tabId = ipcRenderer.sendSync('get-webcontents-id');
 
 export const windowId: number = ipcRenderer.sendSync('get-window-id');
@@ -12,13 +21,29 @@ export const windowId: number = ipcRenderer.sendSync('get-window-id');
 declare global {
   interface Window {
     authedFetch: (url: string, options?: any) => Promise<any>;
-    fetchContext: (url: string) => Promise<any>;
     searchTools: (query: string, topK?: number) => Promise<any>;
     generateJsonSchema: (baseUrl: string, path: string) => Promise<any>;
+    executeTool: (name: string, params?: Record<string, any>) => Promise<any>;
+    exportOpenApi: (origin: string) => Promise<any>;
+    exportHar: (options?: IHarExportOptions) => Promise<any>;
+    importHar: (har: IHar | string) => Promise<any>;
     embed: {
       run: (text: string) => Promise<any>;
     };
     getTools: () => Promise<any>; // Exposed getTools
+    crawlJobs: {
+      list: () => Promise<ICrawlJobInfo[]>;
+      create: (options: ICrawlJobOptions) => Promise<ICrawlJobInfo | null>;
+      pause: (id: string) => Promise<boolean>;
+      resume: (id: string) => Promise<boolean>;
+      cancel: (id: string) => Promise<boolean>;
+      remove: (id: string) => Promise<boolean>;
+      onProgress: (callback: (job: ICrawlJobInfo) => void) => void;
+    };
+    crawlChanges: {
+      get: (url: string, since?: number) => Promise<ICrawlChanges | null>;
+      revisions: (url: string) => Promise<ICrawlRevision[]>;
+    };
     process: typeof process;
     settings: any;
     require: (id: string) => any;
@@ -35,9 +60,6 @@ contextBridge.exposeInMainWorld('authedFetch', async (url: string, options = {})
   return ipcRenderer.invoke('authed-fetch', url, options);
 });
 
-contextBridge.exposeInMainWorld('fetchContext', async (url: string) => {
-  return ipcRenderer.invoke('fetch-context', url);
-});
 contextBridge.exposeInMainWorld('searchTools', async (query: string, topK: number = 10) => {
   return ipcRenderer.invoke('search-tools', query, topK);
 });
@@ -176,6 +198,25 @@ if (
       }
       return undefined;
     });
+    contextBridge.exposeInMainWorld('executeTool', async (name: string, params: Record<string, any> = {}) => {
+      return ipcRenderer.invoke('execute-tool', name, params);
+    });
+    contextBridge.exposeInMainWorld('crawlJobs', {
+      list: () => ipcRenderer.invoke('crawl-jobs-get'),
+      create: (options: ICrawlJobOptions) => ipcRenderer.invoke('crawl-job-create', options),
+      pause: (id: string) => ipcRenderer.invoke('crawl-job-pause', id),
+      resume: (id: string) => ipcRenderer.invoke('crawl-job-resume', id),
+      cancel: (id: string) => ipcRenderer.invoke('crawl-job-cancel', id),
+      remove: (id: string) => ipcRenderer.invoke('crawl-job-remove', id),
+      onProgress: (callback: (job: ICrawlJobInfo) => void) => {
+        ipcRenderer.on('crawl-job-progress', (e, job: ICrawlJobInfo) => callback(job));
+        ipcRenderer.invoke('crawl-jobs-subscribe');
+      },
+    });
+    contextBridge.exposeInMainWorld('crawlChanges', {
+      get: (url: string, since?: number) => ipcRenderer.invoke('crawl-changes-get', url, since),
+      revisions: (url: string) => ipcRenderer.invoke('crawl-revisions-get', url),
+    });
     if (window.location.pathname.startsWith('//network-error')) {
       contextBridge.exposeInMainWorld('theme', getTheme(settings.theme));
       contextBridge.exposeInMainWorld(
@@ -189,6 +230,39 @@ if (
       contextBridge.exposeInMainWorld('removeHistory', (ids: string[]) => {
         ipcRenderer.send(`history-remove`, ids);
       });
+    } else if (hostname.startsWith('network')) {
+      contextBridge.exposeInMainWorld('exportOpenApi', async (origin: string) => {
+        return ipcRenderer.invoke('export-openapi', origin);
+      });
+      contextBridge.exposeInMainWorld('exportHar', async (options: IHarExportOptions = {}) => {
+        return ipcRenderer.invoke('export-har', options);
+      });
+      contextBridge.exposeInMainWorld('importHar', async (har: IHar | string) => {
+        return ipcRenderer.invoke('import-har', har);
+      });
+      contextBridge.exposeInMainWorld('networkInspector', {
+        list: (limit?: number) =>
+          ipcRenderer.invoke('network-inspector-list', limit),
+        get: (requestId: string) =>
+          ipcRenderer.invoke('network-inspector-get', requestId),
+        clear: () => ipcRenderer.invoke('clear-network-logs'),
+        exportHar: (options: IHarExportOptions) =>
+          ipcRenderer.invoke('export-har', options),
+        onUpdate: (callback: (request: INetworkRequestSummary) => void) => {
+          ipcRenderer.on('network-inspector-update', (e, request) =>
+            callback(request),
+          );
+          ipcRenderer.send('network-inspector-subscribe');
+        },
+        onRemove: (callback: (requestIds: string[]) => void) => {
+          ipcRenderer.on('network-inspector-remove', (e, requestIds) =>
+            callback(requestIds),
+          );
+        },
+        onClear: (callback: () => void) => {
+          ipcRenderer.on('network-inspector-clear', () => callback());
+        },
+      });
     } else if (hostname.startsWith('newtab')) {
       contextBridge.exposeInMainWorld('getTopSites', async (count: number) => {
         return await ipcRenderer.invoke(`topsites-get`, count);
@@ -218,6 +292,7 @@ if (window.location.href.startsWith(WEBUI_BASE_URL)) {
     else if (hostname.startsWith('bookmarks')) document.title = 'Bookmarks';
     else if (hostname.startsWith('extensions')) document.title = 'Extensions';
     else if (hostname.startsWith('newtab')) document.title = 'New Tab';
+    else if (hostname.startsWith('network')) document.title = 'Network';
   });
 
   window.addEventListener('message', async ({ data }) => {
@@ -234,6 +309,12 @@ if (window.location.href.startsWith(WEBUI_BASE_URL)) {
         data.data,
       );
       postMsg(data, res);
+    } else if (data.type === 'password-vault') {
+      const res = await ipcRenderer.invoke(
+        `password-vault-${data.operation}`,
+        ...data.data,
+      );
+      postMsg(data, res);
     } else if (data.type === 'save-settings') {
       ipcRenderer.send('save-settings', { settings: data.data });
     } else if (data.type === 'get-tools') { // Handle get-tools message if needed
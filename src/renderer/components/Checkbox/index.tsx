@@ -7,6 +7,7 @@ import { Container, StyledCheckbox, Icon } from './styles';
 
 interface Props {
   children?: any;
+  disabled?: boolean;
 }
 
 interface State {
@@ -19,6 +20,7 @@ export default class Checkbox extends React.PureComponent<Props, State> {
   };
 
   private onClick = () => {
+    if (this.props.disabled) return;
     this.value = !this.value;
   };
 
@@ -32,10 +34,10 @@ export default class Checkbox extends React.PureComponent<Props, State> {
   }
 
   render() {
-    const { children } = this.props;
+    const { children, disabled } = this.props;
     const { toggled } = this.state;
     return (
-      <Container>
+      <Container disabled={disabled}>
         <StyledCheckbox
           className="checkbox"
           toggled={toggled}
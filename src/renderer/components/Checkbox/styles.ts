@@ -11,6 +11,13 @@ export const Container = styled.div`
   justify-content: flex-start;
   cursor: pointer;
 
+  ${({ disabled }: { disabled?: boolean }) =>
+    disabled &&
+    css`
+      opacity: 0.38;
+      pointer-events: none;
+    `}
+
   &:hover .checkbox::before {
     width: 40px;
     height: 40px;
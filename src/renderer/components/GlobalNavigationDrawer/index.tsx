@@ -7,6 +7,7 @@ import {
   ICON_BOOKMARKS,
   ICON_EXTENSIONS,
   ICON_DOWNLOAD,
+  ICON_NETWORK,
 } from '~/renderer/constants/icons';
 import { getWebUIURL } from '~/common/webui';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
@@ -47,6 +48,9 @@ export const GlobalNavigationDrawer = () => {
       <MenuItem name="bookmarks" global>
         <FontAwesomeIcon icon={ICON_BOOKMARKS} fixedWidth />
       </MenuItem>
+      <MenuItem name="network" global>
+        <FontAwesomeIcon icon={ICON_NETWORK} fixedWidth />
+      </MenuItem>
       {/* <MenuItem name="downloads" icon={ICON_DOWNLOAD}>
         Downloads
       </MenuItem>
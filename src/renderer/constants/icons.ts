@@ -17,7 +17,9 @@ import {
   faCloudRain,
   faCloudShowersHeavy,
   faCloudSun,
+  faCode,
   faCog,
+  faCreditCard,
   faEllipsisV,
   faEye,
   faEyeSlash,
@@ -30,12 +32,14 @@ import {
   faFolderPlus,
   faGaugeSimple,
   faHistory,
+  faImage,
   faKey,
   faLocationArrow,
   faMagnifyingGlassMinus,
   faMagnifyingGlassPlus,
   faMoon,
   faMusic,
+  faNetworkWired,
   faPalette,
   faPencilAlt,
   faPerson,
@@ -96,6 +100,7 @@ export const ICON_SAVE = faFloppyDisk;
 export const ICON_KEY = faKey;
 export const ICON_INCOGNITO = faUserSecret;
 export const ICON_LOCATION = faLocationArrow;
+export const ICON_CARD = faCreditCard;
 export const ICON_AUTOFILL = faFill;
 export const ICON_PALETTE = faPalette;
 export const ICON_POWER = faPowerOff;
@@ -117,6 +122,9 @@ export const ICON_VOLUME_HIGH = faVolumeHigh;
 export const ICON_VOLUME_OFF = faVolumeOff;
 export const ICON_PERSON = faPerson;
 export const ICON_FULLSCREEN_EXIT = faCircleXmark;
+export const ICON_NETWORK = faNetworkWired;
+export const ICON_CODE = faCode;
+export const ICON_IMAGE = faImage;
 
 export const ICON_WEATHER_DAY_CLEAR = faSun;
 export const ICON_WEATHER_DAY_FEW_CLOUDS = faCloudSun;
@@ -2,6 +2,7 @@ import * as React from 'react';
 import { observer } from 'mobx-react-lite';
 import { SidebarContainer } from './style';
 import { app } from '@electron/remote';
+import { SIDEBAR_URL } from '~/constants/files';
 
 export const Sidebar = observer(() => {
     const webviewRef = React.useRef<Electron.WebviewTag>(null);
@@ -36,7 +37,7 @@ export const Sidebar = observer(() => {
         <SidebarContainer>
             <webview
                 ref={webviewRef}
-                src="https://app.socrathink.com/"
+                src={SIDEBAR_URL}
                 // src="http://localhost:3000"
                 style={{ width: '100%', height: '100%' }}
                 preload={`file://${app.getAppPath()}/build/sidebar-preload.bundle.js`}
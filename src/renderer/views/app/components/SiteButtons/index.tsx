@@ -7,11 +7,18 @@ import {
   ICON_MAGNIFY_PLUS,
   ICON_MAGNIFY_MINUS,
   ICON_SHIELD,
+  ICON_VISIBLE,
+  ICON_INVISIBLE,
 } from '~/renderer/constants/icons';
 import { ipcRenderer } from 'electron';
 import store from '../../store';
 import { ToolbarButton } from '../ToolbarButton';
 import * as remote from '@electron/remote';
+import {
+  getCrawlRuleViolation,
+  getSiteRule,
+  isSiteRule,
+} from '~/utils/crawl-rules';
 
 const showAddBookmarkDialog = async () => {
   const star = document.getElementById('star');
@@ -78,6 +85,44 @@ const onShieldContextMenu = (e: React.MouseEvent<HTMLDivElement>) => {
   menu.popup();
 };
 
+const onCrawlContextMenu = () => {
+  const { url } = store.tabs.selectedTab;
+  const violation = getCrawlRuleViolation(
+    store.settings.object.crawlRules,
+    url,
+  );
+
+  const menu = remote.Menu.buildFromTemplate([
+    {
+      label: violation
+        ? `Not crawled: ${violation}`
+        : 'This site is crawled for context',
+      enabled: false,
+    },
+  ]);
+
+  menu.popup();
+};
+
+const onCrawlClick = () => {
+  const { url } = store.tabs.selectedTab;
+  const rules = store.settings.object.crawlRules;
+
+  if (rules.denyList.some((rule) => isSiteRule(rule, url))) {
+    rules.denyList = rules.denyList.filter((rule) => !isSiteRule(rule, url));
+  } else if (getCrawlRuleViolation(rules, url)) {
+    // Excluded by another rule, which can only be changed in the settings.
+    onCrawlContextMenu();
+    return;
+  } else {
+    rules.denyList = [...rules.denyList, getSiteRule(url)];
+  }
+
+  store.settings.save();
+};
+
+const isCrawlableUrl = (url: string) => url && url.startsWith('https://');
+
 export const SiteButtons = observer(() => {
   const { selectedTab } = store.tabs;
 
@@ -91,6 +136,12 @@ export const SiteButtons = observer(() => {
 
   const dense = !store.isCompact;
 
+  const crawlRules = store.settings.object.crawlRules;
+  const showCrawlToggle =
+    selectedTab && crawlRules && isCrawlableUrl(selectedTab.url);
+  const crawled =
+    showCrawlToggle && !getCrawlRuleViolation(crawlRules, selectedTab.url);
+
   return (
     <>
       {process.env.ENABLE_AUTOFILL && hasCredentials && (
@@ -122,6 +173,17 @@ export const SiteButtons = observer(() => {
         inhertTextColor
         onMouseDown={onStarClick}
       />
+      {showCrawlToggle && (
+        <ToolbarButton
+          size={16}
+          icon={crawled ? ICON_VISIBLE : ICON_INVISIBLE}
+          dense={dense}
+          inhertTextColor
+          opacity={crawled ? 0.87 : 0.54}
+          onClick={onCrawlClick}
+          onContextMenu={onCrawlContextMenu}
+        />
+      )}
       <ToolbarButton
         size={16}
         badge={store.settings.object.shield && blockedAds > 0}
@@ -0,0 +1,62 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import {
+  classifySegment,
+  getToolName,
+  inferPathTemplates,
+  PathSample,
+} from '../path-inference';
+
+interface IPathFixture {
+  name: string;
+  samples: PathSample[];
+  patterns: string[];
+}
+
+const fixtures: IPathFixture[] = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures/path-inference.json'), 'utf8'),
+);
+
+describe('inferPathTemplates', () => {
+  it.each(fixtures.map((f) => [f.name, f]))(
+    'clusters %s',
+    (name, { samples, patterns }: IPathFixture) => {
+      expect(inferPathTemplates(samples)).toEqual(patterns);
+    },
+  );
+
+  it('gives as many segments as the URL has', () => {
+    const [pattern] = inferPathTemplates([{ url: 'https://x.com/a%2Fb/c' }]);
+    expect(pattern.split('/').length).toBe(3);
+  });
+});
+
+describe('classifySegment', () => {
+  it.each([
+    ['42', 'id'],
+    ['a8Fk29xQ', 'id'],
+    ['3f2b7c1e-9a4d-4e8b-a1c2-5d6e7f809a1b', 'uuid'],
+    ['9f86d081884c7d65', 'hash'],
+    ['2024-03', 'date'],
+    ['v2', 'version'],
+    ['hello-world', 'slug'],
+    ['users', 'word'],
+    ['hello%20world', 'word'],
+    ['a%zz', 'word'],
+  ])('classifies %s as %s', (segment, kind) => {
+    expect(classifySegment(segment)).toBe(kind);
+  });
+});
+
+describe('getToolName', () => {
+  it('names tools after the host and resource', () => {
+    expect(
+      getToolName(
+        'GET',
+        'https://www.github.com/repos/octo/hello',
+        '/api/v3/repos/:repoId',
+      ),
+    ).toBe('get_github_com_repos_by_repoId');
+  });
+});
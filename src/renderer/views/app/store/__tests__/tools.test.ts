@@ -0,0 +1,70 @@
+import { validateJsonSchema } from '~/utils/json-schema';
+import {
+  buildToolRequest,
+  EndpointCollector,
+  ExecutableTool,
+  reconstructUrl,
+} from '../tools';
+
+const REPOS = ['octo/hello', 'foo/bar'];
+
+// A tool for /repos/:repo/:repo2/issues, learned from a few captured requests
+const getRepoTool = (): ExecutableTool => {
+  const collector = new EndpointCollector();
+  for (const repo of REPOS) {
+    collector.processEndpoint({
+      url: `https://api.example.com/repos/${repo}/issues`,
+      requestPayload: undefined,
+      responsePayload: [{ title: repo }],
+      requestHeaders: { Authorization: 'Bearer abcdef123456' },
+    });
+  }
+
+  const [tool] = collector.getTools();
+  return collector.getExecutableTool(tool.name);
+};
+
+describe('buildToolRequest', () => {
+  it('fills the path parameters of the pattern', () => {
+    const tool = getRepoTool();
+
+    expect(tool.pattern).toBe('/repos/:repo/:repo2/issues');
+    expect(
+      buildToolRequest(tool, { repo: 'jane', repo2: 'notes', page: 2 }),
+    ).toEqual({
+      url: 'https://api.example.com/repos/jane/notes/issues?page=2',
+      method: 'GET',
+    });
+  });
+
+  it('rejects empty path parameters', () => {
+    const tool = getRepoTool();
+
+    expect(
+      validateJsonSchema(tool.parameters, { repo: '', repo2: 'evil.com' }),
+    ).toEqual(['$.repo: expected at least 1 characters']);
+  });
+
+  it('stays on the origin of the tool', () => {
+    const tool = getRepoTool();
+
+    for (const params of [
+      { repo: '', repo2: 'evil.com' },
+      { repo: '/evil.com', repo2: 'x' },
+      { repo: '..', repo2: '..' },
+    ]) {
+      const { url } = buildToolRequest(tool, params);
+      expect(new URL(url).origin).toBe('https://api.example.com');
+    }
+  });
+});
+
+describe('reconstructUrl', () => {
+  it('keeps an empty leading parameter on the base URL', () => {
+    const url = reconstructUrl('https://api.example.com', '/:owner/:repo', {
+      owner: '',
+      repo: 'evil.com',
+    });
+    expect(url).toBe('https://api.example.com//evil.com');
+  });
+});
@@ -0,0 +1,44 @@
+import { createDatabase, CrawlJobsCollection } from './rxdb-setup';
+import { RxDatabase } from 'rxdb';
+import { ICrawlJobSnapshot } from '~/interfaces';
+
+export class CrawlJobStore {
+    private static instance: CrawlJobStore;
+    private db: RxDatabase<{
+        crawljobs: CrawlJobsCollection;
+    }>;
+
+    private constructor() { }
+
+    public static async getInstance(): Promise<CrawlJobStore> {
+        if (!CrawlJobStore.instance) {
+            CrawlJobStore.instance = new CrawlJobStore();
+            await CrawlJobStore.instance.initialize();
+        }
+        return CrawlJobStore.instance;
+    }
+
+    private async initialize(): Promise<void> {
+        this.db = await createDatabase();
+    }
+
+    public async save(snapshot: ICrawlJobSnapshot): Promise<void> {
+        try {
+            await this.db.crawljobs.upsert(snapshot);
+        } catch (error) {
+            console.error(`Error saving crawl job ${snapshot.id}:`, error);
+        }
+    }
+
+    public async getAll(): Promise<ICrawlJobSnapshot[]> {
+        const results = await this.db.crawljobs.find().exec();
+        return results.map(doc => doc.toJSON() as ICrawlJobSnapshot);
+    }
+
+    public async remove(id: string): Promise<void> {
+        const doc = await this.db.crawljobs.findOne({ selector: { id } }).exec();
+        if (doc) {
+            await doc.remove();
+        }
+    }
+}
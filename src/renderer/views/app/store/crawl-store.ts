@@ -1,9 +1,23 @@
-import { createDatabase, CrawlsCollection } from './rxdb-setup';
-import { addRxPlugin, RxDatabase } from 'rxdb';
+import { createDatabase, CrawlsCollection, PassagesCollection, RecordsCollection, RevisionsCollection } from './rxdb-setup';
+import { addRxPlugin, RxDatabase, RxDocument } from 'rxdb';
 import { isContentUseful } from '~/utils/parse';
 import { RxDBUpdatePlugin } from 'rxdb/plugins/update';
 import { extractQueryParams } from '~/utils/url';
 import { sha256 } from 'hash-wasm';
+import {
+    IArticleMetadata,
+    ICrawlChanges,
+    ICrawlRevision,
+    ICrawlValidators,
+    IEntityFilters,
+    IExtractedRecord,
+    IPassage,
+    ISearchContextFilters,
+    IStoredDocument,
+    IStructuredRecord,
+} from '~/interfaces';
+import { diffLines } from '~/utils/diff';
+import { chunkMarkdown } from '~/utils/chunk';
 
 addRxPlugin(RxDBUpdatePlugin);
 
@@ -14,8 +28,29 @@ export interface StoredCrawlData {
     timestamp: number;
     content?: string;
     depth: number;
+    etag?: string;
+    lastModified?: string;
+    lastCheckedAt?: number;
+    nextCheckAt?: number;
+    recheckInterval?: number;
+    lastVisitedAt?: number;
+    previousVisitAt?: number;
+    title?: string;
+    byline?: string;
+    publishedAt?: string;
+    canonicalUrl?: string;
 }
 
+// Pages that keep changing are checked more often, stable ones less.
+const MIN_RECHECK_INTERVAL = 60 * 60 * 1000;
+const DEFAULT_RECHECK_INTERVAL = 24 * 60 * 60 * 1000;
+const MAX_RECHECK_INTERVAL = 30 * 24 * 60 * 60 * 1000;
+
+const MAX_REVISIONS = 5;
+
+// Loads of the same page closer together than this count as one visit.
+const VISIT_GAP = 30 * 60 * 1000;
+
 export interface DomainStatus {
     domain: string;
     isCompleted: boolean;
@@ -25,6 +60,9 @@ export class CrawlStore {
     private static instance: CrawlStore;
     private db: RxDatabase<{
         crawls: CrawlsCollection;
+        revisions: RevisionsCollection;
+        passages: PassagesCollection;
+        records: RecordsCollection;
     }>;
     private requestCount: number = 0;
     private readonly MAX_ITEMS = 300;
@@ -61,7 +99,21 @@ export class CrawlStore {
         return await sha256(str);
     }
 
-    public async add(url: string, rawHtml: string, content: string, depth: number, jsonResponse?: object): Promise<boolean> {
+    /**
+     * Stores the content of a crawled page. When the page is already known,
+     * a changed content hash adds a revision and shortens the recheck
+     * interval, an unchanged one lengthens it. The structured data of the
+     * page replaces the records stored for it.
+     */
+    public async add(
+        url: string,
+        rawHtml: string,
+        content: string,
+        depth: number,
+        validators: ICrawlValidators = {},
+        records: IExtractedRecord[] = [],
+        article: IArticleMetadata = {},
+    ): Promise<boolean> {
         if (!isContentUseful(content)) return false;
         // console.log("content useful", content);
         const domain = this.getDomainFromUrl(url);
@@ -71,15 +123,65 @@ export class CrawlStore {
         const contentHash = await this.hashString(content);
 
         const urlHash = await this.hashString(strippedUrl);
+        const now = Date.now();
 
         try {
+            const existing = await this.db.crawls.findOne({ selector: { urlHash } }).exec();
+
+            if (existing) {
+                const changed = existing.contentHash !== contentHash;
+                const recheckInterval = this.getNextInterval(existing.recheckInterval, changed);
+
+                await existing.update({
+                    $set: {
+                        contentHash,
+                        content,
+                        depth: Math.min(existing.depth, depth),
+                        timestamp: changed ? now : existing.timestamp,
+                        etag: validators.etag,
+                        lastModified: validators.lastModified,
+                        lastCheckedAt: now,
+                        nextCheckAt: now + recheckInterval,
+                        recheckInterval,
+                        title: article.title,
+                        byline: article.byline,
+                        publishedAt: article.publishedAt,
+                        canonicalUrl: article.canonicalUrl,
+                    },
+                });
+
+                if (changed) {
+                    await this.addRevision(urlHash, strippedUrl, contentHash, content, now);
+                }
+
+                if (changed || !(await this.hasPassages(urlHash))) {
+                    await this.storePassages(urlHash, strippedUrl, contentHash, content);
+                }
+
+                // Structured data can change while the text stays the same, e.g. a price.
+                await this.storeRecords(urlHash, strippedUrl, records, now);
+
+                return true;
+            }
+
             const newEntry: StoredCrawlData = {
                 urlHash,
                 url: strippedUrl,
                 contentHash,
-                timestamp: Date.now(),
+                timestamp: now,
                 content: content,
                 depth: depth,
+                etag: validators.etag,
+                lastModified: validators.lastModified,
+                lastCheckedAt: now,
+                nextCheckAt: now + DEFAULT_RECHECK_INTERVAL,
+                recheckInterval: DEFAULT_RECHECK_INTERVAL,
+                // Depth 0 pages are the ones the user opened.
+                lastVisitedAt: depth === 0 ? now : undefined,
+                title: article.title,
+                byline: article.byline,
+                publishedAt: article.publishedAt,
+                canonicalUrl: article.canonicalUrl,
             };
 
             // Check if we've reached the maximum number of items
@@ -90,6 +192,9 @@ export class CrawlStore {
             }
 
             await this.db.crawls.insert(newEntry);
+            await this.addRevision(urlHash, strippedUrl, contentHash, content, now);
+            await this.storePassages(urlHash, strippedUrl, contentHash, content);
+            await this.storeRecords(urlHash, strippedUrl, records, now);
 
             // console.log("Stored new entry", newEntry);
 
@@ -100,13 +205,322 @@ export class CrawlStore {
         }
     }
 
+    /**
+     * Records a recheck that found no new content, e.g. a 304 response.
+     */
+    public async markUnchanged(url: string, validators: ICrawlValidators = {}): Promise<void> {
+        const entry = await this.findEntry(url);
+        if (!entry) return;
+
+        const now = Date.now();
+        const recheckInterval = this.getNextInterval(entry.recheckInterval, false);
+
+        await entry.update({
+            $set: {
+                etag: validators.etag ?? entry.etag,
+                lastModified: validators.lastModified ?? entry.lastModified,
+                lastCheckedAt: now,
+                nextCheckAt: now + recheckInterval,
+                recheckInterval,
+            },
+        });
+    }
+
+    /**
+     * Remembers when the user looked at the page. The visit before the
+     * current one is the default base of `getChanges`.
+     */
+    public async markVisited(url: string): Promise<void> {
+        const entry = await this.findEntry(url);
+        if (!entry) return;
+
+        const now = Date.now();
+        const { lastVisitedAt, previousVisitAt } = entry;
+        const isNewVisit = !lastVisitedAt || now - lastVisitedAt > VISIT_GAP;
+
+        await entry.update({
+            $set: {
+                lastVisitedAt: now,
+                previousVisitAt: isNewVisit ? lastVisitedAt : previousVisitAt,
+            },
+        });
+    }
+
+    public async getDueForRecheck(limit: number): Promise<StoredCrawlData[]> {
+        const results = await this.db.crawls.find({
+            selector: { nextCheckAt: { $lte: Date.now() } },
+        }).limit(limit).exec();
+
+        return results.map(doc => doc.toJSON() as StoredCrawlData);
+    }
+
+    public async getRevisions(url: string): Promise<ICrawlRevision[]> {
+        const { strippedUrl } = extractQueryParams(url);
+        const urlHash = await this.hashString(strippedUrl);
+
+        const results = await this.db.revisions.find({ selector: { urlHash } }).exec();
+
+        return results
+            .map(doc => doc.toJSON() as ICrawlRevision)
+            .sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * Diffs the current content of a page against the revision that was
+     * current at `since`, which defaults to the user's previous visit.
+     */
+    public async getChanges(url: string, since?: number): Promise<ICrawlChanges | null> {
+        const entry = await this.get(url);
+        if (!entry || !entry.content) return null;
+
+        const base = since ?? entry.previousVisitAt ?? 0;
+        const revisions = await this.getRevisions(url);
+        // Revisions are sorted newest first.
+        const previous = revisions.find(revision => revision.timestamp <= base) ?? null;
+
+        const current = { contentHash: entry.contentHash, timestamp: entry.timestamp };
+
+        if (!previous || previous.contentHash === entry.contentHash) {
+            return {
+                url: entry.url,
+                previous: previous && { contentHash: previous.contentHash, timestamp: previous.timestamp },
+                current,
+                changed: false,
+                lines: [],
+            };
+        }
+
+        return {
+            url: entry.url,
+            previous: { contentHash: previous.contentHash, timestamp: previous.timestamp },
+            current,
+            changed: true,
+            lines: diffLines(previous.content, entry.content),
+        };
+    }
+
+    public async getPassages(url: string): Promise<IPassage[]> {
+        const { strippedUrl } = extractQueryParams(url);
+        const urlHash = await this.hashString(strippedUrl);
+
+        const results = await this.db.passages.find({ selector: { urlHash } }).exec();
+
+        return results
+            .map(doc => doc.toJSON() as IPassage)
+            .sort((a, b) => a.index - b.index);
+    }
+
+    /**
+     * Returns the whole stored document with its passages, so that answers
+     * can cite the exact part of the page they were drawn from.
+     */
+    public async getDocument(url: string): Promise<IStoredDocument | null> {
+        const entry = await this.get(url);
+        if (!entry || !entry.content) return null;
+
+        return {
+            url: entry.url,
+            contentHash: entry.contentHash,
+            timestamp: entry.timestamp,
+            content: entry.content,
+            title: entry.title,
+            byline: entry.byline,
+            publishedAt: entry.publishedAt,
+            canonicalUrl: entry.canonicalUrl,
+            passages: await this.getPassages(url),
+            records: await this.getRecords(url),
+        };
+    }
+
+    public async getRecords(url: string): Promise<IStructuredRecord[]> {
+        const { strippedUrl } = extractQueryParams(url);
+        const urlHash = await this.hashString(strippedUrl);
+
+        const results = await this.db.records.find({ selector: { urlHash } }).exec();
+
+        return results
+            .map(doc => doc.toJSON() as IStructuredRecord)
+            .sort((a, b) => a.index - b.index);
+    }
+
+    /**
+     * Returns the products, events, articles and recipes found in the pages
+     * matching the filters, newest pages first.
+     */
+    public async getEntities(filters: IEntityFilters = {}): Promise<IStructuredRecord[]> {
+        const entries = await this.getEntries(filters);
+        const entriesByHash = new Map(entries.map(entry => [entry.urlHash, entry]));
+
+        const results = await this.db.records.find({
+            selector: {
+                urlHash: { $in: Array.from(entriesByHash.keys()) },
+                kind: { $in: filters.kinds ?? ['product', 'event', 'article', 'recipe'] },
+            },
+        }).exec();
+
+        return results
+            .map(doc => doc.toJSON() as IStructuredRecord)
+            .filter(record => record.entity)
+            .sort((a, b) => entriesByHash.get(b.urlHash).timestamp - entriesByHash.get(a.urlHash).timestamp || a.index - b.index);
+    }
+
+    /**
+     * Emits whenever passages were stored, e.g. to compute their embeddings.
+     */
+    public get passageInserts$() {
+        return this.db.passages.insert$;
+    }
+
+    public async getPassagesToEmbed(model: string, limit: number): Promise<IPassage[]> {
+        const results = await this.db.passages.find({
+            selector: {
+                $or: [
+                    { embeddingModel: { $exists: false } },
+                    { embeddingModel: { $ne: model } },
+                ],
+            },
+        }).limit(limit).exec();
+
+        return results.map(doc => doc.toJSON() as IPassage);
+    }
+
+    public async setPassageEmbedding(id: string, embedding: number[], model: string): Promise<void> {
+        const passage = await this.db.passages.findOne({ selector: { id } }).exec();
+        if (!passage) return;
+
+        await passage.update({ $set: { embedding, embeddingModel: model } });
+    }
+
+    public async getEntries(filters: ISearchContextFilters = {}): Promise<StoredCrawlData[]> {
+        const urlHashes = filters.urls && await Promise.all(
+            filters.urls.map(url => this.hashString(extractQueryParams(url).strippedUrl)),
+        );
+
+        return (await this.getAll()).filter(entry => {
+            if (urlHashes && !urlHashes.includes(entry.urlHash)) return false;
+            if (filters.domains && !filters.domains.includes(this.getDomainFromUrl(entry.url))) return false;
+            if (filters.maxDepth !== undefined && entry.depth > filters.maxDepth) return false;
+            if (filters.since !== undefined && entry.timestamp < filters.since) return false;
+            return true;
+        });
+    }
+
+    /**
+     * Returns the embedded passages of the pages matching the filters, each
+     * with the page it belongs to.
+     */
+    public async getEmbeddedPassages(model: string, filters: ISearchContextFilters = {}): Promise<{ passage: IPassage, entry: StoredCrawlData }[]> {
+        const entries = await this.getEntries(filters);
+        const entriesByHash = new Map(entries.map(entry => [entry.urlHash, entry]));
+
+        const passages = await this.db.passages.find({
+            selector: {
+                urlHash: { $in: Array.from(entriesByHash.keys()) },
+                embeddingModel: model,
+            },
+        }).exec();
+
+        return passages.map(doc => {
+            const passage = doc.toJSON() as IPassage;
+            return { passage, entry: entriesByHash.get(passage.urlHash) };
+        });
+    }
+
+    private async hasPassages(urlHash: string): Promise<boolean> {
+        const count = await this.db.passages.count({ selector: { urlHash } }).exec();
+        return count > 0;
+    }
+
+    private async storePassages(urlHash: string, url: string, contentHash: string, content: string): Promise<void> {
+        await this.db.passages.find({ selector: { urlHash } }).remove();
+
+        const passages: IPassage[] = chunkMarkdown(content).map((chunk, index) => ({
+            id: `${urlHash}:${index}`,
+            urlHash,
+            url,
+            index,
+            contentHash,
+            ...chunk,
+        }));
+
+        if (passages.length > 0) {
+            await this.db.passages.bulkInsert(passages);
+        }
+    }
+
+    private async storeRecords(urlHash: string, url: string, records: IExtractedRecord[], timestamp: number): Promise<void> {
+        await this.db.records.find({ selector: { urlHash } }).remove();
+
+        const stored: IStructuredRecord[] = records.map((record, index) => ({
+            ...record,
+            id: `${urlHash}:${index}`,
+            urlHash,
+            url,
+            index,
+            timestamp,
+        }));
+
+        if (stored.length > 0) {
+            await this.db.records.bulkInsert(stored);
+        }
+    }
+
+    private async findEntry(url: string) {
+        const { strippedUrl } = extractQueryParams(url);
+        const urlHash = await this.hashString(strippedUrl);
+        return this.db.crawls.findOne({ selector: { urlHash } }).exec();
+    }
+
+    private getNextInterval(interval: number = DEFAULT_RECHECK_INTERVAL, changed: boolean): number {
+        const next = changed ? interval / 2 : interval * 2;
+        return Math.round(Math.min(MAX_RECHECK_INTERVAL, Math.max(MIN_RECHECK_INTERVAL, next)));
+    }
+
+    private async addRevision(urlHash: string, url: string, contentHash: string, content: string, timestamp: number): Promise<void> {
+        await this.db.revisions.insert({
+            id: `${urlHash}:${timestamp}`,
+            urlHash,
+            url,
+            contentHash,
+            content,
+            timestamp,
+        });
+
+        const revisions = await this.db.revisions.find({ selector: { urlHash } }).exec();
+        const stale = revisions
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(MAX_REVISIONS);
+
+        for (const revision of stale) {
+            await revision.remove();
+        }
+    }
+
     private async removeOldestEntries(count: number): Promise<void> {
         const oldestEntries = await this.db.crawls.find()
             .sort({ timestamp: "asc" })
             .limit(count)
             .exec();
 
-        for (const entry of oldestEntries) {
+        await this.removeEntries(oldestEntries);
+    }
+
+    /**
+     * Removes the pages stored or changed since the given time, with their
+     * revisions, passages and records.
+     */
+    // Resolves to the URLs of the pages removed.
+    public async removeSince(timestamp: number): Promise<string[]> {
+        const entries = await this.db.crawls.find({ selector: { timestamp: { $gte: timestamp } } }).exec();
+        await this.removeEntries(entries);
+        return entries.map(entry => entry.url);
+    }
+
+    private async removeEntries(entries: RxDocument<StoredCrawlData>[]): Promise<void> {
+        for (const entry of entries) {
+            await this.db.revisions.find({ selector: { urlHash: entry.urlHash } }).remove();
+            await this.db.passages.find({ selector: { urlHash: entry.urlHash } }).remove();
+            await this.db.records.find({ selector: { urlHash: entry.urlHash } }).remove();
             await entry.remove();
         }
     }
@@ -136,7 +550,10 @@ export class CrawlStore {
     }
 
     public async clear(): Promise<void> {
-        await this.db.crawls.remove();
+        await this.db.crawls.find().remove();
+        await this.db.revisions.find().remove();
+        await this.db.passages.find().remove();
+        await this.db.records.find().remove();
     }
 
     public async size(): Promise<number> {
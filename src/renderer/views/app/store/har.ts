@@ -0,0 +1,215 @@
+import { IHar, IHarEntry, IHarNameValue, IHarPage, IHarTimings } from '~/interfaces';
+import { StoredNetworkData } from './network-store';
+import { getHeader } from './tools';
+
+const HAR_VERSION = '1.2';
+
+// A request read from a HAR file, before it is stored
+export interface HarCapture {
+    url: string;
+    method: string;
+    requestHeaders: Record<string, string>;
+    requestBody?: string;
+    responseStatus: number;
+    responseHeaders: Record<string, string>;
+    responseBody?: string;
+    timestamp: number;
+    duration?: number;
+    timings?: IHarTimings;
+}
+
+// Bodies of other types are binary and aren't worth keeping
+const TEXT_MIME_TYPE = /^text\/|json|xml|javascript|graphql|x-www-form-urlencoded/i;
+
+/**
+ * Writes the captured requests as a HAR 1.2 log. Requests are grouped in a
+ * page per tab they were made by.
+ */
+export function toHar(entries: StoredNetworkData[], creator: { name: string; version: string }): IHar {
+    const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+    const pages = new Map<number, IHarPage>();
+
+    for (const entry of sorted) {
+        if (entry.tabId !== undefined && !pages.has(entry.tabId)) {
+            pages.set(entry.tabId, {
+                id: getPageId(entry.tabId),
+                startedDateTime: new Date(entry.timestamp).toISOString(),
+                title: `Tab ${entry.tabId}`,
+                pageTimings: {},
+            });
+        }
+    }
+
+    return {
+        log: {
+            version: HAR_VERSION,
+            creator,
+            pages: Array.from(pages.values()),
+            entries: sorted.map(toHarEntry),
+        },
+    };
+}
+
+function getPageId(tabId: number): string {
+    return `tab_${tabId}`;
+}
+
+function toHarEntry(entry: StoredNetworkData): IHarEntry {
+    const requestContentType = getHeader(entry.requestHeaders, 'content-type');
+    const responseContentType = getHeader(entry.responseHeaders, 'content-type') ?? '';
+    const cookieHeader = getHeader(entry.requestHeaders, 'cookie');
+    const setCookieHeader = getHeader(entry.responseHeaders, 'set-cookie');
+
+    const harEntry: IHarEntry = {
+        startedDateTime: new Date(entry.timestamp).toISOString(),
+        time: entry.duration ?? 0,
+        request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: '',
+            cookies: cookieHeader ? parseCookies(cookieHeader.split(';')) : [],
+            headers: toNameValues(entry.requestHeaders),
+            queryString: Array.from(new URL(entry.url).searchParams.entries())
+                .map(([name, value]) => ({ name, value })),
+            headersSize: -1,
+            bodySize: entry.requestBody ? entry.requestBody.length : 0,
+        },
+        response: {
+            status: entry.responseStatus,
+            statusText: '',
+            httpVersion: '',
+            cookies: setCookieHeader ? parseCookies(setCookieHeader.split('\n').map(cookie => cookie.split(';')[0])) : [],
+            headers: toNameValues(entry.responseHeaders),
+            content: {
+                size: entry.responseBody?.length ?? 0,
+                mimeType: responseContentType,
+                ...(entry.responseBody !== undefined ? { text: entry.responseBody } : {}),
+            },
+            redirectURL: getHeader(entry.responseHeaders, 'location') ?? '',
+            headersSize: -1,
+            bodySize: entry.responseBody?.length ?? -1,
+        },
+        cache: {},
+        // Requests captured before timings were recorded have none
+        timings: entry.timings ?? { send: 0, wait: 0, receive: 0 },
+    };
+
+    if (entry.tabId !== undefined) {
+        harEntry.pageref = getPageId(entry.tabId);
+    }
+
+    if (entry.requestBody !== undefined) {
+        harEntry.request.postData = {
+            mimeType: requestContentType ?? '',
+            text: entry.requestBody,
+        };
+        if (requestContentType?.includes('application/x-www-form-urlencoded')) {
+            harEntry.request.postData.params = Array.from(new URLSearchParams(entry.requestBody).entries())
+                .map(([name, value]) => ({ name, value }));
+        }
+    }
+
+    return harEntry;
+}
+
+/**
+ * Reads the requests of a HAR log. Entries that aren't HTTP requests, or
+ * that never got a response, are skipped.
+ */
+export function fromHar(har: IHar): HarCapture[] {
+    if (!Array.isArray(har?.log?.entries)) {
+        throw new Error('Not a HAR file');
+    }
+
+    const captures: HarCapture[] = [];
+
+    for (const entry of har.log.entries) {
+        const { request, response } = entry ?? {} as IHarEntry;
+        if (!request?.url || !/^https?:\/\//.test(request.url) || !response?.status) {
+            continue;
+        }
+
+        const timestamp = Date.parse(entry.startedDateTime);
+
+        captures.push({
+            url: request.url,
+            method: (request.method || 'GET').toUpperCase(),
+            requestHeaders: fromNameValues(request.headers),
+            requestBody: getPostDataText(entry),
+            responseStatus: response.status,
+            responseHeaders: fromNameValues(response.headers),
+            responseBody: getContentText(entry),
+            timestamp: Number.isNaN(timestamp) ? Date.now() : timestamp,
+            ...(entry.time >= 0 ? { duration: entry.time } : {}),
+            ...(entry.timings ? { timings: getTimings(entry) } : {}),
+        });
+    }
+
+    return captures;
+}
+
+// Only the phases, without the comment
+function getTimings(entry: IHarEntry): IHarTimings {
+    const timings: IHarTimings = { send: 0, wait: 0, receive: 0 };
+    for (const phase of ['blocked', 'dns', 'connect', 'ssl', 'send', 'wait', 'receive']) {
+        const time = (entry.timings as any)[phase];
+        if (typeof time === 'number') {
+            (timings as any)[phase] = time;
+        }
+    }
+    return timings;
+}
+
+function getPostDataText(entry: IHarEntry): string | undefined {
+    const { postData } = entry.request;
+    if (!postData) {
+        return undefined;
+    }
+    if (postData.text !== undefined) {
+        return postData.text;
+    }
+    // Some tools only write the params of form posts
+    if (postData.params?.length > 0) {
+        return new URLSearchParams(postData.params.map(({ name, value }) => [name, value ?? ''])).toString();
+    }
+    return undefined;
+}
+
+function getContentText(entry: IHarEntry): string | undefined {
+    const { content } = entry.response;
+    if (!content || content.text === undefined || !TEXT_MIME_TYPE.test(content.mimeType ?? '')) {
+        return undefined;
+    }
+    return content.encoding === 'base64'
+        ? Buffer.from(content.text, 'base64').toString('utf-8')
+        : content.text;
+}
+
+// Headers sent more than once, like Set-Cookie, are joined by a newline
+function fromNameValues(pairs: IHarNameValue[] = []): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const { name, value } of pairs) {
+        // HTTP/2 pseudo headers are part of the request line
+        if (!name || name.startsWith(':')) {
+            continue;
+        }
+        const key = name.toLowerCase();
+        headers[key] = headers[key] !== undefined ? `${headers[key]}\n${value}` : value;
+    }
+    return headers;
+}
+
+function toNameValues(headers: Record<string, string> = {}): IHarNameValue[] {
+    return Object.entries(headers).flatMap(([name, value]) =>
+        String(value).split('\n').map(line => ({ name, value: line })));
+}
+
+function parseCookies(pairs: string[]): IHarNameValue[] {
+    return pairs
+        .map(pair => pair.trim())
+        .filter(pair => pair.includes('='))
+        .map(pair => {
+            const index = pair.indexOf('=');
+            return { name: pair.substring(0, index), value: pair.substring(index + 1) };
+        });
+}
@@ -23,7 +23,6 @@ import { NEWTAB_URL } from '~/constants/tabs';
 import { IURLSegment } from '~/interfaces/urls';
 import { BookmarkBarStore } from './bookmark-bar';
 import { NONMODAL_DIALOGS } from '~/constants';
-import { NetworkStore } from './network-store';
 
 export class Store {
   public settings = new SettingsStore(this);
@@ -89,7 +88,6 @@ export class Store {
     'extension-popup': false,
     'downloads-dialog': false,
   };
-  public network = new NetworkStore();
 
   // Computed
 
@@ -208,7 +206,6 @@ export class Store {
       theme: computed,
       isCompact: computed,
       downloadProgress: computed,
-      network: observable,
     });
 
     ipcRenderer.on('update-navigation-state', (e, data) => {
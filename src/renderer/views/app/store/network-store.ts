@@ -1,24 +1,30 @@
-import { CrawlsCollection, createDatabase, NetworkCollection, ToolsCollection } from './rxdb-setup';
+import { CrawlsCollection, createDatabase, NetworkCollection, StreamsCollection, ToolsCollection } from './rxdb-setup';
 import { RxDatabase, RxJsonSchema } from 'rxdb';
 // Removed Embedding imports and plugins
 import { sha256 } from 'hash-wasm';
-import { EndpointCollector, generateToolDefinitions, StorableTool } from './tools'
+import { EndpointCollector, ExecutableTool, generateToolDefinitions, getHeader, StorableTool, ToolSearchResult } from './tools'
+import { generateOpenApiDocument } from './openapi'
+import { HarCapture, toHar } from './har'
+import { generateStreamToolDefinitions, StreamCollector, StreamTool } from './streams'
+import { IHar, IHarExportOptions, IHarTimings, INetworkRequestDetails, INetworkRequestSummary, INetworkRequestTool, INetworkRetention, INetworkStream } from '~/interfaces'
 // New file for ToolStore if separated, alternatively integrate into network-store.ts
 
 
 export const toolSchema: RxJsonSchema<StorableTool> = {
-  version: 0,
+  version: 1,
   type: 'object',
   primaryKey: 'name',
   properties: {
     name: { type: 'string', maxLength: 255 },
     pattern: { type: 'string', maxLength: 1000 },
+    method: { type: 'string', maxLength: 10 },
     endpoints: {
       type: 'array',
       items: {
         type: 'object',
         properties: {
           url: { type: 'string', maxLength: 2000 },
+          method: { type: 'string', maxLength: 10 },
           requestPayload: { type: 'object' },
           responsePayload: { type: 'object' },
           pathInfo: {
@@ -47,7 +53,7 @@ export const toolSchema: RxJsonSchema<StorableTool> = {
       },
     },
   },
-  required: ['name', 'pattern', 'endpoints', 'queryParamOptions'],
+  required: ['name', 'pattern', 'method', 'endpoints', 'queryParamOptions'],
 };
 
 /**
@@ -71,6 +77,8 @@ function indexNrToString(num: number, length: number = 10): string {
   return num.toFixed(6).padStart(length, '0');
 }
 
+export type ToolDocument = StorableTool;
+
 /**
  * Interface for storing network data.
  */
@@ -91,6 +99,11 @@ export interface StoredNetworkData {
   contentHash: string;
   timestamp: number;
   parentUrlHash?: string;
+  // Id of the web contents of the tab that made the request
+  tabId?: number;
+  // Milliseconds from sending the request to the end of the response
+  duration?: number;
+  timings?: IHarTimings;
 }
 
 /**
@@ -102,6 +115,7 @@ export class NetworkStore {
     network: NetworkCollection,
     crawls: CrawlsCollection,
     tools: ToolsCollection,
+    streams: StreamsCollection,
   }>;
   private readonly MAX_ITEMS = 2000;
   private sampleVectors: number[][] = [
@@ -112,6 +126,7 @@ export class NetworkStore {
     network: NetworkCollection,
     crawls: CrawlsCollection,
     tools: ToolsCollection,
+    streams: StreamsCollection,
   }>) {
     this.db = db;
   }
@@ -135,12 +150,30 @@ export class NetworkStore {
   }
 
   /**
-   * Adds a GET request to the network log with parsed path and query parameters.
-   * Returns the stored entry for mapping purposes.
+   * Adds a request to the network log with parsed path and query parameters.
+   * Bodies of POST, PUT and other write requests are kept so that tools can
+   * learn their request schema. Returns the stored entry for mapping purposes.
    */
-  public async addRequestToLog(details: { requestId: string; url: string; method: string; headers: Record<string, string>; body?: string; initiator: any }): Promise<StoredNetworkData | null> {
-    if (details.method.toUpperCase() !== 'GET') return null; // Focus only on GET requests
+  public async addRequestToLog(details: { requestId: string; url: string; method: string; headers: Record<string, string>; body?: string; initiator?: any; tabId?: number }): Promise<StoredNetworkData | null> {
+    // Preflights and HEAD requests carry nothing to learn from
+    if (['OPTIONS', 'HEAD'].includes(details.method.toUpperCase())) return null;
+
+    const newEntry = await this.createEntry(details);
+
+    try {
+      await this.db.network.insert(newEntry);
 
+      return newEntry;
+    } catch (error) {
+      console.error('Error adding network request to log:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Builds the log entry of a request, before its response is known.
+   */
+  private async createEntry(details: { requestId: string; url: string; method: string; headers: Record<string, string>; body?: string; initiator?: any; tabId?: number; timestamp?: number }): Promise<StoredNetworkData> {
     const urlHash = await this.hashString(details.url);
     const urlObj = new URL(details.url);
     const baseUrl = `${urlObj.protocol}//${urlObj.hostname}${urlObj.port ? `:${urlObj.port}` : ''}`;
@@ -168,30 +201,18 @@ export class NetworkStore {
       responseHeaders: {},
       responseBody: undefined,
       contentHash: '',
-      timestamp: Date.now(),
-      parentUrlHash: details.initiator?.urlHash
+      timestamp: details.timestamp ?? Date.now(),
+      parentUrlHash: details.initiator?.urlHash,
+      tabId: details.tabId
     };
 
-    try {
-      // const currentCount = await this.size();
-      // if (currentCount >= this.MAX_ITEMS) {
-      //   await this.removeOldestEntries(1);
-      // }
-      console.log(newEntry);
-
-      await this.db.network.insert(newEntry);
-
-      return newEntry;
-    } catch (error) {
-      console.error('Error adding network request to log:', error);
-      return null;
-    }
+    return newEntry;
   }
 
   /**
    * Updates a network log entry with response details.
    */
-  public async updateLogWithResponse(details: { requestId: string; status: number; headers: Record<string, string>; body?: string }): Promise<void> {
+  public async updateLogWithResponse(details: { requestId: string; status: number; headers: Record<string, string>; body?: string; duration?: number; timings?: IHarTimings }): Promise<void> {
     try {
       const entry = await this.db.network.findOne({ selector: { requestId: details.requestId } }).exec();
       if (entry) {
@@ -202,6 +223,8 @@ export class NetworkStore {
           responseHeaders: details.headers,
           responseBody: rawBody,
           contentHash,
+          ...(details.duration !== undefined ? { duration: details.duration } : {}),
+          ...(details.timings ? { timings: details.timings } : {}),
         };
         await entry.update({ $set: updatedEntry });
       }
@@ -210,11 +233,220 @@ export class NetworkStore {
     }
   }
 
+  /**
+   * Writes the captured requests as a HAR 1.2 log, optionally only those of
+   * a tab or an origin.
+   */
+  public async exportHar(options: IHarExportOptions, creator: { name: string; version: string }): Promise<IHar> {
+    const entries = await this.db.network.find({
+      selector: {
+        ...(options.tabId !== undefined ? { tabId: options.tabId } : {}),
+        ...(options.origin ? { baseUrl: new URL(options.origin).origin } : {}),
+        responseStatus: { $gt: 0 }
+      }
+    }).exec();
+
+    return toHar(entries.map(doc => doc.toJSON() as StoredNetworkData), creator);
+  }
+
+  /**
+   * Stores requests recorded elsewhere, like in the HAR file of another
+   * browser, as if they had been captured here. Importing the same request
+   * twice keeps a single entry. Returns the stored entries along with the
+   * names of the tools discovered for their origins.
+   */
+  public async importCaptures(captures: HarCapture[]): Promise<{ entries: StoredNetworkData[]; tools: string[] }> {
+    const entries: StoredNetworkData[] = [];
+
+    for (const capture of captures) {
+      if (['OPTIONS', 'HEAD'].includes(capture.method)) continue;
+
+      const requestId = 'har-' + (await this.hashString(
+        `${capture.timestamp} ${capture.method} ${capture.url} ${capture.requestBody ?? ''}`
+      )).substring(0, 32);
+
+      const entry = await this.createEntry({
+        requestId,
+        url: capture.url,
+        method: capture.method,
+        headers: capture.requestHeaders,
+        body: capture.requestBody,
+        timestamp: capture.timestamp,
+      });
+
+      entries.push({
+        ...entry,
+        responseStatus: capture.responseStatus,
+        responseHeaders: capture.responseHeaders,
+        responseBody: capture.responseBody ?? '',
+        contentHash: await this.hashString(capture.responseBody ?? ''),
+        ...(capture.duration !== undefined ? { duration: capture.duration } : {}),
+        ...(capture.timings ? { timings: capture.timings } : {}),
+      });
+    }
+
+    if (entries.length > 0) {
+      await this.db.network.bulkUpsert(entries);
+    }
+
+    const tools = new Set<string>();
+    for (const origin of new Set(entries.map(entry => entry.baseUrl))) {
+      const collector = await this.collectTools(origin);
+      collector.getTools().forEach(tool => tools.add(tool.name));
+    }
+
+    return { entries, tools: Array.from(tools) };
+  }
+
+  /**
+   * Lists the most recent requests for the network inspector, along with
+   * the tool each of them is an example of.
+   */
+  public async listRequests(limit: number = 1000): Promise<INetworkRequestSummary[]> {
+    const entries = await this.db.network.find({
+      sort: [{ timestamp: 'desc' }],
+      limit
+    }).exec();
+    const tools = await this.getRequestTools();
+
+    return entries.map(doc => {
+      const entry = doc.toJSON() as StoredNetworkData;
+      return { ...this.toSummary(entry), tool: tools.get(this.getRequestKey(entry)) };
+    });
+  }
+
+  /**
+   * Retrieves a request with its headers, bodies and timings.
+   */
+  public async getRequestDetails(requestId: string): Promise<INetworkRequestDetails | null> {
+    const entry = await this.get(requestId);
+    if (!entry) return null;
+
+    const tools = await this.getRequestTools(entry.baseUrl);
+
+    return {
+      ...this.toSummary(entry),
+      tool: tools.get(this.getRequestKey(entry)),
+      requestHeaders: entry.requestHeaders,
+      requestBody: entry.requestBody,
+      responseHeaders: entry.responseHeaders,
+      responseBody: entry.responseBody,
+      timings: entry.timings,
+    };
+  }
+
+  public toSummary(entry: StoredNetworkData): INetworkRequestSummary {
+    const contentType = getHeader(entry.responseHeaders, 'content-type') ?? '';
+    return {
+      requestId: entry.requestId,
+      url: entry.url,
+      origin: entry.baseUrl,
+      method: entry.method,
+      status: entry.responseStatus,
+      contentType: contentType.split(';')[0].trim(),
+      size: entry.responseBody?.length ?? 0,
+      timestamp: entry.timestamp,
+      duration: entry.duration,
+      tabId: entry.tabId,
+    };
+  }
+
+  // Requests are matched to the endpoints of tools the same way they are deduplicated
+  private getRequestKey(entry: { method: string; url: string; requestBody?: any }): string {
+    return `${entry.method.toUpperCase()} ${entry.url} ${entry.requestBody ?? ''}`;
+  }
+
+  private async getRequestTools(origin?: string): Promise<Map<string, INetworkRequestTool>> {
+    const collector = await this.collectTools(origin);
+    const tools = new Map<string, INetworkRequestTool>();
+
+    for (const tool of collector.getTools()) {
+      for (const endpoint of tool.endpoints) {
+        tools.set(this.getRequestKey(endpoint), { name: tool.name, pattern: tool.pattern });
+      }
+    }
+
+    return tools;
+  }
+
+  /**
+   * Removes the requests of a tab that go over its retention limits, from
+   * the oldest. Returns the ids of the removed requests.
+   */
+  public async pruneTab(tabId: number, retention: INetworkRetention): Promise<string[]> {
+    const entries = await this.db.network.find({
+      selector: { tabId },
+      sort: [{ timestamp: 'desc' }]
+    }).exec();
+
+    const cutoff = Date.now() - retention.maxAge;
+    let count = 0;
+    let bytes = 0;
+
+    const removed = entries.filter(doc => {
+      count++;
+      bytes += (doc.requestBody?.length ?? 0) + (doc.responseBody?.length ?? 0);
+      return count > retention.maxEntries || bytes > retention.maxBytes || doc.timestamp < cutoff;
+    });
+
+    return this.removeEntries(removed.map(doc => doc.requestId));
+  }
+
+  /**
+   * Removes the requests captured by any tab before the given time.
+   * Imported requests have no tab and are kept. Returns the ids of the
+   * removed requests.
+   */
+  public async removeCapturedBefore(timestamp: number): Promise<string[]> {
+    const entries = await this.db.network.find({
+      selector: { tabId: { $exists: true }, timestamp: { $lt: timestamp } }
+    }).exec();
+
+    return this.removeEntries(entries.map(doc => doc.requestId));
+  }
+
+  /**
+   * Removes the requests captured or imported since the given time, and the
+   * connections that had a message since then. Returns the ids of the
+   * removed requests.
+   */
+  public async removeSince(timestamp: number): Promise<string[]> {
+    const entries = await this.db.network.find({
+      selector: { timestamp: { $gte: timestamp } }
+    }).exec();
+
+    await this.db.streams.find({ selector: { updatedAt: { $gte: timestamp } } }).remove();
+    return this.removeEntries(entries.map(doc => doc.requestId));
+  }
+
+  /**
+   * Stores WebSocket and EventSource connections, replacing the ones
+   * already stored with their latest messages.
+   */
+  public async saveStreams(streams: INetworkStream[]): Promise<void> {
+    if (streams.length === 0) return;
+    await this.db.streams.bulkUpsert(streams);
+  }
+
+  /**
+   * Removes the connections that had no message since the given time.
+   */
+  public async removeStreamsBefore(timestamp: number): Promise<void> {
+    await this.db.streams.find({ selector: { updatedAt: { $lt: timestamp } } }).remove();
+  }
+
+  private async removeEntries(requestIds: string[]): Promise<string[]> {
+    if (requestIds.length === 0) return [];
+    await this.db.network.bulkRemove(requestIds);
+    return requestIds;
+  }
+
   /**
    * Clears all network logs.
    */
   public async clearLogs(): Promise<void> {
-    await this.db.network.remove();
+    await this.db.network.find().remove();
+    await this.db.streams.find().remove();
   }
 
   /**
@@ -280,11 +512,12 @@ export class NetworkStore {
 
 
   /**
-   * Retrieves all tools from the tools collection.
+   * Groups the captured JSON responses into tools.
    */
-  public async getTools() {
+  private async collectTools(origin?: string): Promise<EndpointCollector> {
     const pairs = await this.db.network.find({
       selector: {
+        ...(origin ? { baseUrl: new URL(origin).origin } : {}),
         responseStatus: { $gt: 0 },
         responseBody: { $exists: true }
       }
@@ -298,15 +531,126 @@ export class NetworkStore {
         collector.processEndpoint({
           url: pair.url,
           requestPayload: pair.requestBody,
-          responsePayload: pair.responseBody,
+          responsePayload: parsedResponseBody,
+          requestHeaders: pair.requestHeaders,
+          method: pair.method,
+          responseStatus: pair.responseStatus,
+          responseContentType: getHeader(pair.responseHeaders, 'content-type'),
         });
       } catch (error) {
         console.log(`Error processing endpoint: ${pair.url}`, error);
       }
     }
 
+    return collector;
+  }
+
+  /**
+   * Groups the captured WebSocket and EventSource connections into tools.
+   */
+  private async collectStreamTools(): Promise<StreamCollector> {
+    const streams = await this.db.streams.find().exec();
+
+    const collector = new StreamCollector();
+    streams.forEach(stream => collector.processStream(stream.toJSON() as INetworkStream));
+
+    return collector;
+  }
+
+  /**
+   * Retrieves all tools from the tools collection, along with the channels
+   * that can be subscribed to.
+   */
+  public async getTools() {
+    const collector = await this.collectTools();
     const tools = collector.getTools().filter(tool => tool.endpoints.length > 1)
+    const streamCollector = await this.collectStreamTools();
 
-    return generateToolDefinitions(tools);
+    return {
+      ...generateToolDefinitions(tools),
+      ...generateStreamToolDefinitions(streamCollector.getTools()),
+    };
   }
-}
\ No newline at end of file
+
+  /**
+   * Retrieves a channel to subscribe to by name.
+   */
+  public async getStreamTool(name: string): Promise<StreamTool | null> {
+    const collector = await this.collectStreamTools();
+    return collector.getTool(name);
+  }
+
+  /**
+   * Retrieves what is needed to call a tool by name.
+   */
+  public async getExecutableTool(name: string): Promise<ExecutableTool | null> {
+    const collector = await this.collectTools();
+    return collector.getExecutableTool(name);
+  }
+
+  /**
+   * Ranks the tools by how well their name, path pattern and schema field
+   * names match the query.
+   */
+  public async searchTools(query: string, topK: number = 10): Promise<ToolSearchResult[]> {
+    const collector = await this.collectTools();
+    const streamCollector = await this.collectStreamTools();
+
+    return [...collector.searchTools(query, topK), ...streamCollector.searchTools(query, topK)]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  /**
+   * Builds an OpenAPI 3.1 document from everything captured for an origin,
+   * or null when nothing was.
+   */
+  public async getOpenApiDocument(origin: string): Promise<any | null> {
+    const collector = await this.collectTools(origin);
+    const tools = collector.getTools();
+    if (tools.length === 0) return null;
+
+    return generateOpenApiDocument(new URL(origin).origin, tools);
+  }
+
+  /**
+   * Merges every captured JSON response for an endpoint into one JSON
+   * Schema. The path may be a pattern with `:name` segments, which match
+   * any value.
+   */
+  public async generateJsonSchema(baseUrl: string, path: string): Promise<any | null> {
+    const entries = await this.db.network.find({
+      selector: {
+        baseUrl: new URL(baseUrl).origin,
+        responseStatus: { $gt: 0 },
+        responseBody: { $exists: true }
+      }
+    }).exec();
+
+    const pathRegex = new RegExp(
+      '^' + path.split('/').map(segment =>
+        segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      ).join('/') + '/?$'
+    );
+
+    const collector = new EndpointCollector();
+    const schemas = [];
+
+    for (const entry of entries) {
+      if (!pathRegex.test(entry.path)) continue;
+
+      try {
+        schemas.push(collector.jsonToSchema(JSON.parse(entry.responseBody)));
+      } catch {
+        // Not a JSON response
+      }
+    }
+
+    if (schemas.length === 0) return null;
+
+    return {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      ...collector.mergeSchemas(schemas),
+    };
+  }
+}
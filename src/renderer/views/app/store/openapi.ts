@@ -0,0 +1,246 @@
+import {
+    generateToolDefinitions,
+    getHeader,
+    getPathParamExamples,
+    jsonToSchema,
+    mergeSchemas,
+    ProcessedEndpointInfo,
+    Tool,
+} from './tools';
+
+const OPENAPI_VERSION = '3.1.0';
+
+const STATUS_DESCRIPTIONS: { [status: string]: string } = {
+    '200': 'OK',
+    '201': 'Created',
+    '202': 'Accepted',
+    '204': 'No Content',
+    '400': 'Bad Request',
+    '401': 'Unauthorized',
+    '403': 'Forbidden',
+    '404': 'Not Found',
+    '409': 'Conflict',
+    '422': 'Unprocessable Entity',
+    '429': 'Too Many Requests',
+    '500': 'Internal Server Error',
+};
+
+/**
+ * Turns the tools learned for an origin into an OpenAPI 3.1 document. Tools
+ * that share a path and method, like the operations of a GraphQL endpoint,
+ * are described by a single operation.
+ */
+export function generateOpenApiDocument(origin: string, tools: Tool[]): any {
+    const groups = new Map<string, Tool[]>();
+    for (const tool of tools) {
+        const key = `${tool.method} ${tool.pattern}`;
+        groups.set(key, [...(groups.get(key) ?? []), tool]);
+    }
+
+    const paths: { [path: string]: any } = {};
+    const operationIds = new Set<string>();
+
+    for (const group of groups.values()) {
+        const { method, pattern } = group[0];
+        const path = toOpenApiPath(pattern);
+
+        paths[path] = paths[path] ?? {};
+        paths[path][method.toLowerCase()] = buildOperation(group, operationIds);
+    }
+
+    return {
+        openapi: OPENAPI_VERSION,
+        info: {
+            title: `${new URL(origin).hostname} API`,
+            version: '1.0.0',
+            description: 'Reverse-engineered from the requests captured while browsing.',
+        },
+        servers: [{ url: origin }],
+        paths,
+    };
+}
+
+// Express style `:name` segments become `{name}` templates
+function toOpenApiPath(pattern: string): string {
+    const path = pattern
+        .split('/')
+        .map(segment => segment.startsWith(':') ? `{${segment.substring(1)}}` : segment)
+        .join('/');
+    return path.startsWith('/') ? path : `/${path}`;
+}
+
+// Media type without its parameters
+function getMediaType(contentType: string | undefined): string {
+    return contentType?.split(';')[0].trim().toLowerCase() || 'application/json';
+}
+
+// Operation ids have to be unique across the document
+function getOperationId(group: Tool[], operationIds: Set<string>): string {
+    const { method, pattern, name } = group[0];
+    const base = group.length > 1
+        ? `${method.toLowerCase()}_${pattern.split('/').filter(Boolean).join('_')}`
+        : name;
+    const sanitized = base.replace(/[^A-Za-z0-9_]/g, '_');
+
+    let operationId = sanitized;
+    for (let i = 2; operationIds.has(operationId); i++) {
+        operationId = `${sanitized}_${i}`;
+    }
+    operationIds.add(operationId);
+
+    return operationId;
+}
+
+function buildOperation(group: Tool[], operationIds: Set<string>): any {
+    const definitions = generateToolDefinitions(group);
+    const endpoints = group.flatMap(tool => tool.endpoints);
+    const graphqlTools = group.filter(tool => tool.graphql);
+
+    const operation: any = {
+        operationId: getOperationId(group, operationIds),
+        summary: graphqlTools.length > 0
+            ? `GraphQL operations: ${graphqlTools.map(tool => tool.graphql.operationName).join(', ')}`
+            : definitions[group[0].name].description,
+        parameters: [
+            ...buildPathParameters(group[0].pattern, endpoints),
+            ...buildQueryParameters(endpoints.filter(endpoint => !endpoint.graphql)),
+        ],
+    };
+
+    const requestBody = graphqlTools.length > 0
+        ? buildGraphQLRequestBody(graphqlTools)
+        : buildRequestBody(endpoints);
+    if (requestBody) {
+        operation.requestBody = requestBody;
+    }
+
+    operation.responses = buildResponses(group);
+
+    return operation;
+}
+
+function buildPathParameters(pattern: string, endpoints: ProcessedEndpointInfo[]): any[] {
+    return pattern
+        .split('/')
+        .filter(segment => segment.startsWith(':'))
+        .map(segment => {
+            const name = segment.substring(1);
+            const examples = getPathParamExamples(endpoints, name);
+            return {
+                name,
+                in: 'path',
+                required: true,
+                schema: { type: 'string', ...(examples.length > 0 ? { examples } : {}) },
+                ...(examples.length > 0 ? { example: examples[0] } : {}),
+            };
+        });
+}
+
+function buildQueryParameters(endpoints: ProcessedEndpointInfo[]): any[] {
+    const values = new Map<string, Set<string>>();
+    const counts = new Map<string, number>();
+
+    for (const endpoint of endpoints) {
+        const { searchParams } = new URL(endpoint.url);
+        for (const key of new Set(searchParams.keys())) {
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+            values.set(key, new Set([...(values.get(key) ?? []), ...searchParams.getAll(key)]));
+        }
+    }
+
+    return Array.from(values.entries()).map(([name, valueSet]) => {
+        const examples = Array.from(valueSet);
+        return {
+            name,
+            in: 'query',
+            // Only parameters sent with every request are considered required
+            required: counts.get(name) === endpoints.length,
+            schema: examples.length <= 5
+                ? { type: 'string', enum: examples }
+                : { type: 'string', examples: examples.slice(0, 3) },
+            example: examples[0],
+        };
+    });
+}
+
+function buildRequestBody(endpoints: ProcessedEndpointInfo[]): any | null {
+    const samples = endpoints.filter(endpoint => endpoint.method !== 'GET' && endpoint.requestPayload !== undefined);
+    if (samples.length === 0) {
+        return null;
+    }
+
+    const content: { [mediaType: string]: any } = {};
+    for (const [mediaType, group] of groupBy(samples, sample => getMediaType(getHeader(sample.requestHeaders, 'content-type')))) {
+        content[mediaType] = {
+            schema: mergeSchemas(group.map(sample => jsonToSchema(sample.requestPayload))),
+            example: group[0].requestPayload,
+        };
+    }
+
+    return { required: true, content };
+}
+
+// Every operation of the endpoint is one of the accepted bodies
+function buildGraphQLRequestBody(tools: Tool[]): any {
+    const schemas = tools.map(tool => {
+        const { operationName, query, key } = tool.graphql;
+        // Anonymous operations only have a generated name
+        const named = operationName === key;
+        return {
+            type: 'object',
+            title: operationName,
+            properties: {
+                ...(named ? { operationName: { const: operationName } } : {}),
+                query: { type: 'string', ...(query ? { examples: [query] } : {}) },
+                variables: mergeSchemas(tool.endpoints.map(endpoint => jsonToSchema(endpoint.requestPayload))),
+            },
+        };
+    });
+
+    return {
+        required: true,
+        content: {
+            'application/json': {
+                schema: schemas.length === 1 ? schemas[0] : { anyOf: schemas },
+            },
+        },
+    };
+}
+
+// Tools grouped in one operation answer with different shapes, so each one
+// is an alternative of the response schema
+function buildResponses(group: Tool[]): any {
+    const responses: { [status: string]: any } = {};
+    const endpoints = group.flatMap(tool => tool.endpoints);
+
+    for (const [status, byStatus] of groupBy(endpoints, endpoint => String(endpoint.responseStatus || 200))) {
+        const content: { [mediaType: string]: any } = {};
+        for (const [mediaType, samples] of groupBy(byStatus, endpoint => getMediaType(endpoint.responseContentType))) {
+            const schemas = group
+                .map(tool => samples.filter(sample => tool.endpoints.includes(sample)))
+                .filter(toolSamples => toolSamples.length > 0)
+                .map(toolSamples => mergeSchemas(toolSamples.map(sample => jsonToSchema(sample.responsePayload))));
+
+            content[mediaType] = {
+                schema: schemas.length === 1 ? schemas[0] : { anyOf: schemas },
+                example: samples[0].responsePayload,
+            };
+        }
+
+        responses[status] = {
+            description: STATUS_DESCRIPTIONS[status] ?? 'Response',
+            content,
+        };
+    }
+
+    return responses;
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const key = getKey(item);
+        groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+    return groups;
+}
@@ -0,0 +1,258 @@
+export type SegmentKind = 'id' | 'uuid' | 'hash' | 'date' | 'slug' | 'version' | 'word';
+
+export interface PathSample {
+    url: string;
+    responsePayload?: any;
+}
+
+interface TemplateSegment {
+    literal?: string;
+    kind?: SegmentKind;
+}
+
+interface SampleSegments {
+    index: number;
+    segments: string[];
+    responseKeys: Set<string>;
+}
+
+// Plain words only become a parameter once this many values were seen in
+// the same place, slugs as soon as they vary.
+const WORD_CARDINALITY = 4;
+const SLUG_CARDINALITY = 2;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const HASH_REGEX = /^[0-9a-f]{16,}$/i;
+const DATE_REGEX = /^\d{4}-\d{2}(-\d{2})?$/;
+const VERSION_REGEX = /^v\d+(\.\d+)*([a-z]+\d*)?$/i;
+const SLUG_REGEX = /^[a-z0-9]+(?:[-_][a-z0-9]+)+$/i;
+
+// Segments that are part of the API's address rather than a resource
+const NON_RESOURCE_SEGMENTS = ['api', 'rest', 'graphql', 'public', 'internal'];
+
+// Escapes like `%20` would otherwise pass for the digits of an id
+function decodeSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+export function classifySegment(encoded: string): SegmentKind {
+    const segment = decodeSegment(encoded);
+
+    if (/^\d+$/.test(segment)) return 'id';
+    if (UUID_REGEX.test(segment)) return 'uuid';
+    if (DATE_REGEX.test(segment)) return 'date';
+    if (VERSION_REGEX.test(segment)) return 'version';
+    if (HASH_REGEX.test(segment)) return 'hash';
+    // Opaque ids mix letters and digits, like `a8Fk29xQ`
+    if (segment.length >= 6 && /\d/.test(segment) && /[a-z]/i.test(segment) && !/[-_.]/.test(segment)) return 'id';
+    if (SLUG_REGEX.test(segment)) return 'slug';
+    return 'word';
+}
+
+// Whether a segment of this kind is a value even when seen only once
+function isValueKind(kind: SegmentKind): boolean {
+    return kind === 'id' || kind === 'uuid' || kind === 'hash' || kind === 'date';
+}
+
+// Segments stay percent-encoded, the way literals are put back into URLs.
+// Decoding could throw on a malformed escape, and turn `%2F` into a slash.
+function getSegments(url: string): string[] {
+    return new URL(url).pathname.split('/').filter(segment => segment.length > 0);
+}
+
+function getResponseKeys(response: any): Set<string> {
+    if (!response || typeof response !== 'object' || Array.isArray(response)) {
+        return new Set();
+    }
+    return new Set(Object.keys(response).map(key => key.toLowerCase()));
+}
+
+/**
+ * Resolves the segments from `position` on. At each position the values
+ * that look like ids, uuids, hashes or dates become a parameter. The other
+ * values stay literal, unless so many of them were seen in the same place,
+ * or they are followed by the same resource, that they must be values too. Values the response uses as a key, like
+ * `/stocks/IBM/price` returning `{ price }`, always stay literal.
+ */
+function resolveTemplates(
+    samples: SampleSegments[],
+    position: number,
+    template: TemplateSegment[],
+    templates: TemplateSegment[][],
+) {
+    if (samples.length === 0) return;
+
+    if (position === samples[0].segments.length) {
+        for (const sample of samples) {
+            templates[sample.index] = template;
+        }
+        return;
+    }
+
+    const isResponseKey = (sample: SampleSegments) =>
+        sample.responseKeys.has(sample.segments[position].toLowerCase());
+
+    const candidates = samples.filter(sample => !isResponseKey(sample));
+    const values = new Set(candidates.map(sample => sample.segments[position]));
+    const kinds = Array.from(values).map(classifySegment);
+
+    // Values followed by the same resource, like the owners in
+    // `/repos/octo/hello/issues` and `/repos/foo/bar/issues`, vary too
+    const sharedResourceAhead = position > 0 && samples[0].segments
+        .slice(position + 1)
+        .some((segment, offset) =>
+            !isValueKind(classifySegment(segment)) &&
+            samples.every(sample => sample.segments[position + 1 + offset] === segment));
+
+    const wholePosition = kinds.length > 0 && !kinds.includes('version') && (
+        values.size >= WORD_CARDINALITY ||
+        (values.size >= 2 && sharedResourceAhead) ||
+        (values.size >= SLUG_CARDINALITY && kinds.every(kind => kind === 'slug' || isValueKind(kind)))
+    );
+
+    const params: SampleSegments[] = [];
+    const literals = new Map<string, SampleSegments[]>();
+
+    for (const sample of samples) {
+        const segment = sample.segments[position];
+        const kind = classifySegment(segment);
+
+        if (!isResponseKey(sample) && (wholePosition || isValueKind(kind))) {
+            params.push(sample);
+        } else {
+            literals.set(segment, [...(literals.get(segment) ?? []), sample]);
+        }
+    }
+
+    if (params.length > 0) {
+        // The most specific kind seen names the parameter
+        const paramKinds = params.map(sample => classifySegment(sample.segments[position]));
+        const kind = (['uuid', 'hash', 'id', 'date', 'slug'] as SegmentKind[])
+            .find(candidate => paramKinds.includes(candidate)) ?? 'word';
+        resolveTemplates(params, position + 1, [...template, { kind }], templates);
+    }
+
+    for (const [literal, group] of literals) {
+        resolveTemplates(group, position + 1, [...template, { literal }], templates);
+    }
+}
+
+function toCamelCase(text: string): string {
+    const words = text.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+    return words
+        .map((word, index) => index === 0
+            ? word.charAt(0).toLowerCase() + word.substring(1)
+            : word.charAt(0).toUpperCase() + word.substring(1))
+        .join('');
+}
+
+function singularize(word: string): string {
+    if (/ies$/i.test(word) && word.length > 4) return word.slice(0, -3) + 'y';
+    if (/(ss|us|is)$/i.test(word)) return word;
+    if (/s$/i.test(word) && word.length > 3) return word.slice(0, -1);
+    return word;
+}
+
+const PARAM_SUFFIXES: { [kind in SegmentKind]: string } = {
+    id: 'Id',
+    uuid: 'Id',
+    hash: 'Id',
+    date: 'Date',
+    slug: 'Slug',
+    version: '',
+    word: '',
+};
+
+/**
+ * Names parameters after the resource before them, `/users/:userId`,
+ * falling back to their position when there is none.
+ */
+function toPattern(template: TemplateSegment[]): string {
+    const names = new Set<string>();
+
+    const segments = template.map((segment, index) => {
+        if (segment.literal !== undefined) {
+            return segment.literal;
+        }
+
+        const resource = template
+            .slice(0, index)
+            .reverse()
+            .find(previous => previous.literal !== undefined && classifySegment(previous.literal) !== 'version');
+
+        let name = resource
+            ? toCamelCase(singularize(resource.literal)) + PARAM_SUFFIXES[segment.kind]
+            : `param${index + 1}`;
+        if (!/^[a-zA-Z]/.test(name)) {
+            name = `param${index + 1}`;
+        }
+
+        const base = name;
+        for (let i = 2; names.has(name); i++) {
+            name = `${base}${i}`;
+        }
+        names.add(name);
+
+        return `:${name}`;
+    });
+
+    return '/' + segments.join('/');
+}
+
+/**
+ * Infers a path template for every sample, looking at all the URLs seen for
+ * the same origin and depth together. Returns the patterns in the order of
+ * the samples.
+ */
+export function inferPathTemplates(samples: PathSample[]): string[] {
+    const groups = new Map<string, SampleSegments[]>();
+
+    samples.forEach((sample, index) => {
+        const segments = getSegments(sample.url);
+        const key = `${new URL(sample.url).origin} ${segments.length}`;
+        groups.set(key, [...(groups.get(key) ?? []), {
+            index,
+            segments,
+            responseKeys: getResponseKeys(sample.responsePayload),
+        }]);
+    });
+
+    const templates: TemplateSegment[][] = [];
+    for (const group of groups.values()) {
+        resolveTemplates(group, 0, [], templates);
+    }
+
+    return templates.map(toPattern);
+}
+
+/**
+ * Builds a descriptive tool name from the method, host and resource, like
+ * `get_github_com_repos_by_repoId`. Names only contain characters accepted
+ * in function names by LLM APIs.
+ */
+export function getToolName(method: string, url: string, pattern: string, operationName?: string): string {
+    const host = new URL(url).hostname.replace(/^www\./, '');
+    const segments = pattern.split('/').filter(Boolean);
+
+    let resource: string;
+    if (operationName) {
+        resource = operationName;
+    } else {
+        const literals = segments.filter(segment =>
+            !segment.startsWith(':') &&
+            classifySegment(segment) !== 'version' &&
+            !NON_RESOURCE_SEGMENTS.includes(segment.toLowerCase()));
+        const last = segments[segments.length - 1];
+
+        resource = literals.join('_') || 'root';
+        if (last?.startsWith(':')) {
+            resource += `_by_${last.substring(1)}`;
+        }
+    }
+
+    return `${method.toLowerCase()}_${host}_${resource}`.replace(/[^a-zA-Z0-9_]+/g, '_');
+}
@@ -1,21 +1,49 @@
-import { createRxDatabase, RxDatabase, RxCollection, RxJsonSchema, RxCollectionCreator } from 'rxdb';
-import { getRxStorageDexie } from 'rxdb/plugins/storage-dexie';
+import { addRxPlugin, createRxDatabase, RxDatabase, RxCollection, RxJsonSchema, RxCollectionCreator, MigrationStrategies, RxStorage } from 'rxdb';
+import { getRxStorageLoki } from 'rxdb/plugins/storage-lokijs';
+import { RxDBMigrationSchemaPlugin } from 'rxdb/plugins/migration-schema';
 import { StoredCrawlData } from './crawl-store';
 import { StoredNetworkData, ToolDocument } from './network-store';
 import { getRxStorageMemory } from 'rxdb/plugins/storage-memory';
+import { getPath } from '~/utils/paths';
+import { ICrawlJobSnapshot } from '~/interfaces/crawl-job';
+import { ICrawlRevision } from '~/interfaces/crawl-revision';
+import { IPassage } from '~/interfaces/passage';
+import { INetworkStream } from '~/interfaces/network-stream';
+import { IStructuredRecord } from '~/interfaces/structured-data';
+import { mkdirSync } from 'fs';
+
+const LokiFsStructuredAdapter = require('lokijs/src/loki-fs-structured-adapter.js');
+
+addRxPlugin(RxDBMigrationSchemaPlugin);
 
 export type CrawlsCollection = RxCollection<StoredCrawlData>;
 export type NetworkCollection = RxCollection<StoredNetworkData>;
 export type ToolsCollection = RxCollection<ToolDocument>; // New collection type
+export type CrawlJobsCollection = RxCollection<ICrawlJobSnapshot>;
+export type RevisionsCollection = RxCollection<ICrawlRevision>;
+export type PassagesCollection = RxCollection<IPassage>;
+export type StreamsCollection = RxCollection<INetworkStream>;
+export type RecordsCollection = RxCollection<IStructuredRecord>;
 
 export type MyDatabaseCollections = {
     crawls: CrawlsCollection;
     network: NetworkCollection;
     tools: ToolsCollection; // Added Tools collection
+    crawljobs: CrawlJobsCollection;
+    revisions: RevisionsCollection;
+    passages: PassagesCollection;
+    streams: StreamsCollection;
+    records: RecordsCollection;
 };
 
+/**
+ * Every schema below is paired with a migration strategies map. When a schema
+ * changes, bump its `version` and add a strategy keyed by the new version that
+ * converts a document of the previous version, so databases persisted by an
+ * older build are upgraded on startup instead of rejected.
+ */
 const crawlSchema: RxJsonSchema<StoredCrawlData> = {
-    version: 0,
+    version: 3,
     type: 'object',
     primaryKey: 'urlHash',
     properties: {
@@ -23,20 +51,113 @@ const crawlSchema: RxJsonSchema<StoredCrawlData> = {
         url: { type: 'string', maxLength: 2000 },
         contentHash: { type: 'string', maxLength: 255 },
         timestamp: { type: 'integer', minimum: 0 },
-        content: { type: 'string', maxLength: 2000 },
+        // Whole documents are kept, passages are stored separately.
+        content: { type: 'string' },
         depth: { type: 'integer', minimum: 0 },
+        etag: { type: 'string' },
+        lastModified: { type: 'string' },
+        lastCheckedAt: { type: 'integer', minimum: 0 },
+        nextCheckAt: { type: 'integer', minimum: 0 },
+        recheckInterval: { type: 'integer', minimum: 0 },
+        lastVisitedAt: { type: 'integer', minimum: 0 },
+        previousVisitAt: { type: 'integer', minimum: 0 },
+        title: { type: 'string' },
+        byline: { type: 'string' },
+        publishedAt: { type: 'string' },
+        canonicalUrl: { type: 'string' },
     },
     required: ['urlHash', 'url', 'contentHash', 'timestamp', 'depth'],
 };
 
-const networkSchema: RxJsonSchema<StoredNetworkData> = {
+const crawlMigrationStrategies: MigrationStrategies = {
+    // 1: recrawl bookkeeping; existing pages are due for a check right away
+    1: (oldDoc: StoredCrawlData) => ({
+        ...oldDoc,
+        lastCheckedAt: oldDoc.timestamp,
+        nextCheckAt: oldDoc.timestamp,
+    }),
+    // 2: content is no longer capped at 2000 characters
+    2: (oldDoc: StoredCrawlData) => oldDoc,
+    // 3: article metadata, unknown until the page is crawled again
+    3: (oldDoc: StoredCrawlData) => oldDoc,
+};
+
+const revisionSchema: RxJsonSchema<ICrawlRevision> = {
+    version: 0,
+    type: 'object',
+    primaryKey: 'id',
+    properties: {
+        id: { type: 'string', maxLength: 300 },
+        urlHash: { type: 'string', maxLength: 255 },
+        url: { type: 'string' },
+        contentHash: { type: 'string' },
+        content: { type: 'string' },
+        timestamp: { type: 'integer', minimum: 0 },
+    },
+    required: ['id', 'urlHash', 'url', 'contentHash', 'content', 'timestamp'],
+    indexes: ['urlHash'],
+};
+
+const revisionMigrationStrategies: MigrationStrategies = {};
+
+const passageSchema: RxJsonSchema<IPassage> = {
+    version: 1,
+    type: 'object',
+    primaryKey: 'id',
+    properties: {
+        id: { type: 'string', maxLength: 300 },
+        urlHash: { type: 'string', maxLength: 255 },
+        url: { type: 'string' },
+        index: { type: 'integer', minimum: 0 },
+        text: { type: 'string' },
+        start: { type: 'integer', minimum: 0 },
+        end: { type: 'integer', minimum: 0 },
+        headings: { type: 'array', items: { type: 'string' } },
+        page: { type: 'integer', minimum: 1 },
+        contentHash: { type: 'string' },
+        embedding: { type: 'array', items: { type: 'number' } },
+        embeddingModel: { type: 'string' },
+    },
+    required: ['id', 'urlHash', 'url', 'index', 'text', 'start', 'end', 'headings', 'page', 'contentHash'],
+    indexes: ['urlHash'],
+};
+
+const passageMigrationStrategies: MigrationStrategies = {
+    // 1: optional embeddings, computed later by the embedding service
+    1: (oldDoc: IPassage) => oldDoc,
+};
+
+// Structured data found in crawled pages, stored next to their documents.
+const recordSchema: RxJsonSchema<IStructuredRecord> = {
     version: 0,
     type: 'object',
+    primaryKey: 'id',
+    properties: {
+        id: { type: 'string', maxLength: 300 },
+        urlHash: { type: 'string', maxLength: 255 },
+        url: { type: 'string' },
+        index: { type: 'integer', minimum: 0 },
+        source: { type: 'string', enum: ['json-ld', 'microdata', 'opengraph', 'twitter', 'table'] },
+        type: { type: 'string' },
+        kind: { type: 'string', maxLength: 20 },
+        entity: { type: 'object' },
+        data: { type: 'object' },
+        timestamp: { type: 'integer', minimum: 0 },
+    },
+    required: ['id', 'urlHash', 'url', 'index', 'source', 'type', 'kind', 'data', 'timestamp'],
+    indexes: ['urlHash'],
+};
+
+const recordMigrationStrategies: MigrationStrategies = {};
+
+const networkSchema: RxJsonSchema<StoredNetworkData> = {
+    version: 3,
+    type: 'object',
     primaryKey: 'requestId',
     properties: {
         requestId: { type: 'string', maxLength: 255 },
         urlHash: { type: 'string', maxLength: 255 },
-        url: { type: 'string', maxLength: 255 },
+        url: { type: 'string', maxLength: 2000 },
         baseUrl: { type: 'string', maxLength: 255 },
         path: { type: 'string', maxLength: 255 },
         queryParams: {
@@ -53,16 +174,23 @@ const networkSchema: RxJsonSchema<StoredNetworkData> = {
             type: 'object',
             additionalProperties: { type: 'string' },
         },
-        requestBody: { type: 'string', maxLength: 2000 },
+        // POST bodies and GraphQL queries are kept whole.
+        requestBody: { type: 'string' },
         responseStatus: { type: 'integer' },
         responseHeaders: {
             type: 'object',
             additionalProperties: { type: 'string' },
         },
-        responseBody: { type: 'string', maxLength: 2000 },
+        responseBody: { type: 'string' },
         contentHash: { type: 'string', maxLength: 255 },
         timestamp: { type: 'integer', minimum: 0 },
         parentUrlHash: { type: 'string', maxLength: 255 },
+        tabId: { type: 'integer' },
+        duration: { type: 'number', minimum: 0 },
+        timings: {
+            type: 'object',
+            additionalProperties: { type: 'number' },
+        },
     },
     required: [
         'requestId',
@@ -78,19 +206,62 @@ const networkSchema: RxJsonSchema<StoredNetworkData> = {
     ],
 };
 
-const toolSchema: RxJsonSchema<ToolDocument> = { // New schema for ToolDocument
+const networkMigrationStrategies: MigrationStrategies = {
+    // 1: non-GET requests are captured, bodies and URLs lost their length caps
+    1: (oldDoc: StoredNetworkData) => oldDoc,
+    // 2: requests remember the tab they were made by, unknown for older ones
+    2: (oldDoc: StoredNetworkData) => oldDoc,
+    // 3: timings of the requests are captured, unknown for older ones
+    3: (oldDoc: StoredNetworkData) => oldDoc,
+};
+
+const streamSchema: RxJsonSchema<INetworkStream> = {
     version: 0,
     type: 'object',
+    primaryKey: 'id',
+    properties: {
+        id: { type: 'string', maxLength: 255 },
+        kind: { type: 'string', enum: ['websocket', 'sse'] },
+        url: { type: 'string' },
+        baseUrl: { type: 'string', maxLength: 255 },
+        tabId: { type: 'integer' },
+        openedAt: { type: 'integer', minimum: 0 },
+        closedAt: { type: 'integer', minimum: 0 },
+        updatedAt: { type: 'integer', minimum: 0 },
+        messages: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    direction: { type: 'string', enum: ['sent', 'received'] },
+                    data: { type: 'string' },
+                    event: { type: 'string' },
+                    timestamp: { type: 'integer', minimum: 0 },
+                },
+                required: ['direction', 'data', 'timestamp'],
+            },
+        },
+    },
+    required: ['id', 'kind', 'url', 'baseUrl', 'openedAt', 'updatedAt', 'messages'],
+};
+
+const streamMigrationStrategies: MigrationStrategies = {};
+
+const toolSchema: RxJsonSchema<ToolDocument> = { // New schema for ToolDocument
+    version: 1,
+    type: 'object',
     primaryKey: 'name', // Assuming 'name' is unique for each tool
     properties: {
         name: { type: 'string', maxLength: 255 },
         pattern: { type: 'string', maxLength: 1000 },
+        method: { type: 'string', maxLength: 10 },
         endpoints: {
             type: 'array',
             items: {
                 type: 'object',
                 properties: {
                     url: { type: 'string', maxLength: 2000 },
+                    method: { type: 'string', maxLength: 10 },
                     requestPayload: { type: 'object' },
                     responsePayload: { type: 'object' },
                     pathInfo: {
@@ -116,26 +287,130 @@ const toolSchema: RxJsonSchema<ToolDocument> = { // New schema for ToolDocument
             },
         },
     },
-    required: ['name', 'pattern', 'endpoints', 'queryParamOptions'],
+    required: ['name', 'pattern', 'method', 'endpoints', 'queryParamOptions'],
 };
 
 
-export async function createDatabase(): Promise<RxDatabase<MyDatabaseCollections>> {
+const toolMigrationStrategies: MigrationStrategies = {
+    // 1: tools carry the HTTP method of their endpoints
+    1: (oldDoc: ToolDocument) => ({
+        ...oldDoc,
+        method: 'GET',
+        endpoints: oldDoc.endpoints.map(endpoint => ({ ...endpoint, method: 'GET' })),
+    }),
+};
+
+const crawlJobSchema: RxJsonSchema<ICrawlJobSnapshot> = {
+    version: 1,
+    type: 'object',
+    primaryKey: 'id',
+    properties: {
+        id: { type: 'string', maxLength: 100 },
+        name: { type: 'string', maxLength: 255 },
+        seedUrl: { type: 'string', maxLength: 2000 },
+        maxDepth: { type: 'integer', minimum: 0 },
+        maxPages: { type: 'integer', minimum: -1 },
+        concurrency: { type: 'integer', minimum: 1 },
+        state: {
+            type: 'string',
+            enum: ['queued', 'running', 'paused', 'cancelled', 'done'],
+        },
+        crawledCount: { type: 'integer', minimum: 0 },
+        failedCount: { type: 'integer', minimum: 0 },
+        createdAt: { type: 'integer', minimum: 0 },
+        updatedAt: { type: 'integer', minimum: 0 },
+        frontier: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    url: { type: 'string', maxLength: 2000 },
+                    depth: { type: 'integer', minimum: 0 },
+                    retries: { type: 'integer', minimum: 0 },
+                },
+                required: ['url', 'depth'],
+            },
+        },
+        visited: {
+            type: 'array',
+            items: { type: 'string' },
+        },
+    },
+    required: ['id', 'name', 'seedUrl', 'maxDepth', 'maxPages', 'concurrency', 'state', 'frontier', 'visited'],
+};
+
+const crawlJobMigrationStrategies: MigrationStrategies = {
+    // 1: frontier entries gained an optional retry counter
+    1: (oldDoc: ICrawlJobSnapshot) => oldDoc,
+};
+
+const DATABASE_NAME = 'albert';
+
+let databasePromise: Promise<RxDatabase<MyDatabaseCollections>> = null;
+
+/**
+ * Picks the storage backend. In the main process the database is persisted
+ * to the user data directory, anywhere else it falls back to memory.
+ */
+function getStorage(): { name: string; storage: RxStorage<any, any> } {
+    const path = getPath('storage', DATABASE_NAME);
+
+    if (!path) {
+        return { name: DATABASE_NAME, storage: getRxStorageMemory() };
+    }
+
+    mkdirSync(getPath('storage'), { recursive: true });
+
+    return {
+        name: path,
+        storage: getRxStorageLoki({
+            adapter: new LokiFsStructuredAdapter(),
+            autoload: true,
+            autosave: true,
+            autosaveInterval: 5000,
+        }),
+    };
+}
+
+async function initializeDatabase(): Promise<RxDatabase<MyDatabaseCollections>> {
+    const { name, storage } = getStorage();
     const db = await createRxDatabase<MyDatabaseCollections>({
-        name: 'albert',
-        storage: getRxStorageMemory(),
-        // storage: getRxStorageDexie(),
-        ignoreDuplicate: true
+        name,
+        storage,
+        ignoreDuplicate: true,
     });
     const collections: { [key in keyof MyDatabaseCollections]: RxCollectionCreator } = {
         crawls: {
             schema: crawlSchema,
+            migrationStrategies: crawlMigrationStrategies,
         },
         network: {
             schema: networkSchema,
+            migrationStrategies: networkMigrationStrategies,
         },
-        tools: { // Added Tools collection
+        tools: {
             schema: toolSchema,
+            migrationStrategies: toolMigrationStrategies,
+        },
+        crawljobs: {
+            schema: crawlJobSchema,
+            migrationStrategies: crawlJobMigrationStrategies,
+        },
+        revisions: {
+            schema: revisionSchema,
+            migrationStrategies: revisionMigrationStrategies,
+        },
+        passages: {
+            schema: passageSchema,
+            migrationStrategies: passageMigrationStrategies,
+        },
+        streams: {
+            schema: streamSchema,
+            migrationStrategies: streamMigrationStrategies,
+        },
+        records: {
+            schema: recordSchema,
+            migrationStrategies: recordMigrationStrategies,
         },
     };
 
@@ -143,3 +418,18 @@ export async function createDatabase(): Promise<RxDatabase<MyDatabaseCollections
 
     return db;
 }
+
+/**
+ * Returns the shared database. Every store goes through here so that only
+ * one instance ever writes to the persisted files.
+ */
+export function createDatabase(): Promise<RxDatabase<MyDatabaseCollections>> {
+    if (!databasePromise) {
+        databasePromise = initializeDatabase().catch((error) => {
+            databasePromise = null;
+            throw error;
+        });
+    }
+
+    return databasePromise;
+}
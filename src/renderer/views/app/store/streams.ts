@@ -0,0 +1,311 @@
+import { INetworkStream, INetworkStreamMessage, NetworkStreamKind } from '~/interfaces';
+import { getToolName, inferPathTemplates } from './path-inference';
+import {
+    getQueryTerms,
+    getSchemaFieldNames,
+    jsonToSchema,
+    matchToolTerms,
+    mergeSchemas,
+    MAX_TOOL_NAME_LENGTH,
+    ToolSearchResult,
+} from './tools';
+
+// Fields that usually tell the kinds of messages of a channel apart
+const DISCRIMINATOR_KEYS = ['type', 'event', 'op', 'action', 'channel', 'topic', 'method', 'e'];
+// More kinds than this and the field is more likely data than a kind
+const MAX_MESSAGE_KINDS = 20;
+const MAX_EXAMPLES = 3;
+const MAX_EXAMPLE_LENGTH = 100;
+
+// The event name of Server-Sent Events sent without one
+const DEFAULT_EVENT = 'message';
+
+// Connections of the same kind, origin and path pattern
+export interface StreamTool {
+    name: string;
+    kind: NetworkStreamKind;
+    baseUrl: string;
+    pattern: string;
+    streams: INetworkStream[];
+}
+
+export class StreamCollector {
+    private streams: INetworkStream[] = [];
+    // Built from all the connections at once, like the REST tools
+    private tools: StreamTool[] | null = null;
+
+    processStream(stream: INetworkStream) {
+        this.streams.push(stream);
+        this.tools = null;
+    }
+
+    private buildTools(): StreamTool[] {
+        const patterns = inferPathTemplates(this.streams.map(stream => ({ url: stream.url })));
+
+        const groups = new Map<string, { pattern: string; streams: INetworkStream[] }>();
+        this.streams.forEach((stream, index) => {
+            const key = [stream.kind, stream.baseUrl, patterns[index]].join(' ');
+            const group = groups.get(key) ?? { pattern: patterns[index], streams: [] };
+            group.streams.push(stream);
+            groups.set(key, group);
+        });
+
+        const names = new Set<string>();
+        const tools: StreamTool[] = [];
+
+        for (const { pattern, streams } of groups.values()) {
+            const { kind, url, baseUrl } = streams[0];
+            const base = getToolName('subscribe', url, pattern).substring(0, MAX_TOOL_NAME_LENGTH - 3);
+
+            let name = base;
+            for (let i = 2; names.has(name); i++) {
+                name = `${base}_${i}`;
+            }
+            names.add(name);
+
+            tools.push({ name, kind, baseUrl, pattern, streams });
+        }
+
+        return tools;
+    }
+
+    getTools(): StreamTool[] {
+        if (!this.tools) {
+            this.tools = this.buildTools();
+        }
+        return this.tools;
+    }
+
+    getTool(name: string): StreamTool | null {
+        return this.getTools().find(tool => tool.name === name) ?? null;
+    }
+
+    /**
+     * Ranks the channels against a query the same way as the REST tools,
+     * with the fields of their messages as the response fields.
+     */
+    searchTools(query: string, topK: number = 10): ToolSearchResult[] {
+        const terms = getQueryTerms(query);
+        if (terms.length === 0) return [];
+
+        const results: ToolSearchResult[] = [];
+
+        for (const tool of this.getTools()) {
+            const definition = generateStreamToolDefinitions([tool])[tool.name];
+            const responseSchema = getReceivedSchema(tool);
+
+            // The kinds of messages count as field names
+            const { score, matchedTerms } = matchToolTerms(terms, tool.name, tool.pattern, [
+                ...getSchemaFieldNames(definition.parameters),
+                ...getSchemaFieldNames(responseSchema),
+                ...(responseSchema.anyOf ?? []).map((schema: any) => schema.title).filter(Boolean),
+            ]);
+
+            if (score === 0) continue;
+
+            results.push({
+                name: tool.name,
+                pattern: tool.pattern,
+                score,
+                description: definition.description,
+                parameters: definition.parameters,
+                responseSchema,
+                matchedTerms,
+            });
+        }
+
+        return results
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+}
+
+/**
+ * Describes the channels as tools to subscribe to. Their parameters are
+ * those of the URL the connection is opened with, and the messages they
+ * carry are described by schemas inferred from the captured ones.
+ */
+export function generateStreamToolDefinitions(tools: StreamTool[]) {
+    const toolDefinitions: { [key: string]: any } = {};
+
+    for (const tool of tools) {
+        const { name, kind, pattern, baseUrl } = tool;
+        const host = new URL(baseUrl).host;
+        const messages = tool.streams.flatMap(stream => stream.messages);
+
+        toolDefinitions[name] = {
+            description: kind === 'websocket'
+                ? `Subscribes to the WebSocket ${pattern} on ${host}.`
+                : `Subscribes to the event stream ${pattern} on ${host}.`,
+            kind,
+            subscribe: true,
+            parameters: getParameters(tool),
+            ...(kind === 'websocket'
+                ? {
+                    messages: {
+                        received: inferMessageSchema(messages.filter(message => message.direction === 'received')),
+                        sent: inferMessageSchema(messages.filter(message => message.direction === 'sent')),
+                    },
+                }
+                : { events: getEventSchemas(messages) }),
+        };
+    }
+
+    return toolDefinitions;
+}
+
+/**
+ * Whether a connection is one of the channels of a tool. Parameters of the
+ * pattern match any segment.
+ */
+export function matchStreamTool(tool: StreamTool, kind: NetworkStreamKind, url: string): boolean {
+    const parsedUrl = new URL(url);
+    if (kind !== tool.kind || parsedUrl.origin !== tool.baseUrl) {
+        return false;
+    }
+
+    const segments = parsedUrl.pathname.split('/').filter(Boolean);
+    const patternSegments = tool.pattern.split('/').filter(Boolean);
+
+    return segments.length === patternSegments.length &&
+        patternSegments.every((segment, i) => segment.startsWith(':') || segment === segments[i]);
+}
+
+/**
+ * Infers a JSON Schema for the messages of a channel. When the messages
+ * are objects told apart by a field like `type`, each kind gets a schema
+ * of its own. Messages that aren't JSON are described as strings.
+ */
+export function inferMessageSchema(messages: INetworkStreamMessage[]): any {
+    if (messages.length === 0) {
+        return {};
+    }
+
+    const payloads = messages.map(message => parseMessage(message.data));
+    const objects = payloads.filter(payload => payload && typeof payload === 'object' && !Array.isArray(payload));
+
+    if (objects.length === 0 && payloads.every(payload => typeof payload === 'string')) {
+        const examples = Array.from(new Set(payloads as string[]))
+            .slice(0, MAX_EXAMPLES)
+            .map(example => example.substring(0, MAX_EXAMPLE_LENGTH));
+        return { type: 'string', examples };
+    }
+
+    const key = objects.length === payloads.length ? getDiscriminator(objects) : null;
+    if (!key) {
+        return mergeSchemas(payloads.map(jsonToSchema));
+    }
+
+    const kinds = new Map<string, any[]>();
+    for (const payload of objects) {
+        kinds.set(payload[key], [...(kinds.get(payload[key]) ?? []), payload]);
+    }
+
+    return {
+        anyOf: Array.from(kinds.entries()).map(([value, group]) => {
+            const schema = mergeSchemas(group.map(jsonToSchema));
+            return {
+                ...schema,
+                title: value,
+                properties: { ...schema.properties, [key]: { type: 'string', const: value } },
+            };
+        }),
+    };
+}
+
+// Schemas of the events of a stream, by event name
+function getEventSchemas(messages: INetworkStreamMessage[]): { [event: string]: any } {
+    const events = new Map<string, INetworkStreamMessage[]>();
+    for (const message of messages) {
+        const event = message.event || DEFAULT_EVENT;
+        events.set(event, [...(events.get(event) ?? []), message]);
+    }
+
+    const schemas: { [event: string]: any } = {};
+    for (const [event, group] of events.entries()) {
+        schemas[event] = inferMessageSchema(group);
+    }
+    return schemas;
+}
+
+function getReceivedSchema(tool: StreamTool): any {
+    const messages = tool.streams.flatMap(stream => stream.messages);
+    if (tool.kind === 'websocket') {
+        return inferMessageSchema(messages.filter(message => message.direction === 'received'));
+    }
+    return {
+        anyOf: Object.entries(getEventSchemas(messages)).map(([event, schema]) => ({ ...schema, title: event })),
+    };
+}
+
+// A string field every message has, with a few distinct values
+function getDiscriminator(objects: any[]): string | null {
+    for (const key of DISCRIMINATOR_KEYS) {
+        const values = new Set<string>();
+        const isDiscriminator = objects.every(object => {
+            if (typeof object[key] !== 'string') return false;
+            values.add(object[key]);
+            return values.size <= MAX_MESSAGE_KINDS;
+        });
+        if (isDiscriminator && values.size > 1) {
+            return key;
+        }
+    }
+    return null;
+}
+
+function parseMessage(data: string): any {
+    try {
+        return JSON.parse(data);
+    } catch {
+        return data;
+    }
+}
+
+// The path and query parameters of the URLs the connections were opened with
+function getParameters(tool: StreamTool): any {
+    const parameters: any = {
+        type: 'object',
+        properties: {},
+        required: [],
+    };
+
+    const patternSegments = tool.pattern.split('/').filter(Boolean);
+    const examples = new Map<string, Set<string>>();
+    const queryValues = new Map<string, Set<string>>();
+
+    for (const stream of tool.streams) {
+        const url = new URL(stream.url);
+        const segments = url.pathname.split('/').filter(Boolean);
+        patternSegments.forEach((segment, i) => {
+            if (segment.startsWith(':') && segments[i]) {
+                const name = segment.substring(1);
+                examples.set(name, (examples.get(name) ?? new Set()).add(segments[i]));
+            }
+        });
+        for (const [key, value] of url.searchParams.entries()) {
+            queryValues.set(key, (queryValues.get(key) ?? new Set()).add(value));
+        }
+    }
+
+    for (const [name, values] of examples.entries()) {
+        parameters.properties[name] = {
+            type: 'string',
+            description: `The ${name} parameter. Examples: ${Array.from(values).slice(0, 5).join(', ')}.`,
+        };
+        parameters.required.push(name);
+    }
+
+    for (const [key, valueSet] of queryValues.entries()) {
+        const values = Array.from(valueSet);
+        parameters.properties[key] = values.length <= 5
+            ? { type: 'string', enum: values, description: `Possible values for ${key}.` }
+            : {
+                type: 'string',
+                description: `The ${key} parameter. Examples: ${values.slice(0, MAX_EXAMPLES).join(', ')}, etc.`,
+            };
+        parameters.required.push(key);
+    }
+
+    return parameters;
+}
@@ -1,16 +1,84 @@
 import { createSchema } from 'genson-js';
+import { tokenize } from '~/utils/bm25';
+import { IGraphQLOperation, parseGraphQLRequest } from '~/utils/graphql';
+import { getToolName, inferPathTemplates } from './path-inference';
 
 export interface RequestResponsePair {
     url: string;
     requestPayload: any;
     responsePayload: any;
+    requestHeaders?: Record<string, string>;
+    method?: string;
+    responseStatus?: number;
+    responseContentType?: string;
 }
 export interface StorableTool {
     name: string;
     pattern: string;
+    method: string;
     endpoints: ProcessedEndpointInfo[];
     queryParamOptions: { [key: string]: string[] };
 }
+export interface ToolSearchResult {
+    name: string;
+    pattern: string;
+    score: number;
+    description: string;
+    parameters: any;
+    responseSchema: any;
+    // Query terms found in the name, pattern or schema fields.
+    matchedTerms: string[];
+}
+
+// Everything needed to call a tool again
+export interface ExecutableTool {
+    name: string;
+    baseUrl: string;
+    pattern: string;
+    method: string;
+    // The most recent capture of the operation, for GraphQL tools
+    graphql?: IGraphQLOperation;
+    parameters: any;
+    responseSchema: any;
+    // Headers of the most recent capture, without the ones the session provides
+    requestHeaders: Record<string, string>;
+}
+
+export interface ToolRequest {
+    url: string;
+    method: string;
+    body?: string;
+}
+
+export interface ToolExecutionResult {
+    url: string;
+    status: number;
+    body: any;
+    // Whether the response matches the schema learned from the captures
+    valid: boolean;
+    errors: string[];
+}
+
+// Headers that are recomputed on every request rather than replayed
+const NON_REPLAYABLE_HEADERS = [
+    'host',
+    'cookie',
+    'user-agent',
+    'content-length',
+    'connection',
+    'accept-encoding',
+    'origin',
+    'referer',
+];
+
+// How much a query term counts depending on where it is found.
+const NAME_WEIGHT = 3;
+const PATTERN_WEIGHT = 2;
+const FIELD_WEIGHT = 1;
+
+// Longest function name LLM APIs accept, including the suffix of duplicates
+export const MAX_TOOL_NAME_LENGTH = 64;
+
 export interface PathInfo {
     path: string; // Generalized path
     queryParams: {
@@ -20,23 +88,30 @@ export interface PathInfo {
 
 export interface ProcessedEndpointInfo {
     url: string;
+    method: string;
+    // Raw request body as captured
+    requestBody?: any;
+    // Parsed request body, or the variables of a GraphQL operation
     requestPayload: any;
     responsePayload: any;
+    requestHeaders?: Record<string, string>;
+    responseStatus?: number;
+    responseContentType?: string;
+    graphql?: IGraphQLOperation;
     pathInfo: PathInfo;
-    schemaSignature: string;
 }
 
 export class Tool implements StorableTool {
     name: string;
     pattern: string;
+    method: string;
     endpoints: ProcessedEndpointInfo[] = [];
     private _queryParamOptions: { [key: string]: Set<string> } = {};
-    schemaSignature: string;
 
-    constructor(name: string, pattern: string, schemaSignature: string) {
+    constructor(name: string, pattern: string, method: string = 'GET') {
         this.name = name;
         this.pattern = pattern;
-        this.schemaSignature = schemaSignature;
+        this.method = method;
     }
 
     addEndpoint(endpoint: ProcessedEndpointInfo) {
@@ -44,7 +119,17 @@ export class Tool implements StorableTool {
         this.updateQueryParamOptions(endpoint);
     }
 
+    // The GraphQL operation the tool runs, if any
+    get graphql(): IGraphQLOperation | undefined {
+        return this.endpoints[this.endpoints.length - 1]?.graphql;
+    }
+
     private updateQueryParamOptions(endpoint: ProcessedEndpointInfo) {
+        if (endpoint.graphql) {
+            // The operation is sent in the query string of GraphQL GETs
+            return;
+        }
+
         const url = new URL(endpoint.url);
         for (const [key, value] of url.searchParams.entries()) {
             if (!this._queryParamOptions[key]) {
@@ -61,6 +146,16 @@ export class Tool implements StorableTool {
         return result;
     }
 
+    // The origin most of the endpoints were captured from
+    get baseUrl(): string {
+        const counts = new Map<string, number>();
+        for (const endpoint of this.endpoints) {
+            const origin = new URL(endpoint.url).origin;
+            counts.set(origin, (counts.get(origin) ?? 0) + 1);
+        }
+        return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+    }
+
     getQueryParamPermutations(): { [key: string]: string[] } {
         const permutations: { [key: string]: string[] } = {};
         for (const [key, values] of Object.entries(this.queryParamOptions)) {
@@ -72,36 +167,38 @@ export class Tool implements StorableTool {
 
 export class EndpointCollector {
     private endpoints: ProcessedEndpointInfo[] = [];
-    private tools: Tool[] = [];
+    // Built from all the endpoints at once, since templating a path depends
+    // on the other paths seen. Cleared whenever an endpoint is added.
+    private tools: Tool[] | null = null;
 
     processEndpoint(pair: RequestResponsePair) {
-        if (this.endpoints.find(ep => ep.url === pair.url)) {
-            return; // Skip if we've already processed this exact URL
+        const method = (pair.method ?? 'GET').toUpperCase();
+        const graphql = parseGraphQLRequest(pair.url, method, pair.requestPayload) ?? undefined;
+
+        if (this.endpoints.find(ep => ep.url === pair.url && ep.method === method && ep.requestBody === pair.requestPayload)) {
+            return; // Skip if we've already processed this exact request
         }
 
-        const pathInfo = this.extractPathInfo(pair.url, pair.responsePayload);
-        const schemaSignature = this.generateSchemaSignature(pair.requestPayload, pair.responsePayload);
+        const requestPayload = graphql
+            ? graphql.variables
+            : parseRequestBody(pair.requestPayload, getHeader(pair.requestHeaders, 'content-type'));
 
+        const parsedUrl = new URL(pair.url);
         const processedInfo: ProcessedEndpointInfo = {
             ...pair,
-            pathInfo,
-            schemaSignature
+            method,
+            requestBody: pair.requestPayload,
+            requestPayload,
+            graphql,
+            // The path is templated once all the endpoints are known
+            pathInfo: {
+                path: parsedUrl.pathname,
+                queryParams: graphql ? {} : this.determineQueryParams(parsedUrl.searchParams),
+            },
         };
 
         this.endpoints.push(processedInfo);
-        this.assignToTool(processedInfo);
-    }
-
-    private extractPathInfo(url: string, response: any): PathInfo {
-        const parsedUrl = new URL(url);
-        const queryParams = this.determineQueryParams(parsedUrl.searchParams);
-
-        const generalizedPath = this.generalizePath(parsedUrl.pathname, response);
-
-        return {
-            path: generalizedPath,
-            queryParams
-        };
+        this.tools = null;
     }
 
     private determineQueryParams(
@@ -119,114 +216,133 @@ export class EndpointCollector {
         return value.length > 5 ? 'dynamic' : 'enum';
     }
 
-    private generalizePath(path: string, response: any): string {
-        const segments = path.split('/').filter(seg => seg.length > 0);
-        const operations = Object.keys(response).map(key => key.toLowerCase());
-
-        return '/' + segments.map((segment, index) => {
-            if (operations.includes(segment.toLowerCase())) {
-                return segment;
-            } else if (index === 0) {
-                // Assume the first segment is a resource and keep it
-                return segment;
-            } else {
-                return `:param${index}`;
-            }
-        }).join('/');
+    jsonToSchema(obj: any): any {
+        return jsonToSchema(obj);
     }
 
-    private generateSchemaSignature(request: any, response: any): string {
-        const requestSchema = this.jsonToSchema(request);
-        const responseSchema = this.jsonToSchema(response);
-        return JSON.stringify({ requestSchema, responseSchema });
+    mergeSchemas(schemas: any[]): any {
+        return mergeSchemas(schemas);
     }
 
-    private jsonToSchema(obj: any): any {
-        try {
-            return createSchema(obj);
-        } catch (error) {
-            console.log(`Error creating schema for: ${obj}`, error);
-            return {};
-        }
-    }
-
-
-
-    private mergeSchemas(schemas: any[]): any {
-        if (schemas.length === 0) {
-            return {};
-        }
+    private buildTools(): Tool[] {
+        // GraphQL operations share one endpoint, so its path is kept as is
+        const restEndpoints = this.endpoints.filter(endpoint => !endpoint.graphql);
+        const patterns = inferPathTemplates(restEndpoints.map(endpoint => ({
+            url: endpoint.url,
+            responsePayload: endpoint.responsePayload,
+        })));
+        restEndpoints.forEach((endpoint, index) => {
+            endpoint.pathInfo = { ...endpoint.pathInfo, path: patterns[index] };
+        });
 
-        if (schemas.length === 1) {
-            return schemas[0];
+        // Endpoints of the same origin, method and pattern make one tool.
+        // GraphQL operations are told apart by the operation alone.
+        const groups = new Map<string, ProcessedEndpointInfo[]>();
+        for (const endpoint of this.endpoints) {
+            const key = [
+                new URL(endpoint.url).origin,
+                endpoint.method,
+                endpoint.pathInfo.path,
+                endpoint.graphql?.key ?? '',
+            ].join(' ');
+            groups.set(key, [...(groups.get(key) ?? []), endpoint]);
         }
 
-        const types = new Set<string>();
-        const mergedProperties: { [key: string]: any } = {};
-        let mergedRequired: string[] = [];
+        const names = new Set<string>();
+        const tools: Tool[] = [];
 
-        schemas.forEach(schema => {
-            if (schema.type) {
-                types.add(schema.type);
-            }
+        for (const endpoints of groups.values()) {
+            const { url, method, pathInfo, graphql } = endpoints[0];
+            const base = getToolName(method, url, pathInfo.path, graphql?.operationName).substring(0, MAX_TOOL_NAME_LENGTH - 3);
 
-            if (schema.type === 'object' && schema.properties) {
-                for (const [key, value] of Object.entries(schema.properties)) {
-                    if (!mergedProperties[key]) {
-                        mergedProperties[key] = value;
-                        if (schema.required && schema.required.includes(key)) {
-                            mergedRequired.push(key);
-                        }
-                    } else {
-                        mergedProperties[key] = this.mergeSchemas([mergedProperties[key], value]);
-                    }
-                }
+            let name = base;
+            for (let i = 2; names.has(name); i++) {
+                name = `${base}_${i}`;
             }
-        });
-
-        const mergedSchema: any = {};
+            names.add(name);
 
-        if (types.size === 1) {
-            mergedSchema.type = Array.from(types)[0];
-        } else {
-            mergedSchema.type = Array.from(types);
+            const tool = new Tool(name, pathInfo.path, method);
+            endpoints.forEach(endpoint => tool.addEndpoint(endpoint));
+            tools.push(tool);
         }
 
-        if (Object.keys(mergedProperties).length > 0) {
-            mergedSchema.properties = mergedProperties;
-            mergedSchema.required = Array.from(new Set(mergedRequired));
+        return tools;
+    }
+
+    getTools(): Tool[] {
+        if (!this.tools) {
+            this.tools = this.buildTools();
         }
+        return this.tools;
+    }
 
-        return mergedSchema;
+    getResponseSchema(tool: Tool): any {
+        return this.mergeSchemas(tool.endpoints.map(endpoint => this.jsonToSchema(endpoint.responsePayload)));
     }
 
-    private assignToTool(endpoint: ProcessedEndpointInfo) {
-        // Check if a tool with the same path and schema signature exists
-        const existingTool = this.tools.find(
-            tool =>
-                tool.pattern === endpoint.pathInfo.path &&
-                tool.schemaSignature === endpoint.schemaSignature
-        );
+    getExecutableTool(name: string): ExecutableTool | null {
+        const tool = this.getTools().find(tool => tool.name === name);
+        if (!tool) {
+            return null;
+        }
 
-        if (existingTool) {
-            existingTool.addEndpoint(endpoint);
-        } else {
-            // Create a new tool
-            const toolName = this.extractToolName(endpoint.pathInfo.path);
-            const newTool = new Tool(toolName, endpoint.pathInfo.path, endpoint.schemaSignature);
-            newTool.addEndpoint(endpoint);
-            this.tools.push(newTool);
+        const requestHeaders: Record<string, string> = {};
+        const lastCapture = [...tool.endpoints].reverse().find(endpoint => endpoint.requestHeaders);
+        for (const [key, value] of Object.entries(lastCapture?.requestHeaders ?? {})) {
+            const header = key.toLowerCase();
+            if (!header.startsWith(':') && !header.startsWith('sec-') && !NON_REPLAYABLE_HEADERS.includes(header)) {
+                requestHeaders[key] = value;
+            }
         }
-    }
 
-    private extractToolName(pattern: string): string {
-        // Extract the first segment as the tool name
-        const segments = pattern.split('/');
-        return segments.length > 1 ? segments[1] : 'unknown';
+        return {
+            name: tool.name,
+            baseUrl: tool.baseUrl,
+            pattern: tool.pattern,
+            method: tool.method,
+            graphql: tool.graphql,
+            parameters: generateToolDefinitions([tool])[tool.name].parameters,
+            responseSchema: this.getResponseSchema(tool),
+            requestHeaders,
+        };
     }
 
-    getTools(): Tool[] {
-        return this.tools;
+    /**
+     * Ranks the collected tools against a query. Terms found in the tool
+     * name weigh the most, then the path pattern, then the parameter and
+     * response field names.
+     */
+    searchTools(query: string, topK: number = 10): ToolSearchResult[] {
+        const terms = getQueryTerms(query);
+        if (terms.length === 0) return [];
+
+        const results: ToolSearchResult[] = [];
+
+        for (const tool of this.getTools()) {
+            const responseSchemas = tool.endpoints.map(endpoint => this.jsonToSchema(endpoint.responsePayload));
+            const definition = generateToolDefinitions([tool])[tool.name];
+
+            const { score, matchedTerms } = matchToolTerms(terms, tool.name, tool.pattern, [
+                ...getSchemaFieldNames(definition.parameters),
+                ...responseSchemas.flatMap(getSchemaFieldNames),
+            ]);
+
+            if (score === 0) continue;
+
+            results.push({
+                name: tool.name,
+                pattern: tool.pattern,
+                score,
+                description: definition.description,
+                parameters: definition.parameters,
+                responseSchema: this.getResponseSchema(tool),
+                matchedTerms,
+            });
+        }
+
+        return results
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
     }
 
     finalize() {
@@ -332,7 +448,7 @@ export function generateToolDefinitions(tools: Tool[]) {
     const toolDefinitions: { [key: string]: any } = {};
 
     for (const toolItem of tools) {
-        const { name, pattern, endpoints, queryParamOptions } = toolItem;
+        const { name, pattern, method, endpoints, queryParamOptions, graphql } = toolItem;
 
         // Extract path parameters from the pattern
         const pathParams: string[] = [];
@@ -354,6 +470,8 @@ export function generateToolDefinitions(tools: Tool[]) {
         for (const paramName of pathParams) {
             parameters.properties[paramName] = {
                 type: 'string',
+                // An empty segment would turn the path into another URL
+                minLength: 1,
                 description: `The ${paramName} parameter. Examples: ${getPathParamExamples(
                     endpoints,
                     paramName
@@ -383,9 +501,35 @@ export function generateToolDefinitions(tools: Tool[]) {
             parameters.required.push(key);
         }
 
+        // Add the request body, or the variables of a GraphQL operation
+        const requestSchema = mergeSchemas(
+            endpoints
+                .filter(endpoint => endpoint.requestPayload !== undefined)
+                .map(endpoint => jsonToSchema(endpoint.requestPayload))
+        );
+        if (graphql) {
+            parameters.properties.variables = {
+                ...requestSchema,
+                type: 'object',
+                description: `Variables of the ${graphql.operationName} ${graphql.operationType}.`,
+            };
+            if (requestSchema.required?.length > 0) {
+                parameters.required.push('variables');
+            }
+        } else if (method !== 'GET' && requestSchema.type) {
+            parameters.properties.body = {
+                ...requestSchema,
+                description: 'The request body.',
+            };
+            parameters.required.push('body');
+        }
+
         // Generate the tool definition with URL reconstruction in execute
         toolDefinitions[name] = {
-            description: `Tool for handling ${name.replace(/_/g, ' ')} operation.`,
+            description: graphql
+                ? `GraphQL ${graphql.operationType} ${graphql.operationName}.`
+                : `Calls ${method} ${pattern} on ${new URL(toolItem.baseUrl).host}.`,
+            method,
             parameters: parameters,
         };
     }
@@ -398,7 +542,7 @@ export function generateToolDefinitions(tools: Tool[]) {
  */
 
 // Extract examples for path parameters
-function getPathParamExamples(
+export function getPathParamExamples(
     endpoints: ProcessedEndpointInfo[],
     paramName: string
 ): string[] {
@@ -416,37 +560,252 @@ function getPathParamExamples(
     return Array.from(examples).slice(0, 5); // Return up to 5 examples
 }
 
-// Reconstruct the URL from pattern and params
-function reconstructUrl(pattern: string, params: any): string {
-    const baseUrl = 'https://api.example.com';
+// Infer a JSON Schema from a sample value
+export function jsonToSchema(obj: any): any {
+    if (obj === undefined) {
+        return {};
+    }
+    try {
+        return createSchema(obj);
+    } catch (error) {
+        console.log(`Error creating schema for: ${obj}`, error);
+        return {};
+    }
+}
+
+// Merge the schemas of several samples into one
+export function mergeSchemas(schemas: any[]): any {
+    if (schemas.length === 0) {
+        return {};
+    }
+
+    if (schemas.length === 1) {
+        return schemas[0];
+    }
+
+    const types = new Set<string>();
+    const mergedProperties: { [key: string]: any } = {};
+    let mergedRequired: string[] = [];
 
-    let urlPath = pattern;
+    schemas.forEach(schema => {
+        if (schema.type) {
+            types.add(schema.type);
+        }
 
-    // Replace path parameters
-    for (const [key, value] of Object.entries(params)) {
-        urlPath = urlPath.replace(`:${key}`, encodeURIComponent(String(value)));
+        if (schema.type === 'object' && schema.properties) {
+            for (const [key, value] of Object.entries(schema.properties)) {
+                if (!mergedProperties[key]) {
+                    mergedProperties[key] = value;
+                    if (schema.required && schema.required.includes(key)) {
+                        mergedRequired.push(key);
+                    }
+                } else {
+                    mergedProperties[key] = mergeSchemas([mergedProperties[key], value]);
+                }
+            }
+        }
+    });
+
+    const mergedSchema: any = {};
+
+    if (types.size === 1) {
+        mergedSchema.type = Array.from(types)[0];
+    } else {
+        mergedSchema.type = Array.from(types);
     }
 
-    // Extract query parameters (those not in path params)
-    const queryParams: { [key: string]: string } = {};
-    for (const [key, value] of Object.entries(params)) {
-        if (!pattern.includes(`:${key}`)) {
-            queryParams[key] = String(value);
+    if (Object.keys(mergedProperties).length > 0) {
+        mergedSchema.properties = mergedProperties;
+        mergedSchema.required = Array.from(new Set(mergedRequired));
+    }
+
+    return mergedSchema;
+}
+
+// Look up a header regardless of its case
+export function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+    const key = Object.keys(headers ?? {}).find(key => key.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+}
+
+// Parse a JSON or form encoded request body, other bodies are kept as text
+function parseRequestBody(body: any, contentType?: string): any {
+    if (typeof body !== 'string' || body.length === 0) {
+        return body || undefined;
+    }
+    if (contentType?.includes('application/x-www-form-urlencoded')) {
+        return Object.fromEntries(new URLSearchParams(body).entries());
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+}
+
+// Splits camelCase and snake_case identifiers into lowercase words
+function splitIdentifiers(text: string): string[] {
+    return tokenize(text.replace(/([a-z0-9])([A-Z])/g, '$1 $2'));
+}
+
+// The distinct words of a search query
+export function getQueryTerms(query: string): string[] {
+    return Array.from(new Set(splitIdentifiers(query)));
+}
+
+/**
+ * Scores a tool against the terms of a query, from 0 when none is found to
+ * 1 when all of them are in its name. Terms found in the name weigh the
+ * most, then the path pattern, then the field names.
+ */
+export function matchToolTerms(terms: string[], name: string, pattern: string, fieldNames: string[]): { score: number; matchedTerms: string[] } {
+    const nameWords = splitIdentifiers(name);
+    const patternWords = splitIdentifiers(pattern.replace(/:[^/]+/g, ''));
+    const fieldWords = splitIdentifiers(fieldNames.join(' '));
+
+    let score = 0;
+    const matchedTerms: string[] = [];
+
+    for (const term of terms) {
+        const termScore = Math.max(
+            NAME_WEIGHT * matchTerm(term, nameWords),
+            PATTERN_WEIGHT * matchTerm(term, patternWords),
+            FIELD_WEIGHT * matchTerm(term, fieldWords),
+        );
+
+        if (termScore > 0) {
+            score += termScore;
+            matchedTerms.push(term);
         }
     }
 
-    // Construct query string
-    const queryString = Object.keys(queryParams)
-        .map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(queryParams[key])}`)
-        .join('&');
+    return { score: score / (terms.length * NAME_WEIGHT), matchedTerms };
+}
 
-    const fullUrl = queryString ? `${baseUrl}${urlPath}?${queryString}` : `${baseUrl}${urlPath}`;
+// Collect the property names of a schema, including nested objects and arrays
+export function getSchemaFieldNames(schema: any): string[] {
+    if (!schema || typeof schema !== 'object') {
+        return [];
+    }
+
+    const names: string[] = [];
+
+    if (schema.properties) {
+        for (const [key, value] of Object.entries(schema.properties)) {
+            names.push(key, ...getSchemaFieldNames(value));
+        }
+    }
 
-    return fullUrl;
+    if (schema.items) {
+        names.push(...getSchemaFieldNames(schema.items));
+    }
+
+    if (schema.anyOf) {
+        for (const option of schema.anyOf) {
+            names.push(...getSchemaFieldNames(option));
+        }
+    }
+
+    return names;
+}
+
+// 1 for an exact word match, 0.5 when one is a prefix of the other
+function matchTerm(term: string, words: string[]): number {
+    let best = 0;
+    for (const word of words) {
+        if (word === term) {
+            return 1;
+        }
+        if (Math.min(word.length, term.length) >= 3 && (word.startsWith(term) || term.startsWith(word))) {
+            best = 0.5;
+        }
+    }
+    return best;
+}
+
+// Reconstruct the URL from the base URL, pattern and params
+export function reconstructUrl(baseUrl: string, pattern: string, params: any): string {
+    const pathParams = new Set<string>();
+
+    // Replace path parameters, only the path is set so the URL can't leave
+    // the origin of the base URL, whatever the params are
+    const url = new URL(baseUrl);
+    url.pathname = pattern.split('/').map(segment => {
+        if (!segment.startsWith(':')) {
+            return segment;
+        }
+        const key = segment.substring(1);
+        pathParams.add(key);
+        return encodeURIComponent(String(params[key] ?? ''));
+    }).join('/');
+
+    // The remaining params go in the query string
+    for (const [key, value] of Object.entries(params ?? {})) {
+        if (pathParams.has(key) || value === undefined || value === null) {
+            continue;
+        }
+        for (const item of Array.isArray(value) ? value : [value]) {
+            url.searchParams.append(key, String(item));
+        }
+    }
+
+    return url.toString();
 }
 
 
 
+// Build the request calling a tool with the given params
+export function buildToolRequest(tool: ExecutableTool, params: any): ToolRequest {
+    const { method, graphql } = tool;
+
+    if (graphql) {
+        const operation = {
+            // Anonymous operations only have a generated name
+            operationName: graphql.operationName === graphql.key ? graphql.operationName : undefined,
+            query: graphql.query,
+            variables: params.variables ?? {},
+            extensions: graphql.extensions,
+        };
+
+        if (method === 'GET') {
+            const url = new URL(reconstructUrl(tool.baseUrl, tool.pattern, {}));
+            for (const [key, value] of Object.entries(operation)) {
+                if (value !== undefined) {
+                    url.searchParams.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+                }
+            }
+            return { url: url.toString(), method };
+        }
+
+        return {
+            url: reconstructUrl(tool.baseUrl, tool.pattern, {}),
+            method,
+            body: JSON.stringify(operation),
+        };
+    }
+
+    if (method === 'GET') {
+        return { url: reconstructUrl(tool.baseUrl, tool.pattern, params), method };
+    }
+
+    const { body, ...urlParams } = params;
+    const contentType = getHeader(tool.requestHeaders, 'content-type');
+    let payload: string;
+    if (typeof body === 'string' || body === undefined) {
+        payload = body;
+    } else if (contentType?.includes('application/x-www-form-urlencoded')) {
+        payload = new URLSearchParams(body).toString();
+    } else {
+        payload = JSON.stringify(body);
+    }
+
+    return {
+        url: reconstructUrl(tool.baseUrl, tool.pattern, urlParams),
+        method,
+        body: payload,
+    };
+}
+
 function main() {
     const collector = new EndpointCollector();
 
@@ -11,18 +11,44 @@ import { BLUE_500 } from '~/renderer/constants';
 import { StyledApp, Title, Buttons, Container } from './style';
 import { UIStyle } from '~/renderer/mixins/default-styles';
 
-const onSave = () => {
+const onSave = async () => {
   const username = store.usernameRef.current.value.trim();
   const password = store.passwordRef.current.value.trim();
 
-  ipcRenderer.send(`credentials-hide-${store.windowId}`);
-
-  ipcRenderer.send(`credentials-save-${store.windowId}`, {
+  const res = await ipcRenderer.invoke(`credentials-save-${store.windowId}`, {
     username,
     password,
     update: store.content === 'update',
     oldUsername: store.oldUsername,
   });
+
+  // Asks for the master password, then saves again.
+  if (res.status === 423) {
+    store.vault = res.data;
+    return;
+  }
+
+  ipcRenderer.send(`credentials-hide-${store.windowId}`);
+};
+
+// Sets up the vault on first use, unlocks it afterwards.
+const onUnlock = async () => {
+  const masterPassword = store.masterPasswordRef.current.value;
+  store.masterPasswordRef.current.clear();
+
+  const res = await ipcRenderer.invoke(
+    store.vault.initialized ? 'password-vault-unlock' : 'password-vault-setup',
+    masterPassword,
+  );
+
+  if (!res.ok) {
+    store.vaultError = res.data;
+    return;
+  }
+
+  store.vault = null;
+  store.vaultError = null;
+  await onSave();
 };
 
 const onClose = () => {
@@ -31,17 +57,32 @@ const onClose = () => {
 
 const Fields = observer(() => {
   return (
-    <div style={{ display: store.content !== 'list' ? 'block' : 'none' }}>
-      <Textfield ref={store.usernameRef} label="Username" />
-      <PasswordInput ref={store.passwordRef} />
-    </div>
+    <>
+      <div
+        style={{
+          display: store.content !== 'list' && !store.vault ? 'block' : 'none',
+        }}
+      >
+        <Textfield ref={store.usernameRef} label="Username" />
+        <PasswordInput ref={store.passwordRef} />
+      </div>
+      <div style={{ display: store.vault ? 'block' : 'none' }}>
+        <PasswordInput ref={store.masterPasswordRef} />
+      </div>
+    </>
   );
 });
 
 export const App = observer(() => {
   let title = '';
 
-  if (store.content === 'list') {
+  if (store.vault) {
+    title =
+      store.vaultError ||
+      (store.vault.initialized
+        ? 'Enter your master password to save'
+        : 'Choose a master password to save');
+  } else if (store.content === 'list') {
     title = store.list.length
       ? 'Saved passwords for this site'
       : 'No passwords saved for this site';
@@ -60,12 +101,12 @@ export const App = observer(() => {
       <Buttons>
         {store.content !== 'list' && (
           <Button
-            onClick={onSave}
+            onClick={store.vault ? onUnlock : onSave}
             foreground="black"
             background="rgba(0, 0, 0, 0.08)"
             style={{ marginLeft: 'auto' }}
           >
-            Save
+            {store.vault ? 'Unlock' : 'Save'}
           </Button>
         )}
         {store.content === 'list' && (
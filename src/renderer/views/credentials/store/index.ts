@@ -4,7 +4,7 @@ import { action, makeObservable, observable } from 'mobx';
 
 import { Textfield } from '~/renderer/components/Textfield';
 import { PasswordInput } from '~/renderer/components/PasswordInput';
-import { IFormFillData } from '~/interfaces';
+import { IFormFillData, IPasswordVaultStatus } from '~/interfaces';
 import { DialogStore } from '~/models/dialog-store';
 
 export class Store extends DialogStore {
@@ -18,12 +18,21 @@ export class Store extends DialogStore {
 
   public oldUsername: string;
 
+  // Set when saving found the password vault locked, until it is unlocked.
+  public vault: IPasswordVaultStatus = null;
+
+  public vaultError: string = null;
+
+  public masterPasswordRef = React.createRef<PasswordInput>();
+
   public constructor() {
     super({ hideOnBlur: false });
 
     makeObservable(this, {
       content: observable,
       list: observable,
+      vault: observable,
+      vaultError: observable,
       remove: action,
     });
 
@@ -39,6 +48,8 @@ export class Store extends DialogStore {
       }
 
       this.content = content;
+      this.vault = null;
+      this.vaultError = null;
     });
   }
 
@@ -0,0 +1,122 @@
+import * as React from 'react';
+import { observer } from 'mobx-react-lite';
+
+import store, { ContentCategory } from '../../store';
+import { NavigationDrawer } from '~/renderer/components/NavigationDrawer';
+import { ThemeProvider } from 'styled-components';
+import { Container, Content } from '~/renderer/components/Pages';
+import { GlobalNavigationDrawer } from '~/renderer/components/GlobalNavigationDrawer';
+import {
+  ICON_ALL,
+  ICON_PAGE,
+  ICON_TRASH,
+  ICON_DOWNLOAD,
+  ICON_NETWORK,
+  ICON_CODE,
+  ICON_PALETTE,
+  ICON_IMAGE,
+  ICON_MORE,
+} from '~/renderer/constants';
+import { WebUIStyle } from '~/renderer/mixins/default-styles';
+import { IconProp } from '@fortawesome/fontawesome-svg-core';
+import { Filters } from '../Filters';
+import RequestItem from '../RequestItem';
+import { RequestDetails } from '../RequestDetails';
+
+// Rendering every request at once would make the list slow to update.
+const MAX_VISIBLE_REQUESTS = 300;
+
+const CategoryItem = observer(
+  ({
+    category,
+    children,
+    icon,
+  }: {
+    category: ContentCategory;
+    children: any;
+    icon: IconProp;
+  }) => (
+    <NavigationDrawer.Item
+      onClick={() => (store.category = category)}
+      selected={store.category === category}
+      icon={icon}
+    >
+      {children}
+    </NavigationDrawer.Item>
+  ),
+);
+
+const onInput = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  store.search(e.currentTarget.value);
+};
+
+const onClearClick = () => {
+  store.clear();
+};
+
+const onExportClick = () => {
+  store.exportHar();
+};
+
+const Requests = observer(() => {
+  const requests = store.filteredRequests;
+
+  return (
+    <div style={{ margin: '32px 32px' }}>
+      <Filters />
+      {requests.length === 0 && (
+        <div style={{ opacity: 0.54, padding: '0 24px' }}>
+          No requests captured yet.
+        </div>
+      )}
+      {requests.slice(0, MAX_VISIBLE_REQUESTS).map((data) => (
+        <RequestItem data={data} key={data.requestId} />
+      ))}
+    </div>
+  );
+});
+
+export default observer(() => {
+  return (
+    <ThemeProvider theme={{ ...store.theme }}>
+      <Container>
+        <WebUIStyle />
+        <GlobalNavigationDrawer></GlobalNavigationDrawer>
+        <NavigationDrawer title="Network" search onSearchInput={onInput}>
+          <CategoryItem icon={ICON_ALL} category="all">
+            All
+          </CategoryItem>
+          <CategoryItem icon={ICON_NETWORK} category="api">
+            API
+          </CategoryItem>
+          <CategoryItem icon={ICON_PAGE} category="document">
+            Documents
+          </CategoryItem>
+          <CategoryItem icon={ICON_CODE} category="script">
+            Scripts
+          </CategoryItem>
+          <CategoryItem icon={ICON_PALETTE} category="style">
+            Styles
+          </CategoryItem>
+          <CategoryItem icon={ICON_IMAGE} category="image">
+            Images
+          </CategoryItem>
+          <CategoryItem icon={ICON_MORE} category="other">
+            Other
+          </CategoryItem>
+          <div style={{ flex: 1 }} />
+          <NavigationDrawer.Item icon={ICON_DOWNLOAD} onClick={onExportClick}>
+            Export HAR
+          </NavigationDrawer.Item>
+          <NavigationDrawer.Item icon={ICON_TRASH} onClick={onClearClick}>
+            Clear Network Log
+          </NavigationDrawer.Item>
+        </NavigationDrawer>
+        <Content>
+          <Requests />
+        </Content>
+        <RequestDetails />
+      </Container>
+    </ThemeProvider>
+  );
+});
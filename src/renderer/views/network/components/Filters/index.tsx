@@ -0,0 +1,104 @@
+import * as React from 'react';
+import { observer } from 'mobx-react-lite';
+
+import { StyledFilters, Label } from './style';
+import { Dropdown } from '~/renderer/components/Dropdown';
+import store, { StatusClass } from '../../store';
+
+// Dropdown values are strings, `all` clears the filter.
+const ALL = 'all';
+
+const STATUS_CLASSES: StatusClass[] = ['2xx', '3xx', '4xx', '5xx', 'pending'];
+
+const onTabChange = (value: string) =>
+  store.setFilter('tabId', value === ALL ? null : Number(value));
+
+const onOriginChange = (value: string) =>
+  store.setFilter('origin', value === ALL ? null : value);
+
+const onMethodChange = (value: string) =>
+  store.setFilter('method', value === ALL ? null : value);
+
+const onStatusChange = (value: StatusClass) => store.setFilter('status', value);
+
+const onToolChange = (value: string) =>
+  store.setFilter('tool', value === ALL ? null : value);
+
+export const Filters = observer(() => {
+  const { tabId, origin, method, status, tool } = store.filters;
+
+  return (
+    <StyledFilters>
+      <Label>Tab</Label>
+      <Dropdown
+        defaultValue={tabId === null ? ALL : String(tabId)}
+        onChange={onTabChange}
+      >
+        {[
+          <Dropdown.Item key={ALL} value={ALL}>
+            All tabs
+          </Dropdown.Item>,
+          ...store.tabIds.map((id) => (
+            <Dropdown.Item key={id} value={String(id)}>
+              Tab {id}
+            </Dropdown.Item>
+          )),
+        ]}
+      </Dropdown>
+      <Label>Origin</Label>
+      <Dropdown defaultValue={origin ?? ALL} onChange={onOriginChange}>
+        {[
+          <Dropdown.Item key={ALL} value={ALL}>
+            All origins
+          </Dropdown.Item>,
+          ...store.origins.map((value) => (
+            <Dropdown.Item key={value} value={value}>
+              {new URL(value).host}
+            </Dropdown.Item>
+          )),
+        ]}
+      </Dropdown>
+      <Label>Method</Label>
+      <Dropdown defaultValue={method ?? ALL} onChange={onMethodChange}>
+        {[
+          <Dropdown.Item key={ALL} value={ALL}>
+            All
+          </Dropdown.Item>,
+          ...store.methods.map((value) => (
+            <Dropdown.Item key={value} value={value}>
+              {value}
+            </Dropdown.Item>
+          )),
+        ]}
+      </Dropdown>
+      <Label>Status</Label>
+      <Dropdown defaultValue={status} onChange={onStatusChange}>
+        {[
+          <Dropdown.Item key={ALL} value={ALL}>
+            All
+          </Dropdown.Item>,
+          ...STATUS_CLASSES.map((value) => (
+            <Dropdown.Item key={value} value={value}>
+              {value === 'pending' ? 'Pending' : value}
+            </Dropdown.Item>
+          )),
+        ]}
+      </Dropdown>
+      {tool && (
+        <>
+          <Label>Tool</Label>
+          <Dropdown defaultValue={tool} onChange={onToolChange}>
+            {[
+              <Dropdown.Item key={tool} value={tool}>
+                {tool}
+              </Dropdown.Item>,
+              <Dropdown.Item key={ALL} value={ALL}>
+                Any tool
+              </Dropdown.Item>,
+            ]}
+          </Dropdown>
+        </>
+      )}
+    </StyledFilters>
+  );
+});
@@ -0,0 +1,19 @@
+import styled from 'styled-components';
+
+export const StyledFilters = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 16px;
+
+  & .dropdown {
+    min-width: 140px;
+  }
+`;
+
+export const Label = styled.div`
+  font-size: 12px;
+  opacity: 0.54;
+  margin-left: 8px;
+`;
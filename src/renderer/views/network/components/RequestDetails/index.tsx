@@ -0,0 +1,157 @@
+import * as React from 'react';
+import { observer } from 'mobx-react-lite';
+
+import {
+  StyledRequestDetails,
+  Section,
+  SectionTitle,
+  Field,
+  FieldName,
+  FieldValue,
+  Body,
+  ToolLink,
+  TimingBar,
+  TimingSegment,
+} from './style';
+import { IHarTimings } from '~/interfaces';
+import store from '../../store';
+import { formatBody, formatDuration, formatSize } from '../../utils';
+
+const TIMING_PHASES: {
+  phase: keyof IHarTimings;
+  label: string;
+  color: string;
+}[] = [
+  { phase: 'blocked', label: 'Queued', color: '#9e9e9e' },
+  { phase: 'dns', label: 'DNS lookup', color: '#009688' },
+  { phase: 'connect', label: 'Connecting', color: '#ff9800' },
+  { phase: 'send', label: 'Sending', color: '#3f51b5' },
+  { phase: 'wait', label: 'Waiting for server', color: '#4caf50' },
+  { phase: 'receive', label: 'Downloading', color: '#2196f3' },
+];
+
+const Fields = ({ values }: { values: Record<string, any> }) => (
+  <>
+    {Object.entries(values)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => (
+        <Field key={name}>
+          <FieldName title={name}>{name}</FieldName>
+          <FieldValue>{String(value)}</FieldValue>
+        </Field>
+      ))}
+  </>
+);
+
+const Timings = ({ timings }: { timings: IHarTimings }) => {
+  const phases = TIMING_PHASES.filter(({ phase }) => timings[phase] > 0);
+  const total = phases.reduce(
+    (sum, { phase }) => sum + (timings[phase] as number),
+    0,
+  );
+  let offset = 0;
+
+  return (
+    <>
+      {phases.map(({ phase, label, color }) => {
+        const time = timings[phase] as number;
+        const left = total > 0 ? (offset / total) * 100 : 0;
+        offset += time;
+
+        return (
+          <Field key={phase}>
+            <FieldName>{label}</FieldName>
+            <TimingBar>
+              <TimingSegment
+                left={left}
+                width={total > 0 ? (time / total) * 100 : 0}
+                color={color}
+              />
+            </TimingBar>
+            <FieldValue style={{ flex: 'none', width: 64 }}>
+              {formatDuration(time)}
+            </FieldValue>
+          </Field>
+        );
+      })}
+    </>
+  );
+};
+
+export const RequestDetails = observer(() => {
+  const { selected } = store;
+
+  if (!selected) return null;
+
+  return (
+    <StyledRequestDetails>
+      <Section>
+        <SectionTitle>General</SectionTitle>
+        <Fields
+          values={{
+            URL: selected.url,
+            Method: selected.method,
+            Status: selected.status || 'Pending',
+            'Content type': selected.contentType,
+            Size: formatSize(selected.size),
+            Tab: selected.tabId,
+            Started: new Date(selected.timestamp).toLocaleString(),
+          }}
+        />
+      </Section>
+      <Section>
+        <SectionTitle>Tool</SectionTitle>
+        {selected.tool ? (
+          <Field>
+            <FieldValue>
+              <ToolLink
+                onClick={() => store.setFilter('tool', selected.tool.name)}
+                title="Show all the requests of this tool"
+              >
+                {selected.tool.name}
+              </ToolLink>{' '}
+              <span style={{ opacity: 0.54 }}>
+                {selected.method} {selected.tool.pattern}
+              </span>
+            </FieldValue>
+          </Field>
+        ) : (
+          <Field style={{ opacity: 0.54 }}>
+            No tool was discovered from this request.
+          </Field>
+        )}
+      </Section>
+      {selected.timings && (
+        <Section>
+          <SectionTitle>
+            Timing{' '}
+            <span style={{ opacity: 0.54, fontWeight: 400 }}>
+              {formatDuration(selected.duration)}
+            </span>
+          </SectionTitle>
+          <Timings timings={selected.timings} />
+        </Section>
+      )}
+      <Section>
+        <SectionTitle>Request headers</SectionTitle>
+        <Fields values={selected.requestHeaders} />
+      </Section>
+      {selected.requestBody && (
+        <Section>
+          <SectionTitle>Request body</SectionTitle>
+          <Body>{formatBody(selected.requestBody)}</Body>
+        </Section>
+      )}
+      <Section>
+        <SectionTitle>Response headers</SectionTitle>
+        <Fields values={selected.responseHeaders} />
+      </Section>
+      {selected.responseBody && (
+        <Section>
+          <SectionTitle>Response body</SectionTitle>
+          <Body>{formatBody(selected.responseBody)}</Body>
+        </Section>
+      )}
+    </StyledRequestDetails>
+  );
+});
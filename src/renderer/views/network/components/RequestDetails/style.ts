@@ -0,0 +1,95 @@
+import styled, { css } from 'styled-components';
+import { ITheme } from '~/interfaces';
+
+export const StyledRequestDetails = styled.div`
+  width: 480px;
+  height: 100vh;
+  overflow: auto;
+  padding: 24px;
+  box-sizing: border-box;
+
+  ${({ theme }: { theme?: ITheme }) => css`
+    border-left: 1px solid ${theme['control.borderBottomColor']};
+  `}
+`;
+
+export const Section = styled.div`
+  margin-bottom: 24px;
+`;
+
+export const SectionTitle = styled.div`
+  font-size: 14px;
+  font-weight: 500;
+  margin-bottom: 8px;
+`;
+
+export const Field = styled.div`
+  display: flex;
+  font-size: 12px;
+  line-height: 20px;
+`;
+
+export const FieldName = styled.div`
+  width: 160px;
+  flex-shrink: 0;
+  opacity: 0.54;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+export const FieldValue = styled.div`
+  flex: 1;
+  word-break: break-all;
+`;
+
+export const Body = styled.pre`
+  margin: 0;
+  padding: 12px;
+  border-radius: 8px;
+  font-size: 12px;
+  max-height: 480px;
+  overflow: auto;
+  white-space: pre-wrap;
+  word-break: break-all;
+
+  ${({ theme }: { theme?: ITheme }) => css`
+    background-color: ${theme['pages.lightForeground']
+      ? 'rgba(255, 255, 255, 0.05)'
+      : '#fafafa'};
+  `}
+`;
+
+export const ToolLink = styled.a`
+  color: #2196f3;
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+export const TimingBar = styled.div`
+  flex: 1;
+  height: 8px;
+  margin: 6px 8px 0 0;
+  position: relative;
+`;
+
+interface TimingSegmentProps {
+  left: number;
+  width: number;
+  color: string;
+}
+
+export const TimingSegment = styled.div<TimingSegmentProps>`
+  position: absolute;
+  top: 0;
+  height: 100%;
+  border-radius: 2px;
+
+  ${({ left, width, color }) => css`
+    left: ${left}%;
+    width: ${Math.max(width, 0.5)}%;
+    background-color: ${color};
+  `}
+`;
@@ -0,0 +1,44 @@
+import * as React from 'react';
+import { observer } from 'mobx-react-lite';
+
+import { Method, Status, Url, Tool, Info } from './style';
+import { INetworkRequestSummary } from '~/interfaces';
+import { ListItem } from '~/renderer/components/ListItem';
+import store from '../../store';
+import { formatDuration, formatSize, formatTimestamp } from '../../utils';
+
+const onToolClick = (name: string) => (e: React.MouseEvent<HTMLDivElement>) => {
+  e.stopPropagation();
+  store.setFilter('tool', store.filters.tool === name ? null : name);
+};
+
+export default observer(({ data }: { data: INetworkRequestSummary }) => {
+  const { pathname, search, host } = new URL(data.url);
+
+  return (
+    <ListItem
+      onClick={() => store.select(data.requestId)}
+      selected={store.selectedId === data.requestId}
+      title={data.url}
+    >
+      <Method>{data.method}</Method>
+      <Status error={data.status >= 400}>{data.status || '...'}</Status>
+      <Url>
+        <span style={{ opacity: 0.54 }}>{host}</span>
+        {pathname}
+        {search}
+      </Url>
+      {data.tool && (
+        <Tool
+          onClick={onToolClick(data.tool.name)}
+          title={`Example of ${data.tool.name} (${data.tool.pattern})`}
+        >
+          {data.tool.name}
+        </Tool>
+      )}
+      <Info>{formatSize(data.size)}</Info>
+      <Info>{formatDuration(data.duration)}</Info>
+      <Info>{formatTimestamp(data.timestamp)}</Info>
+    </ListItem>
+  );
+});
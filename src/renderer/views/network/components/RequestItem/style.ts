@@ -0,0 +1,52 @@
+import styled, { css } from 'styled-components';
+import { RED_500 } from '~/renderer/constants';
+
+export const Method = styled.div`
+  width: 64px;
+  font-size: 12px;
+  font-weight: 500;
+  opacity: 0.7;
+`;
+
+interface StatusProps {
+  error?: boolean;
+}
+
+export const Status = styled.div<StatusProps>`
+  width: 48px;
+  font-size: 12px;
+
+  ${({ error }) => css`
+    color: ${error ? RED_500 : 'inherit'};
+    opacity: ${error ? 1 : 0.54};
+  `}
+`;
+
+export const Url = styled.div`
+  flex: 1;
+  margin-right: 16px;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  font-size: 13px;
+`;
+
+export const Tool = styled.div`
+  max-width: 200px;
+  margin-right: 16px;
+  padding: 2px 8px;
+  border-radius: 4px;
+  font-size: 11px;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  background-color: rgba(33, 150, 243, 0.16);
+`;
+
+export const Info = styled.div`
+  width: 72px;
+  text-align: right;
+  font-size: 12px;
+  opacity: 0.54;
+  white-space: nowrap;
+`;
@@ -0,0 +1,229 @@
+import { observable, computed, action, makeObservable } from 'mobx';
+import {
+  ISettings,
+  ITheme,
+  INetworkRequestDetails,
+  INetworkRequestSummary,
+} from '~/interfaces';
+import { getTheme } from '~/utils/themes';
+import { getContentCategory, getStatusClass } from '../utils';
+
+export type ContentCategory =
+  | 'all'
+  | 'api'
+  | 'document'
+  | 'script'
+  | 'style'
+  | 'image'
+  | 'other';
+
+export type StatusClass = 'all' | '2xx' | '3xx' | '4xx' | '5xx' | 'pending';
+
+export interface INetworkFilters {
+  tabId: number | null;
+  origin: string | null;
+  method: string | null;
+  status: StatusClass;
+  tool: string | null;
+}
+
+// Only the most recent requests are kept in the list.
+const MAX_REQUESTS = 1000;
+
+const networkInspector = () => (window as any).networkInspector;
+
+export class Store {
+  // Observable
+
+  public settings: ISettings = { ...(window as any).settings };
+
+  public requests: INetworkRequestSummary[] = [];
+
+  public category: ContentCategory = 'all';
+
+  public filters: INetworkFilters = {
+    tabId: null,
+    origin: null,
+    method: null,
+    status: 'all',
+    tool: null,
+  };
+
+  public searched = '';
+
+  public selectedId: string = null;
+
+  public selected: INetworkRequestDetails = null;
+
+  public get theme(): ITheme {
+    return getTheme(this.settings.theme);
+  }
+
+  public get filteredRequests() {
+    const { tabId, origin, method, status, tool } = this.filters;
+
+    return this.requests.filter(
+      (request) =>
+        (this.category === 'all' ||
+          getContentCategory(request.contentType) === this.category) &&
+        (tabId === null || request.tabId === tabId) &&
+        (origin === null || request.origin === origin) &&
+        (method === null || request.method === method) &&
+        (status === 'all' || getStatusClass(request.status) === status) &&
+        (tool === null || request.tool?.name === tool) &&
+        (this.searched === '' ||
+          request.url.toLowerCase().includes(this.searched)),
+    );
+  }
+
+  public get tabIds() {
+    return this.getValues((request) => request.tabId).sort((a, b) => a - b);
+  }
+
+  public get origins() {
+    return this.getValues((request) => request.origin).sort();
+  }
+
+  public get methods() {
+    return this.getValues((request) => request.method).sort();
+  }
+
+  public constructor() {
+    makeObservable(this, {
+      settings: observable,
+      requests: observable,
+      category: observable,
+      filters: observable,
+      searched: observable,
+      selectedId: observable,
+      selected: observable,
+      theme: computed,
+      filteredRequests: computed,
+      tabIds: computed,
+      origins: computed,
+      methods: computed,
+      load: action,
+      select: action,
+      search: action,
+      setFilter: action,
+      clear: action,
+      onUpdate: action,
+      onRemove: action,
+      onClear: action,
+    });
+
+    (window as any).updateSettings = (settings: ISettings) => {
+      this.settings = { ...this.settings, ...settings };
+    };
+
+    this.load();
+
+    networkInspector().onRemove((requestIds: string[]) =>
+      this.onRemove(requestIds),
+    );
+    networkInspector().onClear(() => this.onClear());
+    networkInspector().onUpdate((request: INetworkRequestSummary) =>
+      this.onUpdate(request),
+    );
+  }
+
+  public async load() {
+    const requests = await networkInspector().list(MAX_REQUESTS);
+    this.requests = requests;
+  }
+
+  public async select(requestId: string) {
+    this.selectedId = requestId;
+    this.selected = null;
+
+    const details = await networkInspector().get(requestId);
+    if (this.selectedId === requestId) {
+      this.selected = details;
+    }
+  }
+
+  public search(str: string) {
+    this.searched = str.toLowerCase();
+  }
+
+  public setFilter<K extends keyof INetworkFilters>(
+    key: K,
+    value: INetworkFilters[K],
+  ) {
+    this.filters = { ...this.filters, [key]: value };
+  }
+
+  public async clear() {
+    await networkInspector().clear();
+    this.onClear();
+  }
+
+  public async exportHar() {
+    const { tabId, origin } = this.filters;
+    const { data } = await networkInspector().exportHar({
+      ...(tabId !== null ? { tabId } : {}),
+      ...(origin !== null ? { origin } : {}),
+    });
+
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }),
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${origin ? new URL(origin).hostname : 'network'}.har`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  public onUpdate(request: INetworkRequestSummary) {
+    const index = this.requests.findIndex(
+      (item) => item.requestId === request.requestId,
+    );
+
+    if (index === -1) {
+      this.requests.unshift(request);
+      if (this.requests.length > MAX_REQUESTS) {
+        this.requests.pop();
+      }
+    } else {
+      // Updates don't resolve the tool again.
+      this.requests[index] = { ...request, tool: this.requests[index].tool };
+    }
+
+    if (request.requestId === this.selectedId) {
+      this.select(request.requestId);
+    }
+  }
+
+  // Requests pruned by the retention limits of their tab
+  public onRemove(requestIds: string[]) {
+    const removed = new Set(requestIds);
+    this.requests = this.requests.filter(
+      (request) => !removed.has(request.requestId),
+    );
+
+    if (removed.has(this.selectedId)) {
+      this.selectedId = null;
+      this.selected = null;
+    }
+  }
+
+  public onClear() {
+    this.requests = [];
+    this.selectedId = null;
+    this.selected = null;
+  }
+
+  private getValues<T>(getValue: (request: INetworkRequestSummary) => T) {
+    const values = new Set<T>();
+    for (const request of this.requests) {
+      const value = getValue(request);
+      if (value !== undefined && value !== null) {
+        values.add(value);
+      }
+    }
+    return Array.from(values);
+  }
+}
+
+export default new Store();
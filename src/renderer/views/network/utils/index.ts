@@ -0,0 +1,56 @@
+import { ContentCategory, StatusClass } from '../store';
+
+export const getContentCategory = (contentType: string): ContentCategory => {
+  if (/json|graphql|xml/.test(contentType)) return 'api';
+  if (/html/.test(contentType)) return 'document';
+  if (/javascript|ecmascript/.test(contentType)) return 'script';
+  if (/css/.test(contentType)) return 'style';
+  if (/^image\//.test(contentType)) return 'image';
+  return 'other';
+};
+
+export const getStatusClass = (status: number): StatusClass => {
+  if (!status) return 'pending';
+  if (status >= 500) return '5xx';
+  if (status >= 400) return '4xx';
+  if (status >= 300) return '3xx';
+  return '2xx';
+};
+
+export const formatSize = (size: number) => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} kB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export const formatDuration = (duration?: number) => {
+  if (duration === undefined || duration < 0) return '';
+  if (duration < 1000) return `${Math.round(duration)} ms`;
+  return `${(duration / 1000).toFixed(2)} s`;
+};
+
+export const formatTimestamp = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((value) => value.toString().padStart(2, '0'))
+    .join(':');
+};
+
+// Longer bodies are cut, rendering them whole would freeze the page.
+const MAX_BODY_LENGTH = 100000;
+
+// Bodies that parse as JSON are indented, others are shown as they are.
+export const formatBody = (body?: string) => {
+  if (!body) return '';
+
+  let formatted = body;
+  try {
+    formatted = JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    // Not JSON
+  }
+
+  return formatted.length > MAX_BODY_LENGTH
+    ? `${formatted.substring(0, MAX_BODY_LENGTH)}\n...`
+    : formatted;
+};
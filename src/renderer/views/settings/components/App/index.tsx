@@ -17,6 +17,7 @@ import { OnStartup } from '../Startup';
 import { Content, LeftContent, Container } from '~/renderer/components/Pages';
 import { GlobalNavigationDrawer } from '~/renderer/components/GlobalNavigationDrawer';
 import { Downloads } from '../Downloads';
+import { Crawling } from '../Crawling';
 import {
   ICON_PALETTE,
   ICON_AUTOFILL,
@@ -28,6 +29,7 @@ import {
   ICON_EDIT,
   ICON_PERSON,
   ICON_SETTINGS,
+  ICON_VISIBLE,
 } from '~/renderer/constants';
 import {
   ContextMenuItem,
@@ -279,6 +281,9 @@ export default observer(() => {
           <MenuItem section="privacy" icon={ICON_SHIELD}>
             Privacy
           </MenuItem>
+          <MenuItem section="crawling" icon={ICON_VISIBLE}>
+            Crawling
+          </MenuItem>
           <MenuItem section="account" icon={ICON_PERSON}>
             Innatical ID
           </MenuItem>
@@ -299,6 +304,7 @@ export default observer(() => {
             {selectedSection === 'search-engines' && <ManageSearchEngines />}
             {selectedSection === 'startup' && <OnStartup />}
             {selectedSection === 'privacy' && <Privacy />}
+            {selectedSection === 'crawling' && <Crawling />}
             {selectedSection === 'downloads' && <Downloads />}
             {selectedSection === 'account' && <Accounts />}
           </LeftContent>
@@ -6,23 +6,41 @@ import { IFormFillData } from '~/interfaces';
 import { Section, onMoreClick } from '../Section';
 import { More } from '../Passwords/styles';
 import { StyledItem } from './styles';
-import { ICON_LOCATION } from '~/renderer/constants';
+import { ICON_CARD, ICON_LOCATION, ICON_PERSON } from '~/renderer/constants';
+
+const getSummary = ({ type, fields }: IFormFillData) => {
+  if (type === 'card') {
+    const expiry =
+      fields.cardExpMonth && `${fields.cardExpMonth}/${fields.cardExpYear}`;
+    return [fields.cardName, `•••• ${fields.cardLast4}`, expiry]
+      .filter((r) => r)
+      .join(', ');
+  }
+
+  if (type === 'contact') {
+    return [fields.name, fields.email, fields.phone]
+      .filter((r) => r)
+      .join(', ');
+  }
+
+  return fields.address;
+};
 
 const Item = observer(({ data }: { data: IFormFillData }) => {
   return (
     <StyledItem>
-      {data.fields.address}
+      {getSummary(data)}
       <More onClick={onMoreClick(data)} style={{ marginLeft: 'auto' }} />
     </StyledItem>
   );
 });
 
-export const Addresses = observer(() => {
-  const style = {
-    flexDirection: 'column',
-    padding: '0px 16px 8px 16px',
-  };
+const style = {
+  flexDirection: 'column',
+  padding: '0px 16px 8px 16px',
+};
 
+export const Addresses = observer(() => {
   return (
     <Section label="Addresses" icon={ICON_LOCATION} style={style}>
       {store.autoFill.addresses.map((item) => (
@@ -31,3 +49,23 @@ export const Addresses = observer(() => {
     </Section>
   );
 });
+
+export const Contacts = observer(() => {
+  return (
+    <Section label="Contacts" icon={ICON_PERSON} style={style}>
+      {store.autoFill.contacts.map((item) => (
+        <Item key={item._id} data={item} />
+      ))}
+    </Section>
+  );
+});
+
+export const Cards = observer(() => {
+  return (
+    <Section label="Payment cards" icon={ICON_CARD} style={style}>
+      {store.autoFill.cards.map((item) => (
+        <Item key={item._id} data={item} />
+      ))}
+    </Section>
+  );
+});
@@ -0,0 +1,136 @@
+import * as React from 'react';
+import { observer } from 'mobx-react-lite';
+
+import store from '../../../store';
+import { IPasswordImportItem, PasswordCsvFormat } from '~/interfaces';
+import { Button } from '~/renderer/components/Button';
+import { Dropdown } from '~/renderer/components/Dropdown';
+import { Switch } from '~/renderer/components/Switch';
+import { Textfield } from '~/renderer/components/Textfield';
+import { HeaderLabel, Label } from '../Passwords/styles';
+import { Bar, Message, Preview } from './styles';
+
+const STATUS_LABELS = {
+  new: 'New',
+  duplicate: 'Already saved',
+  conflict: 'Different password',
+};
+
+const PreviewItem = observer(({ item }: { item: IPasswordImportItem }) => {
+  const { index, hostname, username, status } = item;
+
+  return (
+    <>
+      <Label>{hostname}</Label>
+      <Label>{username}</Label>
+      <Label>{STATUS_LABELS[status]}</Label>
+      {status === 'conflict' ? (
+        <Switch
+          clickable
+          dense
+          value={store.autoFill.importReplace.includes(index)}
+          onClick={() => store.autoFill.toggleImportReplace(index)}
+        />
+      ) : (
+        <div />
+      )}
+    </>
+  );
+});
+
+const ImportPreview = observer(() => {
+  const { importPreview } = store.autoFill;
+  const { items, invalid } = importPreview;
+
+  const count = (status: string) =>
+    items.filter((r) => r.status === status).length;
+
+  return (
+    <>
+      <Bar>
+        <Message>
+          {count('new')} new, {count('duplicate')} already saved,{' '}
+          {count('conflict')} saved with a different password
+          {invalid ? `, ${invalid} without a website or password` : ''}. Turn
+          on the conflicts whose saved password should be replaced.
+        </Message>
+        <Button type="outlined" onClick={() => store.autoFill.cancelImport()}>
+          Cancel
+        </Button>
+        <Button onClick={() => store.autoFill.applyImport()}>Import</Button>
+      </Bar>
+      <Preview>
+        <HeaderLabel>Website</HeaderLabel>
+        <HeaderLabel>Username</HeaderLabel>
+        <HeaderLabel>Status</HeaderLabel>
+        <HeaderLabel>Replace</HeaderLabel>
+        {items.map((item) => (
+          <PreviewItem key={item.index} item={item} />
+        ))}
+      </Preview>
+    </>
+  );
+});
+
+const ExportForm = ({ onClose }: { onClose: () => void }) => {
+  const ref = React.useRef<Textfield>();
+  const [format, setFormat] = React.useState<PasswordCsvFormat>('chrome');
+
+  const onExport = async () => {
+    if (!ref.current.test((str) => str.length !== 0)) return;
+
+    if (await store.autoFill.exportPasswords(ref.current.value, format)) {
+      onClose();
+    } else {
+      ref.current.clear();
+    }
+  };
+
+  return (
+    <Bar>
+      <Message>
+        The exported file holds every password in clear. Enter your master
+        password to export.
+      </Message>
+      <Textfield
+        ref={ref}
+        label="Master password"
+        inputType="password"
+        style={{ marginRight: 8 }}
+      />
+      <Dropdown defaultValue="chrome" onChange={setFormat}>
+        <Dropdown.Item value="chrome">Chrome / Edge</Dropdown.Item>
+        <Dropdown.Item value="firefox">Firefox</Dropdown.Item>
+        <Dropdown.Item value="bitwarden">Bitwarden</Dropdown.Item>
+      </Dropdown>
+      <Button type="outlined" onClick={onClose}>
+        Cancel
+      </Button>
+      <Button onClick={onExport}>Export</Button>
+    </Bar>
+  );
+};
+
+export const PasswordTransfer = observer(() => {
+  const [exporting, setExporting] = React.useState(false);
+  const { vault, importPreview, transferMessage } = store.autoFill;
+
+  if (!vault.unlocked) return null;
+
+  if (importPreview) return <ImportPreview />;
+
+  if (exporting) return <ExportForm onClose={() => setExporting(false)} />;
+
+  return (
+    <Bar>
+      <Message>
+        {transferMessage ||
+          'Import passwords from a Chrome, Edge, Firefox or Bitwarden CSV export.'}
+      </Message>
+      <Button type="outlined" onClick={() => setExporting(true)}>
+        Export
+      </Button>
+      <Button onClick={() => store.autoFill.previewImport()}>Import</Button>
+    </Bar>
+  );
+});
@@ -0,0 +1,28 @@
+import styled from 'styled-components';
+
+import { Label } from '../Passwords/styles';
+
+export const Bar = styled.div`
+  display: flex;
+  align-items: center;
+  margin-bottom: 24px;
+
+  & .button {
+    margin-left: 8px;
+  }
+`;
+
+export const Message = styled(Label)`
+  flex: 1;
+  margin-right: 16px;
+  white-space: normal;
+`;
+
+export const Preview = styled.div`
+  width: 100%;
+  display: grid;
+  grid-template-columns: 2fr 2fr 1fr auto;
+  grid-row-gap: 16px;
+  align-items: center;
+  margin-bottom: 24px;
+`;
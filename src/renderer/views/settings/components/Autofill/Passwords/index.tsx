@@ -5,6 +5,9 @@ import store from '../../../store';
 import { IFormFillData } from '~/interfaces';
 import { Section, onMoreClick } from '../Section';
 import { getUserPassword } from '~/preloads/utils/autofill';
+import { Button } from '~/renderer/components/Button';
+import { Textfield } from '~/renderer/components/Textfield';
+import { PasswordTransfer } from '../PasswordTransfer';
 import {
   Container,
   HeaderLabel,
@@ -12,6 +15,8 @@ import {
   Label,
   PasswordIcon,
   More,
+  VaultBar,
+  VaultLabel,
 } from './styles';
 import {
   ICON_INVISIBLE,
@@ -30,6 +35,11 @@ const Item = observer(({ data }: { data: IFormFillData }) => {
   const onIconClick = async () => {
     const pass = !realPassword && (await getUserPassword(data));
     setRealPassword(pass);
+
+    // The vault may have locked itself since the page was opened
+    if (!realPassword && pass === null) {
+      await store.autoFill.loadVault();
+    }
   };
 
   // TODO(xnerhu): favicons
@@ -58,9 +68,59 @@ const Item = observer(({ data }: { data: IFormFillData }) => {
   );
 });
 
+const Vault = observer(() => {
+  const ref = React.useRef<Textfield>();
+  const { vault, vaultError } = store.autoFill;
+
+  const onUnlock = async () => {
+    if (!ref.current.test((str) => str.length !== 0)) return;
+
+    if (await store.autoFill.unlockVault(ref.current.value)) {
+      ref.current.clear();
+    }
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter') onUnlock();
+  };
+
+  if (vault.unlocked) {
+    return (
+      <VaultBar>
+        <VaultLabel>Saved passwords are unlocked.</VaultLabel>
+        <Button type="outlined" onClick={() => store.autoFill.lockVault()}>
+          Lock
+        </Button>
+      </VaultBar>
+    );
+  }
+
+  return (
+    <VaultBar onKeyDown={onKeyDown}>
+      <VaultLabel>
+        {vaultError ||
+          (vault.initialized
+            ? 'Enter your master password to see and fill saved passwords.'
+            : 'Choose a master password to encrypt saved passwords.')}
+      </VaultLabel>
+      <Textfield
+        ref={ref}
+        label="Master password"
+        inputType="password"
+        style={{ marginRight: 16 }}
+      />
+      <Button onClick={onUnlock}>
+        {vault.initialized ? 'Unlock' : 'Set password'}
+      </Button>
+    </VaultBar>
+  );
+});
+
 export const Passwords = observer(() => {
   return (
     <Section label="Passwords" icon={ICON_KEY}>
+      <Vault />
+      <PasswordTransfer />
       <Container>
         <HeaderLabel>Website</HeaderLabel>
         <HeaderLabel>Username</HeaderLabel>
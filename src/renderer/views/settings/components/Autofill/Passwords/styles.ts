@@ -73,3 +73,15 @@ export const More = styled.div<MoreProps>`
     filter: ${theme.dark ? 'invert(100%)' : 'none'};
   `};
 `;
+
+export const VaultBar = styled.div`
+  display: flex;
+  align-items: center;
+  margin-bottom: 24px;
+`;
+
+export const VaultLabel = styled(Label)`
+  flex: 1;
+  margin-right: 16px;
+  white-space: normal;
+`;
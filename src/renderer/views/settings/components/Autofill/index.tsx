@@ -7,7 +7,7 @@ import {
   ContextMenuItem,
 } from '~/renderer/components/ContextMenu';
 import { Passwords } from './Passwords';
-import { Addresses } from './Addresses';
+import { Addresses, Contacts, Cards } from './Addresses';
 import { Header } from '../App/style';
 import { ICON_EDIT, ICON_TRASH } from '~/renderer/constants';
 
@@ -53,6 +53,8 @@ export const Autofill = () => {
       <Header style={{ paddingBottom: 12 }}>Autofill</Header>
       <Passwords />
       <Addresses />
+      <Contacts />
+      <Cards />
       <Menu />
     </>
   );
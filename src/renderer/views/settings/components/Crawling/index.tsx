@@ -0,0 +1,201 @@
+import * as React from 'react';
+import { observer } from 'mobx-react-lite';
+
+import { Switch } from '~/renderer/components/Switch';
+import { Textfield } from '~/renderer/components/Textfield';
+import { Dropdown } from '~/renderer/components/Dropdown';
+import { Title, Row, Control, Header, SecondaryText } from '../App/style';
+import store from '../../store';
+import { onSwitchChange } from '../../utils';
+import { NormalButton } from '../App';
+import { SENSITIVE_SITE_CATEGORIES } from '~/constants/crawl-rules';
+import {
+  CrawlRuleType,
+  ICrawlRule,
+  ICrawlRules,
+  SensitiveSiteCategory,
+} from '~/interfaces';
+
+type RuleListKey = 'denyList' | 'allowList' | 'loggedInExclusions';
+
+const isValidPattern = (type: CrawlRuleType, pattern: string) => {
+  if (!pattern.trim()) return false;
+  if (type === 'glob') return !/[\s:]/.test(pattern.trim());
+
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const SameSiteToggle = observer(() => {
+  const { sameSiteOnly } = store.settings.crawlRules;
+
+  return (
+    <Row onClick={onSwitchChange('crawlRules', 'sameSiteOnly')}>
+      <div>
+        <Title>Only follow links within the same site</Title>
+        <SecondaryText>
+          Links to other sites found on a page are not crawled
+        </SecondaryText>
+      </div>
+      <Control>
+        <Switch value={sameSiteOnly} />
+      </Control>
+    </Row>
+  );
+});
+
+const onCategoryClick = (category: SensitiveSiteCategory) => () => {
+  const rules = store.settings.crawlRules;
+
+  if (rules.sensitiveCategories.includes(category)) {
+    rules.sensitiveCategories = rules.sensitiveCategories.filter(
+      (x) => x !== category,
+    );
+  } else {
+    rules.sensitiveCategories = [...rules.sensitiveCategories, category];
+  }
+
+  store.save();
+};
+
+const SensitiveCategory = observer(
+  ({ category }: { category: SensitiveSiteCategory }) => {
+    const { title, rules } = SENSITIVE_SITE_CATEGORIES[category];
+    const { sensitiveCategories } = store.settings.crawlRules;
+
+    return (
+      <Row onClick={onCategoryClick(category)}>
+        <div>
+          <Title>{title}</Title>
+          <SecondaryText>
+            Never crawled, {rules.length} built-in rules
+          </SecondaryText>
+        </div>
+        <Control>
+          <Switch value={sensitiveCategories.includes(category)} />
+        </Control>
+      </Row>
+    );
+  },
+);
+
+const onRemoveRuleClick = (list: RuleListKey, rule: ICrawlRule) => () => {
+  const rules: ICrawlRules = store.settings.crawlRules;
+  rules[list] = rules[list].filter(
+    (x) => x.type !== rule.type || x.pattern !== rule.pattern,
+  );
+  store.save();
+};
+
+const RuleList = observer(
+  ({
+    list,
+    title,
+    description,
+  }: {
+    list: RuleListKey;
+    title: string;
+    description: string;
+  }) => {
+    const inputRef = React.useRef<Textfield>();
+    const [type, setType] = React.useState<CrawlRuleType>('glob');
+
+    const onAddClick = () => {
+      const pattern = inputRef.current.value.trim();
+      if (!inputRef.current.test((value) => isValidPattern(type, value))) {
+        return;
+      }
+
+      const rules = store.settings.crawlRules;
+      if (!rules[list].some((x) => x.type === type && x.pattern === pattern)) {
+        rules[list] = [...rules[list], { type, pattern }];
+        store.save();
+      }
+
+      inputRef.current.clear();
+    };
+
+    return (
+      <>
+        <Row style={{ cursor: 'default' }}>
+          <div>
+            <Title>{title}</Title>
+            <SecondaryText>{description}</SecondaryText>
+          </div>
+        </Row>
+        {store.settings.crawlRules[list].map((rule) => (
+          <Row key={`${rule.type}:${rule.pattern}`} style={{ minHeight: 48 }}>
+            <div>
+              <Title>{rule.pattern}</Title>
+              <SecondaryText>
+                {rule.type === 'glob' ? 'Glob' : 'Regex'}
+              </SecondaryText>
+            </div>
+            <Control>
+              <NormalButton onClick={onRemoveRuleClick(list, rule)}>
+                Remove
+              </NormalButton>
+            </Control>
+          </Row>
+        ))}
+        <Row style={{ cursor: 'default' }}>
+          <Textfield
+            ref={inputRef}
+            width={320}
+            dark={store.theme['pages.lightForeground']}
+            placeholder={type === 'glob' ? '*.example.com' : '^https://'}
+          />
+          <Dropdown
+            defaultValue={type}
+            onChange={(value: CrawlRuleType) => setType(value)}
+            style={{ marginLeft: 16, width: 120 }}
+          >
+            <Dropdown.Item value="glob">Glob</Dropdown.Item>
+            <Dropdown.Item value="regex">Regex</Dropdown.Item>
+          </Dropdown>
+          <Control>
+            <NormalButton onClick={onAddClick}>Add</NormalButton>
+          </Control>
+        </Row>
+      </>
+    );
+  },
+);
+
+export const Crawling = () => {
+  return (
+    <>
+      <Header>Crawling</Header>
+      <SecondaryText style={{ marginBottom: 8 }}>
+        Pages you visit and the links on them are crawled in the background to
+        build context. Glob rules match the site address, or the address and
+        path when they contain a slash. Regex rules match the full URL.
+      </SecondaryText>
+      <SameSiteToggle />
+      {(Object.keys(SENSITIVE_SITE_CATEGORIES) as SensitiveSiteCategory[]).map(
+        (category) => (
+          <SensitiveCategory key={category} category={category} />
+        ),
+      )}
+      <RuleList
+        list="denyList"
+        title="Never crawl"
+        description="URLs matching these rules are never crawled"
+      />
+      <RuleList
+        list="allowList"
+        title="Only crawl"
+        description="When not empty, only URLs matching these rules are crawled"
+      />
+      <RuleList
+        list="loggedInExclusions"
+        title="Never crawl while logged in"
+        description="Matching sites are skipped while you have a session on them"
+      />
+    </>
+  );
+};
@@ -1,19 +1,139 @@
 import * as React from 'react';
 import { observer } from 'mobx-react-lite';
+import { ipcRenderer } from 'electron';
 
 import { Dialog, Title, Content, Buttons, CloseButton } from '../../Dialog';
 import { Button } from '~/renderer/components/Button';
+import Checkbox from '~/renderer/components/Checkbox';
+import { Dropdown } from '~/renderer/components/Dropdown';
+import { SecondaryText } from '../../App/style';
+import {
+  BROWSING_DATA_CATEGORIES,
+  BROWSING_DATA_TIME_RANGES,
+} from '~/constants';
+import { BrowsingDataCategory, BrowsingDataTimeRange } from '~/interfaces';
 import store from '../../../store';
 
+const CATEGORIES = Object.keys(
+  BROWSING_DATA_CATEGORIES,
+) as BrowsingDataCategory[];
+
+const TIME_RANGES = Object.keys(
+  BROWSING_DATA_TIME_RANGES,
+) as BrowsingDataTimeRange[];
+
+// Checked when the dialog opens
+const DEFAULT_CATEGORIES: BrowsingDataCategory[] = [
+  'history',
+  'cookies',
+  'cache',
+];
+
 export default observer(() => {
+  const [timeRange, setTimeRange] = React.useState<BrowsingDataTimeRange>(
+    'hour',
+  );
+  const [clearing, setClearing] = React.useState(false);
+  const [error, setError] = React.useState<string>(null);
+  const refs = React.useRef(
+    CATEGORIES.map(() => React.createRef<Checkbox>()),
+  ).current;
+
+  const visible = store.dialogContent === 'privacy';
+
+  // Categories that can't be cleared by time are left out of shorter ranges
+  const isAvailable = (category: BrowsingDataCategory) =>
+    timeRange === 'all' || !BROWSING_DATA_CATEGORIES[category].allTime;
+
+  React.useEffect(() => {
+    if (!visible) return;
+
+    setError(null);
+    CATEGORIES.forEach((category, i) => {
+      refs[i].current.value =
+        DEFAULT_CATEGORIES.includes(category) && isAvailable(category);
+    });
+  }, [visible]);
+
+  React.useEffect(() => {
+    CATEGORIES.forEach((category, i) => {
+      if (!isAvailable(category)) refs[i].current.value = false;
+    });
+  }, [timeRange]);
+
+  const onClearClick = async () => {
+    const categories = CATEGORIES.filter(
+      (c, i) => refs[i].current.value && isAvailable(c),
+    );
+    if (!categories.length || clearing) return;
+
+    setClearing(true);
+    const res = await ipcRenderer.invoke('clear-browsing-data', {
+      timeRange,
+      categories,
+    });
+    setClearing(false);
+
+    if (categories.includes('formData') || categories.includes('passwords')) {
+      await store.autoFill.load();
+    }
+
+    if (res.ok) {
+      store.dialogContent = null;
+    } else {
+      setError(
+        Array.isArray(res.data)
+          ? `Could not clear: ${res.data
+              .map((c: BrowsingDataCategory) => BROWSING_DATA_CATEGORIES[c].title)
+              .join(', ')}`
+          : res.data,
+      );
+    }
+  };
+
   return (
-    <Dialog visible={store.dialogContent === 'privacy'} style={{ width: 344 }}>
+    <Dialog
+      visible={visible}
+      style={{ width: 400, top: 96, left: 'calc(50% - 200px)', zIndex: 10 }}
+    >
       <Title>Clear browsing data</Title>
-      <Content></Content>
+      <Content>
+        <Dropdown
+          defaultValue="hour"
+          onChange={setTimeRange}
+          style={{ marginBottom: 16 }}
+        >
+          {TIME_RANGES.map((range) => (
+            <Dropdown.Item key={range} value={range}>
+              {BROWSING_DATA_TIME_RANGES[range].title}
+            </Dropdown.Item>
+          ))}
+        </Dropdown>
+        {CATEGORIES.map((category, i) => {
+          const { title, description } = BROWSING_DATA_CATEGORIES[category];
+          const available = isAvailable(category);
+
+          return (
+            <div key={category} style={{ marginBottom: 12 }}>
+              <Checkbox ref={refs[i]} disabled={!available}>
+                {title}
+              </Checkbox>
+              <SecondaryText style={{ marginLeft: 30 }}>
+                {available ? description : 'Can only be cleared for all time'}
+              </SecondaryText>
+            </div>
+          );
+        })}
+        {error && <SecondaryText style={{ color: 'red' }}>{error}</SecondaryText>}
+      </Content>
       <Buttons>
         <CloseButton />
-        <Button background="transparent" foreground="#3F51B5">
-          CLEAR DATA
+        <Button
+          background="transparent"
+          foreground="#3F51B5"
+          onClick={onClearClick}
+        >
+          {clearing ? 'CLEARING…' : 'CLEAR DATA'}
         </Button>
       </Buttons>
     </Dialog>
@@ -1,12 +1,15 @@
 import * as React from 'react';
 
-import { Header, Row, Title, Control } from '../App/style';
+import { Header, Row, Title, Control, SecondaryText } from '../App/style';
 import { Button } from '~/renderer/components/Button';
 import store from '../../store';
 import { BLUE_500 } from '~/renderer/constants';
 import { observer } from 'mobx-react-lite';
 import { onSwitchChange } from '../../utils';
 import { Switch } from '~/renderer/components/Switch';
+import { BROWSING_DATA_CATEGORIES } from '~/constants';
+import { BrowsingDataCategory, ICapturePolicy } from '~/interfaces';
+import BrowsingDataDialog from './BrowsingDataDialog';
 
 const onClearBrowsingData = () => {
   store.dialogContent = 'privacy';
@@ -59,6 +62,55 @@ const GlobalPrivacyControlToggle = observer(() => {
   );
 });
 
+const CaptureToggle = observer(
+  ({
+    name,
+    title,
+    description,
+  }: {
+    name: keyof ICapturePolicy;
+    title: string;
+    description: string;
+  }) => (
+    <Row onClick={onSwitchChange('capture', name)}>
+      <div>
+        <Title>{title}</Title>
+        <SecondaryText>{description}</SecondaryText>
+      </div>
+      <Control>
+        <Switch value={store.settings.capture[name]} />
+      </Control>
+    </Row>
+  ),
+);
+
+const onClearOnExitClick = (category: BrowsingDataCategory) => () => {
+  const { clearOnExit } = store.settings;
+
+  if (clearOnExit.includes(category)) {
+    store.settings.clearOnExit = clearOnExit.filter((x) => x !== category);
+  } else {
+    store.settings.clearOnExit = [...clearOnExit, category];
+  }
+
+  store.save();
+};
+
+const ClearOnExitToggle = observer(
+  ({ category }: { category: BrowsingDataCategory }) => {
+    const { title } = BROWSING_DATA_CATEGORIES[category];
+
+    return (
+      <Row onClick={onClearOnExitClick(category)}>
+        <Title>{title}</Title>
+        <Control>
+          <Switch value={store.settings.clearOnExit.includes(category)} />
+        </Control>
+      </Row>
+    );
+  },
+);
+
 export const Privacy = () => {
   return (
     <>
@@ -72,6 +124,30 @@ export const Privacy = () => {
       </Button>
       <GlobalPrivacyControlToggle />
       <DoNotTrackToggle />
+      <Title style={{ marginTop: 24 }}>Context capture</Title>
+      <SecondaryText style={{ marginBottom: 8 }}>
+        Private windows never capture anything
+      </SecondaryText>
+      <CaptureToggle
+        name="crawl"
+        title="Keep the pages you visit"
+        description="Pages are stored for the context and their links crawled"
+      />
+      <CaptureToggle
+        name="network"
+        title="Log the requests of the pages you visit"
+        description="Requests and streams are turned into tools"
+      />
+      <Title style={{ marginTop: 24 }}>Clear on exit</Title>
+      <SecondaryText style={{ marginBottom: 8 }}>
+        Cleared for all time every time the browser closes
+      </SecondaryText>
+      {(Object.keys(BROWSING_DATA_CATEGORIES) as BrowsingDataCategory[]).map(
+        (category) => (
+          <ClearOnExitToggle key={category} category={category} />
+        ),
+      )}
+      <BrowsingDataDialog />
     </>
   );
 };
@@ -1,7 +1,20 @@
 import { observable, action, makeObservable } from 'mobx';
-
-import { IFormFillData } from '~/interfaces';
+import { ipcRenderer } from 'electron';
+
+import {
+  IFormFillData,
+  IPasswordImportPreview,
+  IPasswordImportResult,
+  IPasswordVaultStatus,
+  PasswordCsvFormat,
+} from '~/interfaces';
 import { PreloadDatabase } from '~/preloads/models/database';
+import {
+  getPasswordVaultStatus,
+  lockPasswordVault,
+  setupPasswordVault,
+  unlockPasswordVault,
+} from '~/preloads/utils/autofill';
 
 export class AutoFillStore {
   public db = new PreloadDatabase<IFormFillData>('formfill');
@@ -10,6 +23,10 @@ export class AutoFillStore {
 
   public addresses: IFormFillData[] = [];
 
+  public contacts: IFormFillData[] = [];
+
+  public cards: IFormFillData[] = [];
+
   public menuVisible = false;
 
   public menuTop = 0;
@@ -18,18 +35,48 @@ export class AutoFillStore {
 
   public selectedItem: IFormFillData = null;
 
+  public vault: IPasswordVaultStatus = {
+    initialized: false,
+    unlocked: false,
+  };
+
+  public vaultError: string = null;
+
+  public importPreview: IPasswordImportPreview = null;
+
+  // Rows of the conflicting logins whose saved password gets replaced.
+  public importReplace: number[] = [];
+
+  public transferMessage: string = null;
+
   public constructor() {
     makeObservable(this, {
       credentials: observable,
       addresses: observable,
+      contacts: observable,
+      cards: observable,
       menuVisible: observable,
       menuTop: observable,
       menuLeft: observable,
       selectedItem: observable,
+      vault: observable,
+      vaultError: observable,
       load: action,
+      loadVault: action,
+      unlockVault: action,
+      lockVault: action,
+      importPreview: observable,
+      importReplace: observable,
+      transferMessage: observable,
+      previewImport: action,
+      toggleImportReplace: action,
+      applyImport: action,
+      cancelImport: action,
+      exportPasswords: action,
     });
 
     this.load();
+    this.loadVault();
 
     window.addEventListener('message', ({ data }) => {
       if (data.type === 'credentials-insert') {
@@ -54,6 +101,97 @@ export class AutoFillStore {
 
     this.credentials = items.filter((r) => r.type === 'password');
     this.addresses = items.filter((r) => r.type === 'address');
+    this.contacts = items.filter((r) => r.type === 'contact');
+    this.cards = items.filter((r) => r.type === 'card');
+  }
+
+  public async loadVault() {
+    this.vault = await getPasswordVaultStatus();
+  }
+
+  // Sets up the vault on first use, unlocks it afterwards.
+  public async unlockVault(masterPassword: string) {
+    const res = this.vault.initialized
+      ? await unlockPasswordVault(masterPassword)
+      : await setupPasswordVault(masterPassword);
+
+    if (res.ok) {
+      this.vault = res.data as IPasswordVaultStatus;
+      this.vaultError = null;
+    } else {
+      this.vaultError = res.data as string;
+    }
+
+    return res.ok;
+  }
+
+  public async lockVault() {
+    this.vault = await lockPasswordVault();
+  }
+
+  public async previewImport() {
+    const res = await ipcRenderer.invoke('passwords-import-preview');
+
+    if (!res.ok) {
+      this.transferMessage = res.data;
+      if (res.status === 401) await this.loadVault();
+    } else if (res.data) {
+      this.importPreview = res.data;
+      this.importReplace = [];
+      this.transferMessage = null;
+    }
+  }
+
+  public toggleImportReplace(index: number) {
+    if (this.importReplace.includes(index)) {
+      this.importReplace = this.importReplace.filter((r) => r !== index);
+    } else {
+      this.importReplace.push(index);
+    }
+  }
+
+  public async applyImport() {
+    const res = await ipcRenderer.invoke(
+      'passwords-import-apply',
+      this.importPreview.id,
+      this.importReplace,
+    );
+
+    this.importPreview = null;
+
+    if (res.ok) {
+      const { inserted, replaced } = res.data as IPasswordImportResult;
+      this.transferMessage = `Imported ${inserted} new and replaced ${replaced} saved passwords.`;
+      await this.load();
+    } else {
+      this.transferMessage = res.data;
+      if (res.status === 401) await this.loadVault();
+    }
+  }
+
+  public cancelImport() {
+    ipcRenderer.send('passwords-import-cancel');
+    this.importPreview = null;
+  }
+
+  // Asks for the master password again, the file holds every password.
+  public async exportPasswords(
+    masterPassword: string,
+    format: PasswordCsvFormat,
+  ) {
+    const res = await ipcRenderer.invoke(
+      'passwords-export',
+      masterPassword,
+      format,
+    );
+
+    if (res.ok && res.data) {
+      this.transferMessage = `Passwords exported to ${res.data}.`;
+    } else if (!res.ok) {
+      this.transferMessage = res.data;
+    }
+
+    return res.ok;
   }
 
   public async removeItem(data: IFormFillData) {
@@ -61,6 +199,10 @@ export class AutoFillStore {
 
     if (data.type === 'password') {
       this.credentials = this.credentials.filter((r) => r._id !== data._id);
+    } else if (data.type === 'contact') {
+      this.contacts = this.contacts.filter((r) => r._id !== data._id);
+    } else if (data.type === 'card') {
+      this.cards = this.cards.filter((r) => r._id !== data._id);
     } else {
       this.addresses = this.addresses.filter((r) => r._id !== data._id);
     }
@@ -17,6 +17,7 @@ export type SettingsSection =
   | 'language'
   | 'shortcuts'
   | 'downloads'
+  | 'crawling'
   | 'system'
   | 'search-engines'
   | 'account';
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment jsdom
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { FormFieldType } from '~/interfaces';
+import { describeField } from '~/preloads/utils/dom';
+import { classifyForm, parseAutocomplete } from '../form-field-classifier';
+
+interface IFormFixture {
+  name: string;
+  // Type expected for each field, by its name attribute.
+  fields: Record<string, FormFieldType>;
+  sections?: Record<string, string>;
+}
+
+type Field = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+const FIXTURES_DIR = join(__dirname, 'fixtures/forms');
+
+const fixtures: IFormFixture[] = JSON.parse(
+  readFileSync(join(FIXTURES_DIR, 'index.json'), 'utf8'),
+);
+
+// Gathers the fields of the first form the way the preload does, along
+// with the ones outside of it pointing at it.
+const classifyPage = (html: string) => {
+  document.body.innerHTML = html;
+
+  const form = document.querySelector('form');
+  const id = form.getAttribute('id');
+  const fields = [
+    ...Array.from(form.querySelectorAll<Field>('input, select, textarea')),
+    ...(id
+      ? Array.from(
+          document.querySelectorAll<Field>(
+            `input[form="${id}"], select[form="${id}"], textarea[form="${id}"]`,
+          ),
+        )
+      : []),
+  ];
+
+  const classes = classifyForm(fields.map(describeField));
+  return new Map(
+    fields.map((field, i) => [field.getAttribute('name'), classes[i]]),
+  );
+};
+
+describe('classifyForm', () => {
+  it.each(fixtures.map((f) => [f.name, f]))(
+    'classifies the %s form',
+    (name, { fields, sections }: IFormFixture) => {
+      const classes = classifyPage(
+        readFileSync(join(FIXTURES_DIR, `${name}.html`), 'utf8'),
+      );
+
+      const types: Record<string, FormFieldType> = {};
+      for (const field of Object.keys(fields)) {
+        types[field] = classes.get(field)?.type ?? null;
+      }
+      expect(types).toEqual(fields);
+
+      for (const [field, section] of Object.entries(sections ?? {})) {
+        expect(classes.get(field).section).toBe(section);
+      }
+    },
+  );
+});
+
+describe('describeField', () => {
+  it('reads labels pointing at, wrapping or labelling the field', () => {
+    document.body.innerHTML = `
+      <span id="a">Given</span><span id="b">name</span>
+      <label for="x">Email</label>
+      <label>Phone <input id="y"></label>
+      <input id="x" name="mail" type="email" placeholder="you@example.com">
+      <input id="z" aria-labelledby="a b">
+    `;
+
+    expect(describeField(document.querySelector('#x'))).toEqual({
+      tagName: 'INPUT',
+      type: 'email',
+      name: 'mail',
+      id: 'x',
+      autocomplete: null,
+      label: 'Email',
+      placeholder: 'you@example.com',
+      ariaLabel: '',
+    });
+    expect(describeField(document.querySelector('#y')).label).toBe('Phone');
+    expect(describeField(document.querySelector('#z')).ariaLabel).toBe(
+      'Given name',
+    );
+  });
+});
+
+describe('parseAutocomplete', () => {
+  it.each([
+    ['email', { type: 'email', section: '' }],
+    [
+      'section-work billing tel',
+      { type: 'tel', section: 'section-work billing' },
+    ],
+    ['shipping home tel-national', { type: 'tel', section: 'shipping' }],
+    ['username webauthn', { type: 'username', section: '' }],
+    ['off', null],
+    ['', null],
+  ])('reads %p', (value, expected) => {
+    expect(parseAutocomplete(value)).toEqual(expected);
+  });
+});
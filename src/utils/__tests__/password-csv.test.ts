@@ -0,0 +1,110 @@
+import { IPasswordCsvEntry, PasswordCsvFormat } from '~/interfaces';
+import {
+  detectPasswordCsvFormat,
+  parseCsv,
+  parsePasswordCsv,
+  stringifyPasswordCsv,
+} from '../password-csv';
+
+const FORMATS: PasswordCsvFormat[] = ['chrome', 'firefox', 'bitwarden'];
+
+// Values that need quoting or are easily mangled on the way.
+const ENTRIES: IPasswordCsvEntry[] = [
+  {
+    url: 'https://accounts.example.com/login',
+    username: 'jane@example.com',
+    password: 'hunter2',
+  },
+  {
+    url: 'https://shop.example.com/',
+    username: 'Doe, Jane',
+    password: 'say "hello", then\r\nleave',
+  },
+  {
+    url: 'https://bank.example.com:8443/signin?next=/home',
+    username: ' padded ',
+    password: 'pässwörd-密码',
+  },
+  { url: 'https://forum.example.com/', username: '', password: '' },
+];
+
+// Exports as written by the password managers themselves.
+const EXPORTS: Record<PasswordCsvFormat, string> = {
+  chrome:
+    'name,url,username,password,note\n' +
+    'example.com,https://example.com/,jane,"p,ss",\n',
+  firefox:
+    '"url","username","password","httpRealm","formActionOrigin","guid","timeCreated","timeLastUsed","timePasswordChanged"\r\n' +
+    '"https://example.com","jane","p,ss","","https://example.com","{0b1c}","1700000000000","1700000000000","1700000000000"\r\n',
+  bitwarden:
+    '\uFEFFfolder,favorite,type,name,notes,fields,reprompt,login_uri,login_username,login_password,login_totp\n' +
+    ',,login,example.com,,,0,https://example.com/,jane,"p,ss",\n',
+};
+
+describe('stringifyPasswordCsv', () => {
+  it.each(FORMATS)('round-trips %s exports', (format) => {
+    const parsed = parsePasswordCsv(stringifyPasswordCsv(ENTRIES, format));
+
+    expect(parsed.format).toBe(format);
+    expect(parsed.entries).toEqual(ENTRIES);
+  });
+
+  it.each(FORMATS)('writes the header of %s', (format) => {
+    const [header] = parseCsv(EXPORTS[format]);
+    const [written] = parseCsv(stringifyPasswordCsv([], format));
+
+    expect(written).toEqual(header);
+  });
+
+  it('quotes every field of Firefox exports', () => {
+    const [, row] = stringifyPasswordCsv(ENTRIES.slice(0, 1), 'firefox').split(
+      '\r\n',
+    );
+    expect(row.split(',').every((field) => /^".*"$/.test(field))).toBe(true);
+  });
+});
+
+describe('parsePasswordCsv', () => {
+  it.each(FORMATS)('reads %s exports', (format) => {
+    expect(parsePasswordCsv(EXPORTS[format])).toEqual({
+      format,
+      entries: [
+        {
+          url: expect.stringMatching(/^https:\/\/example\.com\/?$/),
+          username: 'jane',
+          password: 'p,ss',
+        },
+      ],
+    });
+  });
+
+  it('rejects unknown files', () => {
+    expect(parsePasswordCsv('title,author\nDune,Herbert\n')).toEqual({
+      format: null,
+      entries: [],
+    });
+  });
+});
+
+describe('detectPasswordCsvFormat', () => {
+  it('ignores the case and spaces of the header', () => {
+    expect(detectPasswordCsvFormat([' URL', 'Username ', 'Password'])).toBe(
+      'chrome',
+    );
+  });
+});
+
+describe('parseCsv', () => {
+  it('keeps quoted line breaks and doubled quotes', () => {
+    expect(parseCsv('a,"b\r\nc","d ""e"""\r\n')).toEqual([
+      ['a', 'b\r\nc', 'd "e"'],
+    ]);
+  });
+
+  it('skips blank lines', () => {
+    expect(parseCsv('a,b\n\n\nc,d\n')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+});
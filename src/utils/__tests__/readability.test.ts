@@ -0,0 +1,37 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { IArticleMetadata } from '~/interfaces';
+import { parseArticle } from '../parse';
+
+interface IPageFixture {
+  name: string;
+  url: string;
+  metadata: IArticleMetadata;
+}
+
+const FIXTURES_DIR = join(__dirname, 'fixtures/readability');
+
+const fixtures: IPageFixture[] = JSON.parse(
+  readFileSync(join(FIXTURES_DIR, 'index.json'), 'utf8'),
+);
+
+const read = (file: string) => readFileSync(join(FIXTURES_DIR, file), 'utf8');
+
+describe('parseArticle', () => {
+  it.each(fixtures.map((f) => [f.name, f]))(
+    'converts %s to the expected markdown',
+    (name, { url }: IPageFixture) => {
+      const { content } = parseArticle(read(`${name}.html`), url);
+      expect(`${content}\n`).toBe(read(`${name}.md`));
+    },
+  );
+
+  it.each(fixtures.map((f) => [f.name, f]))(
+    'reads the metadata of %s',
+    (name, { url, metadata }: IPageFixture) => {
+      const { content, ...actual } = parseArticle(read(`${name}.html`), url);
+      expect(JSON.parse(JSON.stringify(actual))).toEqual(metadata);
+    },
+  );
+});
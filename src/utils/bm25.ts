@@ -0,0 +1,145 @@
+// Okapi BM25 parameters, k1 saturates term frequency and b controls how
+// much long documents are penalized.
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'how',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'what',
+  'when',
+  'where',
+  'which',
+  'who',
+  'why',
+  'with',
+]);
+
+// Words are runs of ASCII letters and digits, and of Latin, Greek, Cyrillic
+// and CJK letters.
+export const WORD_CHARACTERS = 'a-z0-9\\u00c0-\\u024f\\u0370-\\u04ff\\u3040-\\u9fff';
+
+const WORD_SEPARATOR = new RegExp(`[^${WORD_CHARACTERS}]+`);
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(WORD_SEPARATOR)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+
+interface IndexedDocument {
+  length: number;
+  frequencies: Map<string, number>;
+}
+
+/**
+ * Keyword index over a set of documents, scored with Okapi BM25.
+ */
+export class Bm25Index {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  public get size() {
+    return this.documents.size;
+  }
+
+  public has(id: string) {
+    return this.documents.has(id);
+  }
+
+  public ids() {
+    return Array.from(this.documents.keys());
+  }
+
+  public add(id: string, text: string) {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+
+    for (const term of frequencies.keys()) {
+      this.documentFrequencies.set(
+        term,
+        (this.documentFrequencies.get(term) ?? 0) + 1,
+      );
+    }
+
+    this.documents.set(id, { length: tokens.length, frequencies });
+    this.totalLength += tokens.length;
+  }
+
+  public remove(id: string) {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const term of document.frequencies.keys()) {
+      const count = this.documentFrequencies.get(term) - 1;
+      if (count > 0) {
+        this.documentFrequencies.set(term, count);
+      } else {
+        this.documentFrequencies.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * Returns the score of every document containing at least one of the
+   * query terms.
+   */
+  public search(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const terms = Array.from(new Set(tokenize(query)));
+
+    if (terms.length === 0 || this.documents.size === 0) return scores;
+
+    const count = this.documents.size;
+    const averageLength = this.totalLength / count || 1;
+
+    for (const term of terms) {
+      const frequency = this.documentFrequencies.get(term);
+      if (!frequency) continue;
+
+      const idf = Math.log(1 + (count - frequency + 0.5) / (frequency + 0.5));
+
+      for (const [id, document] of this.documents) {
+        const tf = document.frequencies.get(term);
+        if (!tf) continue;
+
+        const norm = K1 * (1 - B + (B * document.length) / averageLength);
+        const score = (idf * (tf * (K1 + 1))) / (tf + norm);
+
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
+
+    return scores;
+  }
+}
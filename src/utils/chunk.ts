@@ -0,0 +1,216 @@
+export interface IChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+  // Sections shorter than this are merged with the next one.
+  minChars?: number;
+}
+
+export interface IChunk {
+  text: string;
+  // Offsets of the passage in the chunked text, end excluded.
+  start: number;
+  end: number;
+  headings: string[];
+  page: number;
+}
+
+interface Block {
+  start: number;
+  end: number;
+  heading?: { level: number; title: string };
+}
+
+const DEFAULT_MAX_CHARS = 1500;
+const DEFAULT_OVERLAP_CHARS = 200;
+const DEFAULT_MIN_CHARS = 200;
+
+// Rough amount of text on a printed page, used when the text carries no
+// form feeds marking the real page breaks.
+const CHARS_PER_PAGE = 3000;
+
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)\s*#*$/;
+
+/**
+ * Splits text into paragraphs, with every markdown heading as a block of
+ * its own.
+ */
+const getBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  let current: Block = null;
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const start = offset;
+    const end = start + line.length;
+    offset = end + 1;
+
+    const trimmed = line.trim();
+    const heading = HEADING_REGEX.exec(trimmed);
+
+    if (!trimmed || heading) {
+      if (current) blocks.push(current);
+      current = null;
+    }
+
+    if (heading) {
+      blocks.push({
+        start,
+        end,
+        heading: { level: heading[1].length, title: heading[2] },
+      });
+    } else if (trimmed) {
+      if (current) {
+        current.end = end;
+      } else {
+        current = { start, end };
+      }
+    }
+  }
+
+  if (current) blocks.push(current);
+
+  return blocks;
+};
+
+/**
+ * Cuts a block that doesn't fit in a passage at sentence ends, or at the
+ * size limit when a sentence is longer than that.
+ */
+const splitBlock = (text: string, block: Block, maxChars: number): Block[] => {
+  const pieces: Block[] = [];
+  const sentenceEnd = /[.!?]\s+/g;
+  let start = block.start;
+
+  while (block.end - start > maxChars) {
+    const limit = start + maxChars;
+    let cut = -1;
+
+    sentenceEnd.lastIndex = start;
+    let match: RegExpExecArray;
+    while ((match = sentenceEnd.exec(text)) && match.index < limit) {
+      cut = match.index + match[0].length;
+    }
+
+    if (cut <= start || cut > limit) cut = limit;
+
+    pieces.push({ start, end: cut });
+    start = cut;
+  }
+
+  pieces.push({ start, end: block.end });
+
+  return pieces;
+};
+
+const getPageAt = (text: string, offset: number) => {
+  if (!text.includes('\f')) {
+    return Math.floor(offset / CHARS_PER_PAGE) + 1;
+  }
+
+  let page = 1;
+  for (let i = text.indexOf('\f'); i !== -1 && i < offset; ) {
+    page++;
+    i = text.indexOf('\f', i + 1);
+  }
+
+  return page;
+};
+
+/**
+ * Splits markdown into overlapping passages. Passages don't cross headings
+ * unless a section is too short to stand on its own, and each one carries
+ * the headings it is nested in.
+ */
+export const chunkMarkdown = (
+  text: string,
+  options: IChunkOptions = {},
+): IChunk[] => {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = options.overlapChars ?? DEFAULT_OVERLAP_CHARS;
+  const minChars = options.minChars ?? DEFAULT_MIN_CHARS;
+
+  const chunks: IChunk[] = [];
+  const headings: string[] = [];
+
+  let current: Block[] = [];
+  let currentHeadings: string[] = [];
+
+  const size = (blocks: Block[]) =>
+    blocks.length ? blocks[blocks.length - 1].end - blocks[0].start : 0;
+
+  const flush = (overlap: boolean, final = false) => {
+    // Headings at the end belong to the passage that follows them.
+    let split = current.length;
+    while (!final && split > 0 && current[split - 1].heading) split--;
+
+    const carried = current.slice(split);
+    current = current.slice(0, split);
+
+    if (current.length === 0) {
+      current = carried;
+      return;
+    }
+
+    const start = current[0].start;
+    const end = current[current.length - 1].end;
+
+    chunks.push({
+      text: text.slice(start, end),
+      start,
+      end,
+      headings: currentHeadings,
+      page: getPageAt(text, start),
+    });
+
+    current = carried;
+    currentHeadings = headings.filter((heading) => heading);
+
+    if (carried.length === 0 && overlap && overlapChars > 0) {
+      // Repeat the tail of the passage, starting at a word boundary.
+      let from = Math.max(start + 1, end - overlapChars);
+      const space = text.slice(from, end).search(/\s\S/);
+      if (space !== -1) from += space + 1;
+
+      if (from < end) {
+        current = [{ start: from, end }];
+      }
+    }
+  };
+
+  for (const block of getBlocks(text)) {
+    if (block.heading) {
+      if (size(current) >= minChars) {
+        flush(false);
+      }
+
+      headings.splice(block.heading.level - 1);
+      headings[block.heading.level - 1] = block.heading.title;
+    }
+
+    // Long paragraphs are cut small enough to leave room for the overlap.
+    const pieces = block.heading
+      ? [block]
+      : splitBlock(text, block, Math.max(1, maxChars - overlapChars));
+
+    for (const piece of pieces) {
+      if (current.length > 0 && piece.end - current[0].start > maxChars) {
+        flush(true);
+
+        // Drop the overlap when it leaves no room for the piece.
+        if (current.length > 0 && piece.end - current[0].start > maxChars) {
+          current = current.filter((block) => block.heading);
+        }
+      }
+
+      if (current.length === 0) {
+        currentHeadings = headings.filter((heading) => heading);
+      }
+
+      current.push(piece);
+    }
+  }
+
+  flush(false, true);
+
+  return chunks;
+};
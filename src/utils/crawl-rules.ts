@@ -0,0 +1,121 @@
+import { ICrawlRule, ICrawlRules } from '~/interfaces';
+import { SENSITIVE_SITE_CATEGORIES } from '~/constants/crawl-rules';
+
+// Second-level labels under which sites are registered, e.g. example.co.uk.
+const SECOND_LEVEL_LABELS = ['co', 'com', 'org', 'net', 'gov', 'ac', 'edu'];
+
+const escapeRegExp = (str: string) =>
+  str.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+const globToRegExp = (pattern: string) => {
+  // `*.example.com` also covers example.com itself.
+  const wildcardSubdomains = pattern.startsWith('*.');
+  const body = (wildcardSubdomains ? pattern.slice(2) : pattern)
+    .split('*')
+    .map(escapeRegExp)
+    .join('.*');
+
+  return new RegExp(`^${wildcardSubdomains ? '(.*\\.)?' : ''}${body}$`, 'i');
+};
+
+/**
+ * Glob rules match the hostname, or the hostname followed by the path when
+ * the pattern contains a slash. Regex rules match the full URL.
+ */
+export const matchesCrawlRule = (rule: ICrawlRule, url: string): boolean => {
+  try {
+    if (rule.type === 'regex') {
+      return new RegExp(rule.pattern, 'i').test(url);
+    }
+
+    const { hostname, pathname } = new URL(url);
+    const target = rule.pattern.includes('/') ? hostname + pathname : hostname;
+
+    return globToRegExp(rule.pattern.trim()).test(target);
+  } catch {
+    // Invalid user patterns never match.
+    return false;
+  }
+};
+
+export const matchesAnyCrawlRule = (rules: ICrawlRule[], url: string) =>
+  rules.some((rule) => matchesCrawlRule(rule, url));
+
+export const getSite = (hostname: string): string => {
+  const labels = hostname.toLowerCase().split('.');
+
+  if (labels.length <= 2 || /^\d+$/.test(labels[labels.length - 1])) {
+    return labels.join('.');
+  }
+
+  const count =
+    labels[labels.length - 1].length === 2 &&
+    SECOND_LEVEL_LABELS.includes(labels[labels.length - 2])
+      ? 3
+      : 2;
+
+  return labels.slice(-count).join('.');
+};
+
+export const isSameSite = (url: string, otherUrl: string): boolean => {
+  try {
+    const a = new URL(url);
+    const b = new URL(otherUrl);
+
+    return (
+      a.protocol === b.protocol && getSite(a.hostname) === getSite(b.hostname)
+    );
+  } catch {
+    return false;
+  }
+};
+
+export const getSensitiveCategory = (rules: ICrawlRules, url: string) =>
+  rules.sensitiveCategories.find((category) =>
+    matchesAnyCrawlRule(SENSITIVE_SITE_CATEGORIES[category].rules, url),
+  );
+
+/**
+ * Checks the rules that don't depend on the browser state. Returns the
+ * reason the URL is excluded, or null when it may be crawled.
+ */
+export const getCrawlRuleViolation = (
+  rules: ICrawlRules,
+  url: string,
+  referrer?: string,
+): string | null => {
+  if (matchesAnyCrawlRule(rules.denyList, url)) {
+    return 'Matches the deny list';
+  }
+
+  if (
+    rules.allowList.length > 0 &&
+    !matchesAnyCrawlRule(rules.allowList, url)
+  ) {
+    return 'Not in the allow list';
+  }
+
+  const category = getSensitiveCategory(rules, url);
+  if (category) {
+    return `Sensitive site (${category})`;
+  }
+
+  if (rules.sameSiteOnly && referrer && !isSameSite(url, referrer)) {
+    return 'Leaves the site it was found on';
+  }
+
+  return null;
+};
+
+/**
+ * The rule the address bar toggle adds for a site.
+ */
+export const getSiteRule = (url: string): ICrawlRule => ({
+  type: 'glob',
+  pattern: `*.${getSite(new URL(url).hostname)}`,
+});
+
+export const isSiteRule = (rule: ICrawlRule, url: string) => {
+  const { type, pattern } = getSiteRule(url);
+  return rule.type === type && rule.pattern === pattern;
+};
@@ -0,0 +1,61 @@
+import { IDiffLine } from '~/interfaces';
+
+// Above this many lines on either side the LCS table gets too large, so
+// the texts are reported as entirely replaced.
+const MAX_DIFF_LINES = 2000;
+
+const splitLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+/**
+ * Returns the lines removed from `before` and added in `after`, in the
+ * order they appear, based on the longest common subsequence of lines.
+ */
+export const diffLines = (before: string, after: string): IDiffLine[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((value): IDiffLine => ({ type: 'removed', value })),
+      ...b.map((value): IDiffLine => ({ type: 'added', value })),
+    ];
+  }
+
+  // lengths[i][j] is the LCS length of a[i:] and b[j:].
+  const lengths: Uint16Array[] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lengths[i] = new Uint16Array(b.length + 1);
+    if (i === a.length) continue;
+
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: IDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', value: a[i++] });
+    } else {
+      lines.push({ type: 'added', value: b[j++] });
+    }
+  }
+
+  while (i < a.length) lines.push({ type: 'removed', value: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', value: b[j++] });
+
+  return lines;
+};
@@ -0,0 +1,215 @@
+import {
+  FormFieldType,
+  IFormFieldClassification,
+  IFormFieldDescriptor,
+} from '~/interfaces';
+
+// Below this, a field is left alone.
+const MIN_SCORE = 2;
+
+// An autocomplete token the page set outweighs every guess.
+const AUTOCOMPLETE_WEIGHT = 10;
+
+const SIGNAL_WEIGHTS = {
+  name: 3,
+  label: 3,
+  id: 2,
+  ariaLabel: 2,
+  placeholder: 2,
+};
+
+const IGNORED_INPUT_TYPES = /^(hidden|submit|button|reset|image|file|checkbox|radio|range|color|search|date|datetime-local|time|week)$/;
+
+const AUTOCOMPLETE_TOKENS: Record<string, FormFieldType> = {
+  username: 'username',
+  email: 'email',
+  'current-password': 'current-password',
+  'new-password': 'new-password',
+  name: 'name',
+  'given-name': 'given-name',
+  'additional-name': 'additional-name',
+  'family-name': 'family-name',
+  organization: 'organization',
+  tel: 'tel',
+  'tel-national': 'tel',
+  'street-address': 'street-address',
+  'address-line1': 'address-line1',
+  'address-line2': 'address-line2',
+  'address-line3': 'address-line2',
+  'address-level2': 'address-level2',
+  'address-level1': 'address-level1',
+  'postal-code': 'postal-code',
+  country: 'country',
+  'country-name': 'country',
+  'cc-name': 'cc-name',
+  'cc-number': 'cc-number',
+  'cc-exp': 'cc-exp',
+  'cc-exp-month': 'cc-exp-month',
+  'cc-exp-year': 'cc-exp-year',
+  'cc-csc': 'cc-csc',
+};
+
+// Most specific first, a text only counts for the first pattern it matches,
+// so "first name" is a given name and not a name.
+const PATTERNS: [FormFieldType, RegExp][] = [
+  ['cc-csc', /cvc|cvv|csc|cvn|security.?code|card.?verification/i],
+  ['cc-number', /card.?(number|no\b|num)|cc.?num|credit.?card|acct.?num/i],
+  ['cc-name', /name.?on.?card|card.?holder|cc.?name|holder.?name/i],
+  ['cc-exp-month', /exp\w*\W*mo|cc.?month|card.?month/i],
+  ['cc-exp-year', /exp\w*\W*y(ea)?r|cc.?year|card.?year/i],
+  ['cc-exp', /expir|exp.?date|mm.?\/.?yy/i],
+  ['new-password', /new.?pass|confirm.?pass|pass\w*.?(again|confirm|repeat)|re.?type.?pass|re.?enter.?pass/i],
+  ['current-password', /pass(word|wd)?|pwd/i],
+  ['email', /e.?mail/i],
+  ['username', /user.?name|user.?id|login|account.?name|nick.?name|^user$/i],
+  ['given-name', /first.?name|given.?name|fore.?name|^f.?name$/i],
+  ['additional-name', /middle.?name|additional.?name|^m.?name$/i],
+  ['family-name', /last.?name|family.?name|sur.?name|^l.?name$/i],
+  ['organization', /company|organi[sz]ation|business.?name|employer/i],
+  ['tel', /phone|mobile|\btel\b|telephone|cell/i],
+  ['address-line2', /address.?(line)?.?2|addr.?2|apartment|\bapt\b|suite|unit\b/i],
+  ['address-line1', /address.?(line)?.?1|addr.?1|street/i],
+  ['postal-code', /zip|postal|post.?code/i],
+  ['address-level2', /city|town|locality|suburb/i],
+  ['address-level1', /state|province|region|county/i],
+  ['country', /country/i],
+  ['street-address', /address/i],
+  ['name', /full.?name|your.?name|^name$|\bname\b/i],
+];
+
+const PASSWORD_TYPES: FormFieldType[] = ['current-password', 'new-password'];
+
+const matchPattern = (text: string): FormFieldType => {
+  if (!text) return null;
+
+  const match = PATTERNS.find(([, regex]) => regex.test(text));
+  return match ? match[0] : null;
+};
+
+/**
+ * Reads an autocomplete attribute the way the HTML spec lays it out: an
+ * optional section-* token, an optional shipping or billing token, an
+ * optional home, work or mobile hint and then the field name.
+ */
+export const parseAutocomplete = (
+  value: string,
+): { type: FormFieldType; section: string } => {
+  const tokens = (value || '').trim().toLowerCase().split(/\s+/);
+  if (tokens[tokens.length - 1] === 'webauthn') tokens.pop();
+
+  const type = AUTOCOMPLETE_TOKENS[tokens[tokens.length - 1]];
+  if (!type) return null;
+
+  const section = tokens
+    .filter((t) => t.startsWith('section-') || /^(shipping|billing)$/.test(t))
+    .join(' ');
+
+  return { type, section };
+};
+
+/**
+ * Guesses what a form field asks for from its autocomplete token, its label,
+ * name, id, placeholder and aria label, and its input type. Each of them
+ * adds to the score of the type it points at, and the best type wins if it
+ * scores enough. Returns null for fields that aren't worth filling.
+ */
+export const classifyField = (
+  field: IFormFieldDescriptor,
+): IFormFieldClassification => {
+  const tagName = field.tagName.toLowerCase();
+  const inputType = (field.type || 'text').toLowerCase();
+
+  if (tagName === 'input' && IGNORED_INPUT_TYPES.test(inputType)) return null;
+
+  const autocomplete = parseAutocomplete(field.autocomplete);
+  const section = autocomplete?.section ?? '';
+
+  const scores = new Map<FormFieldType, number>();
+  const add = (type: FormFieldType, score: number) => {
+    if (type) scores.set(type, (scores.get(type) ?? 0) + score);
+  };
+
+  if (autocomplete) add(autocomplete.type, AUTOCOMPLETE_WEIGHT);
+
+  for (const key of Object.keys(SIGNAL_WEIGHTS) as (keyof typeof SIGNAL_WEIGHTS)[]) {
+    add(matchPattern(field[key]), SIGNAL_WEIGHTS[key]);
+  }
+
+  if (inputType === 'email') add('email', 3);
+  if (inputType === 'tel') add('tel', 3);
+
+  if (inputType === 'password') {
+    // Whatever its name says, a masked field only holds a secret
+    for (const type of scores.keys()) {
+      if (!PASSWORD_TYPES.includes(type) && type !== 'cc-csc') {
+        scores.delete(type);
+      }
+    }
+    if (!scores.size) add('current-password', MIN_SCORE);
+  } else {
+    PASSWORD_TYPES.forEach((type) => scores.delete(type));
+  }
+
+  let best: FormFieldType = null;
+  let bestScore = 0;
+
+  for (const [type, score] of scores) {
+    if (score > bestScore) {
+      best = type;
+      bestScore = score;
+    }
+  }
+
+  if (bestScore < MIN_SCORE) return null;
+
+  return { type: best, section, score: bestScore };
+};
+
+/**
+ * Classifies the fields of a form, in document order, then settles what
+ * only the whole form tells.
+ */
+export const classifyForm = (
+  fields: IFormFieldDescriptor[],
+): IFormFieldClassification[] => {
+  const result = fields.map(classifyField);
+
+  const guessed = (i: number) =>
+    result[i] && !parseAutocomplete(fields[i].autocomplete);
+
+  const passwords = result
+    .map((r, i) => (r && PASSWORD_TYPES.includes(r.type) ? i : -1))
+    .filter((i) => i !== -1);
+
+  // Sign up forms ask for the new password twice, change forms ask for the
+  // current one first.
+  if (passwords.length === 2 && passwords.every(guessed)) {
+    passwords.forEach((i) => (result[i].type = 'new-password'));
+  } else if (passwords.length >= 3) {
+    passwords.forEach((i, n) => {
+      if (guessed(i)) result[i].type = n === 0 ? 'current-password' : 'new-password';
+    });
+  }
+
+  // Sites logging in with an email address
+  const hasUsername = result.some((r) => r?.type === 'username');
+  if (passwords.length && !hasUsername) {
+    const email = result.findIndex(
+      (r, i) => r?.type === 'email' && i < passwords[0],
+    );
+    if (email !== -1) result[email].type = 'username';
+  }
+
+  // Two fields guessed as the street address are its two lines
+  const lines = result
+    .map((r, i) =>
+      /^(street-address|address-line1)$/.test(r?.type) && guessed(i) ? i : -1,
+    )
+    .filter((i) => i !== -1);
+  if (lines.length === 2) {
+    result[lines[0]].type = 'address-line1';
+    result[lines[1]].type = 'address-line2';
+  }
+
+  return result;
+};
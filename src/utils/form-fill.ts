@@ -1,83 +1,114 @@
-import { IFormFillData } from '~/interfaces';
-
-const getKey = (name: string) => {
-  try {
-    switch (name) {
-      case 'username':
-        return 'username';
-      case 'login':
-        return 'username';
-      case 'email':
-        return 'email';
-      case 'password':
-        return 'password';
-      case 'name':
-        return 'name';
-      case 'fname':
-        return 'name';
-      case 'mname':
-        return 'name';
-      case 'lname':
-        return 'name';
-      case 'address':
-        return 'address';
-      case 'city':
-        return 'city';
-      case 'postal':
-        return 'postCode';
-      case 'country':
-        return 'country';
-      case 'phone':
-        return 'phone';
-      case 'mobile':
-        return 'phone';
-    }
-  } catch (err) {}
+import { FormFieldType, IFormFillData } from '~/interfaces';
 
-  return null;
+type Fields = IFormFillData['fields'];
+
+const nameParts = (fields: Fields) => (fields.name || '').trim().split(/\s+/);
+
+const PROFILE_VALUES: Partial<Record<FormFieldType, (fields: Fields) => string>> = {
+  name: (fields) => fields.name,
+  'given-name': (fields) => nameParts(fields)[0],
+  'additional-name': (fields) => {
+    const parts = nameParts(fields);
+    return parts.length >= 3 ? parts.slice(1, -1).join(' ') : null;
+  },
+  'family-name': (fields) => {
+    const parts = nameParts(fields);
+    return parts.length >= 2 ? parts[parts.length - 1] : null;
+  },
+  organization: (fields) => fields.organization,
+  email: (fields) => fields.email,
+  tel: (fields) => fields.phone,
+  'street-address': (fields) =>
+    [fields.address, fields.addressLine2].filter((r) => r).join('\n'),
+  'address-line1': (fields) => fields.address,
+  'address-line2': (fields) => fields.addressLine2,
+  'address-level2': (fields) => fields.city,
+  'address-level1': (fields) => fields.region,
+  'postal-code': (fields) => fields.postCode,
+  country: (fields) => fields.country,
+};
+
+const PASSWORD_VALUES: Partial<Record<FormFieldType, (fields: Fields) => string>> = {
+  username: (fields) => fields.username,
+  email: (fields) => fields.username,
+  'current-password': (fields) => fields.password,
+};
+
+// The security code is never stored, so it is never filled either.
+const CARD_VALUES: Partial<Record<FormFieldType, (fields: Fields) => string>> = {
+  'cc-name': (fields) => fields.cardName,
+  'cc-number': (fields) => fields.cardNumber,
+  'cc-exp-month': (fields) => fields.cardExpMonth,
+  'cc-exp-year': (fields) => fields.cardExpYear,
+  'cc-exp': (fields) =>
+    fields.cardExpMonth &&
+    fields.cardExpYear &&
+    `${fields.cardExpMonth.padStart(2, '0')}/${fields.cardExpYear.slice(-2)}`,
+};
+
+const VALUES = {
+  password: PASSWORD_VALUES,
+  address: PROFILE_VALUES,
+  contact: PROFILE_VALUES,
+  card: CARD_VALUES,
+};
+
+const CARD_TYPES = /^cc-/;
+const PASSWORD_TYPES = /^(username|current-password|new-password)$/;
+const ADDRESS_TYPES = /^(street-address|address-line\d|address-level\d|postal-code|country)$/;
+
+/**
+ * Types of the saved items a field of this type is filled from. Contact
+ * details are asked by address forms as well.
+ */
+export const getFormFillDataTypes = (
+  type: FormFieldType,
+): IFormFillData['type'][] => {
+  if (PASSWORD_TYPES.test(type)) return ['password'];
+  if (CARD_TYPES.test(type)) return ['card'];
+  if (ADDRESS_TYPES.test(type)) return ['address'];
+  return ['address', 'contact'];
 };
 
+/**
+ * Value of a saved item for a field. In menus, password fields show the
+ * username they belong to and card number fields the last digits.
+ */
 export const getFormFillValue = (
-  name: string,
+  type: FormFieldType,
   data: IFormFillData,
-  hidePassword = false,
-) => {
+  forMenu = false,
+): string => {
   const { fields } = data;
-  const fullName = (fields.name || '').split(' ');
 
-  if (name === 'password' && hidePassword) {
-    return fields.username || fields.email;
+  if (forMenu && PASSWORD_TYPES.test(type)) {
+    return fields.username;
+  }
+  if (forMenu && type === 'cc-number') {
+    return fields.cardLast4 && `•••• ${fields.cardLast4}`;
   }
 
-  try {
-    switch (name) {
-      case 'fname': // first name
-        return fullName[0];
-      case 'mname': // middle name
-        return fullName.length >= 3 && fullName[fullName.length - 2];
-      default:
-        return fields[getKey(name)];
-    }
-  } catch (error) {}
-
-  return null;
+  const value = VALUES[data.type]?.[type];
+  return (value && value(fields)) || null;
 };
 
-export const getFormFillSubValue = (name: string, data: IFormFillData) => {
-  const key = getKey(name);
+export const getFormFillSubValue = (type: FormFieldType, data: IFormFillData) => {
   const { fields } = data;
 
-  if (data.type === 'address') {
-    for (const itemKey in fields) {
-      const val: string = (fields as any)[itemKey];
-
-      if (key !== itemKey && val != null) {
-        return val;
-      }
-    }
-  } else {
+  if (data.type === 'password') {
     return '•'.repeat(fields.passLength);
   }
 
+  if (data.type === 'card') {
+    return type === 'cc-number'
+      ? fields.cardName
+      : fields.cardLast4 && `•••• ${fields.cardLast4}`;
+  }
+
+  const text = getFormFillValue(type, data);
+  for (const key of ['name', 'address', 'email', 'phone', 'city'] as const) {
+    if (fields[key] && fields[key] !== text) return fields[key];
+  }
+
   return null;
 };
@@ -0,0 +1,88 @@
+import { hashCode } from './string';
+
+export type GraphQLOperationType = 'query' | 'mutation' | 'subscription';
+
+export interface IGraphQLOperation {
+  operationName: string;
+  operationType: GraphQLOperationType;
+  // Missing for persisted queries, which only send a hash.
+  query?: string;
+  variables: Record<string, any>;
+  extensions?: Record<string, any>;
+  // Tells apart operations that share an endpoint.
+  key: string;
+}
+
+// Operations come first or after a fragment definition.
+const OPERATION_REGEX =
+  /(?:^|\})\s*(query|mutation|subscription)\b\s*([_A-Za-z][_0-9A-Za-z]*)?/;
+
+const parseJson = (value: any) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const toOperation = (payload: any): IGraphQLOperation | null => {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return null;
+  }
+
+  const query: string =
+    typeof payload.query === 'string' ? payload.query : undefined;
+  const extensions = parseJson(payload.extensions);
+  const persistedHash: string = extensions?.persistedQuery?.sha256Hash;
+
+  if (!query && !persistedHash) return null;
+
+  const match = query && OPERATION_REGEX.exec(query);
+
+  // Any other `query` field is most likely a search API.
+  if (query && !match && !/^\s*\{/.test(query)) return null;
+
+  const operationType = (match?.[1] ?? 'query') as GraphQLOperationType;
+  const operationName: string = payload.operationName || match?.[2];
+
+  const key =
+    operationName ||
+    persistedHash?.slice(0, 12) ||
+    Math.abs(hashCode(query.replace(/\s+/g, ' ').trim())).toString(36);
+
+  return {
+    operationName: operationName || `${operationType}_${key}`,
+    operationType,
+    query,
+    variables: parseJson(payload.variables) ?? {},
+    extensions,
+    key,
+  };
+};
+
+/**
+ * Recognizes a GraphQL request, sent either as a JSON POST body or in the
+ * query string of a GET, and returns the operation it runs.
+ */
+export const parseGraphQLRequest = (
+  url: string,
+  method: string,
+  body?: string,
+): IGraphQLOperation | null => {
+  if (method.toUpperCase() === 'GET') {
+    const { searchParams } = new URL(url);
+    if (!searchParams.has('query') && !searchParams.has('extensions')) {
+      return null;
+    }
+
+    return toOperation({
+      query: searchParams.get('query') ?? undefined,
+      operationName: searchParams.get('operationName'),
+      variables: searchParams.get('variables'),
+      extensions: searchParams.get('extensions'),
+    });
+  }
+
+  return toOperation(parseJson(body));
+};
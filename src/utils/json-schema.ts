@@ -0,0 +1,81 @@
+const getType = (value: any): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (type: string, value: any) => {
+  const actual = getType(value);
+  return type === actual || (type === 'number' && actual === 'integer');
+};
+
+/**
+ * Checks a value against the subset of JSON Schema that generated schemas
+ * use: type, properties, required, items, enum, minLength and anyOf. Returns
+ * one message per mismatch, or an empty array when the value is valid.
+ */
+export const validateJsonSchema = (
+  schema: any,
+  value: any,
+  path = '$',
+): string[] => {
+  if (!schema || typeof schema !== 'object') return [];
+
+  if (schema.anyOf) {
+    const options: any[] = schema.anyOf;
+    const matches = options.some(
+      (option) => validateJsonSchema(option, value).length === 0,
+    );
+
+    if (!matches) {
+      return [`${path}: does not match any of the allowed schemas`];
+    }
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+
+    if (!types.some((type) => matchesType(type, value))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${getType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: expected one of ${schema.enum.join(', ')}`];
+  }
+
+  if (typeof value === 'string' && value.length < schema.minLength) {
+    return [`${path}: expected at least ${schema.minLength} characters`];
+  }
+
+  const errors: string[] = [];
+
+  if (getType(value) === 'object') {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (value[key] !== undefined) {
+        errors.push(
+          ...validateJsonSchema(property, value[key], `${path}.${key}`),
+        );
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(
+        ...validateJsonSchema(schema.items, item, `${path}[${index}]`),
+      );
+    });
+  }
+
+  return errors;
+};
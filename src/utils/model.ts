@@ -1,29 +1,42 @@
-// This file (model.js) contains all the logic for loading the model and running predictions.
+// This file (model.ts) contains all the logic for loading the embedding model.
 
-class MyClassificationPipeline {
-    // NOTE: Replace this with your own task and model
-    static task = 'text-classification';
-    static model = 'Xenova/distilbert-base-uncased-finetuned-sst-2-english';
-    static instance = null;
+// Sentence embeddings of this model have 384 dimensions.
+export const EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
 
-    static async getInstance(progress_callback = null) {
+class EmbeddingPipeline {
+    static task = 'feature-extraction';
+    static model = EMBEDDING_MODEL;
+    static instance: Promise<any> = null;
+
+    static async getInstance(cacheDir?: string, progress_callback: Function = null) {
         if (this.instance === null) {
             // Dynamically import the Transformers.js library
             let { pipeline, env } = await import('@xenova/transformers');
 
-            // NOTE: Uncomment this to change the cache directory
-            // env.cacheDir = './.cache';
+            // The model isn't bundled with the app: it is downloaded from the
+            // Hugging Face hub into the cache the first time it is needed, and
+            // after that everything runs offline.
+            if (cacheDir) {
+                env.cacheDir = cacheDir;
+            }
 
-            this.instance = pipeline(this.task, this.model, { progress_callback });
+            this.instance = pipeline(this.task as 'feature-extraction', this.model, { progress_callback }).catch(error => {
+                // Loaded again on the next call, e.g. once the app is back online
+                this.instance = null;
+                throw error;
+            });
         }
 
         return this.instance;
     }
 }
 
-// The run function is used by the `transformers:run` event handler.
-export async function run(text: string) {
-    const classifier = await MyClassificationPipeline.getInstance();
-    return await classifier(text);
+/**
+ * Returns one normalized embedding per text, so that the cosine similarity
+ * of two embeddings is their dot product.
+ */
+export async function embed(texts: string[], cacheDir?: string): Promise<number[][]> {
+    const extractor = await EmbeddingPipeline.getInstance(cacheDir);
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
 }
-
@@ -1,40 +1,14 @@
 import * as cheerio from "cheerio";
 import TurndownService from "turndown";
 import { gfm } from 'joplin-turndown-plugin-gfm';
+import { IArticleMetadata } from '~/interfaces';
+import { extractArticle } from './readability';
 
+// The main content of the page, without its navigation, ads or boilerplate.
 export const cleanHtml = (html: string): string => {
-  const $ = cheerio.load(html);
-
-  // Remove unwanted elements
-  $("script, style, iframe, noscript, meta, head, footer, nav, aside").remove();
-
-  // Remove comments
-  $("*").contents().filter(function () {
-    return this.type === 'comment';
-  }).remove();
-
-  // Remove empty elements
-  $("*").filter(function () {
-    return $(this).text().trim() === '' && $(this).children().length === 0;
-  }).remove();
-
-  // Remove elements with common ad-related class names or IDs
-  $("[class*='ad-'], [class*='advertisement'], [class*='banner'], [id*='ad-'], [id*='advertisement'], [id*='banner']").remove();
-
-  // Remove hidden elements
-  $("[style*='display:none'], [style*='visibility:hidden']").remove();
-
-  // Keep only the main content
-  const mainContent = $("main, #main, .main, article, .article, .content, #content, .post, #post").first();
-
-  if (mainContent.length > 0) {
-    // If a main content area is found, use it
-    return mainContent.html() || "";
-  } else {
-    // If no main content area is found, return the cleaned body
-    return $("body").html() || "";
-  }
+  return extractArticle(html).content;
 };
+
 interface TurndownNode {
   nodeName: string;
   getAttribute: (attr: string) => string | null;
@@ -46,7 +20,19 @@ interface TurndownOptions {
 }
 
 export function parseMarkdown(dirty: string): string {
-  const html = cleanHtml(dirty)
+  return toMarkdown(cleanHtml(dirty));
+}
+
+/**
+ * Converts the main content of a page to markdown, along with the title,
+ * byline, publish date and canonical URL of the page.
+ */
+export function parseArticle(dirty: string, url?: string): IArticleMetadata & { content: string } {
+  const { content, ...metadata } = extractArticle(dirty, url);
+  return { ...metadata, content: toMarkdown(content) };
+}
+
+function toMarkdown(html: string): string {
   const turndownService = new TurndownService();
   turndownService.addRule("inlineLink", {
     filter: function (node: TurndownNode, options: TurndownOptions) {
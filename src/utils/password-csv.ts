@@ -0,0 +1,188 @@
+import { IPasswordCsvEntry, PasswordCsvFormat } from '~/interfaces';
+
+interface CsvLayout {
+  header: string[];
+  // Columns holding the url, the username and the password.
+  columns: [string, string, string];
+  // Every field quoted, the way the browser writes them.
+  quoteAll?: boolean;
+  row: (entry: IPasswordCsvEntry) => Record<string, string>;
+}
+
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+};
+
+const LAYOUTS: Record<PasswordCsvFormat, CsvLayout> = {
+  chrome: {
+    header: ['name', 'url', 'username', 'password', 'note'],
+    columns: ['url', 'username', 'password'],
+    row: (entry) => ({ ...entry, name: hostnameOf(entry.url) }),
+  },
+  firefox: {
+    header: [
+      'url',
+      'username',
+      'password',
+      'httpRealm',
+      'formActionOrigin',
+      'guid',
+      'timeCreated',
+      'timeLastUsed',
+      'timePasswordChanged',
+    ],
+    columns: ['url', 'username', 'password'],
+    quoteAll: true,
+    row: (entry) => ({ ...entry, formActionOrigin: entry.url }),
+  },
+  bitwarden: {
+    header: [
+      'folder',
+      'favorite',
+      'type',
+      'name',
+      'notes',
+      'fields',
+      'reprompt',
+      'login_uri',
+      'login_username',
+      'login_password',
+      'login_totp',
+    ],
+    columns: ['login_uri', 'login_username', 'login_password'],
+    row: (entry) => ({
+      type: 'login',
+      name: hostnameOf(entry.url),
+      reprompt: '0',
+      login_uri: entry.url,
+      login_username: entry.username,
+      login_password: entry.password,
+    }),
+  },
+};
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180: fields may be
+ * quoted, quotes inside them are doubled and quoted fields may span lines.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Excel and some password managers start the file with a BOM
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+};
+
+const quote = (field: string, always: boolean) => {
+  if (always || /[",\r\n]/.test(field) || field.trim() !== field) {
+    return `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+};
+
+export const stringifyCsv = (rows: string[][], quoteAll = false): string => {
+  return rows
+    .map((row) => row.map((field) => quote(field, quoteAll)).join(','))
+    .join('\r\n');
+};
+
+/**
+ * Tells which password manager wrote a CSV export from its header.
+ */
+export const detectPasswordCsvFormat = (
+  header: string[],
+): PasswordCsvFormat => {
+  const names = header.map((name) => name.trim().toLowerCase());
+
+  if (names.includes('login_uri')) return 'bitwarden';
+  if (names.includes('httprealm') || names.includes('formactionorigin')) {
+    return 'firefox';
+  }
+  if (['url', 'username', 'password'].every((n) => names.includes(n))) {
+    return 'chrome';
+  }
+  return null;
+};
+
+/**
+ * Reads the logins out of a Chrome, Edge, Firefox or Bitwarden CSV export.
+ * Rows are kept in file order, including the ones without a web address or
+ * a password, so the caller can report them.
+ */
+export const parsePasswordCsv = (
+  text: string,
+): { format: PasswordCsvFormat; entries: IPasswordCsvEntry[] } => {
+  const [header, ...rows] = parseCsv(text);
+  const format = header && detectPasswordCsvFormat(header);
+
+  if (!format) return { format: null, entries: [] };
+
+  const names = header.map((name) => name.trim().toLowerCase());
+  const [url, username, password] = LAYOUTS[format].columns.map((column) =>
+    names.indexOf(column.toLowerCase()),
+  );
+
+  const entries = rows.map((row) => ({
+    url: row[url] ?? '',
+    username: row[username] ?? '',
+    password: row[password] ?? '',
+  }));
+
+  return { format, entries };
+};
+
+export const stringifyPasswordCsv = (
+  entries: IPasswordCsvEntry[],
+  format: PasswordCsvFormat,
+): string => {
+  const { header, quoteAll, row } = LAYOUTS[format];
+
+  const rows = entries.map((entry) => {
+    const fields = row(entry);
+    return header.map((column) => fields[column] ?? '');
+  });
+
+  return stringifyCsv([header, ...rows], quoteAll) + '\r\n';
+};
@@ -0,0 +1,413 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Cheerio, Element } from 'cheerio';
+import { IArticleMetadata, IExtractedArticle } from '~/interfaces';
+
+type CheerioAPI = ReturnType<typeof cheerio.load>;
+type Scores = Map<Element, number>;
+
+// Elements that never hold the content of a page.
+const REMOVED_ELEMENTS =
+  'script, style, noscript, iframe, template, svg, canvas, object, embed, link, meta, nav, dialog';
+const HIDDEN_ELEMENTS =
+  "[hidden], [aria-hidden='true'], [style*='display:none'], [style*='display: none'], [style*='visibility:hidden'], [style*='visibility: hidden']";
+
+// Whole class or id tokens only: `load-more` and `header-banner` are content.
+const AD_TOKEN_REGEX =
+  /^(ad|ads|advert|adverts|advertisement|advertising|adsense|adslot|sponsored|ad[-_].+|ads[-_].+|.+[-_]ads?)$/i;
+
+const POSITIVE_REGEX =
+  /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story|prose/i;
+const NEGATIVE_REGEX =
+  /(^|[\s_-])(hidden|banner|combx|comment|com-|contact|cookie|footer|gdpr|masthead|media|meta|modal|newsletter|outbrain|popup|promo|related|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|widget)/i;
+const CLASS_WEIGHT = 25;
+
+const BLOCK_ELEMENTS =
+  'address, article, aside, blockquote, dl, div, fieldset, figure, footer, form, h1, h2, h3, h4, h5, h6, header, hr, main, ol, p, pre, section, table, ul';
+// Elements cleaned from the article when they look like navigation or ads.
+const CONDITIONAL_ELEMENTS =
+  'form, fieldset, aside, footer, header, section, div, ul, ol, table';
+
+// Shorter paragraphs are more likely captions or labels than content.
+const MIN_PARAGRAPH_LENGTH = 25;
+// Below this the extraction likely missed the article, and the whole
+// page is kept instead.
+const MIN_ARTICLE_LENGTH = 250;
+// How many levels of ancestors a paragraph adds its score to.
+const MAX_ANCESTORS = 3;
+const MAX_HEADING_BONUS = 15;
+const MAX_BYLINE_LENGTH = 100;
+
+/**
+ * Finds the main content of a page the way reader modes do. Paragraphs are
+ * scored on their length and commas, and their scores are shared with
+ * their ancestors, less the further up they are. Ancestors are weighted by
+ * their class names, the headings structuring them and the share of their
+ * text that is links. The best one is kept along with the siblings that
+ * score close to it, then cleaned of the blocks that look like navigation.
+ *
+ * The title, byline, publish date and canonical URL are read from the
+ * metadata of the page before it is cleaned.
+ */
+export const extractArticle = (html: string, url?: string): IExtractedArticle => {
+  const $ = cheerio.load(html);
+  const metadata = readMetadata($, url);
+
+  prepare($);
+
+  const scores: Scores = new Map();
+  const candidate = findTopCandidate($, scores);
+  let content = candidate ? collectArticle($, candidate, scores) : '';
+
+  if (getText($('<div></div>').append(content)).length < MIN_ARTICLE_LENGTH) {
+    content = $('body').html() || '';
+  }
+
+  // The title heading is often outside the content, e.g. in a page header.
+  if (metadata.title && !/<h1[\s>]/i.test(content)) {
+    content = `${$.html($('<h1></h1>').text(metadata.title))}${content}`;
+  }
+
+  return { ...metadata, content };
+};
+
+const prepare = ($: CheerioAPI) => {
+  $('head').remove();
+  $(REMOVED_ELEMENTS).remove();
+  $(HIDDEN_ELEMENTS).remove();
+
+  $('*')
+    .contents()
+    .filter((_, node) => node.type === 'comment')
+    .remove();
+
+  $('[class], [id]')
+    .filter((_, element) => getTokens(element).some((token) => AD_TOKEN_REGEX.test(token)))
+    .remove();
+
+  // Empty elements left behind, deepest first.
+  $('*')
+    .toArray()
+    .reverse()
+    .filter(
+      (element): element is Element =>
+        element.type === 'tag' &&
+        !/^(img|br|hr|td|th|picture|source|video|audio)$/.test(element.tagName),
+    )
+    .forEach((element) => {
+      const $element = $(element);
+      if ($element.children().length === 0 && $element.text().trim() === '') {
+        $element.remove();
+      }
+    });
+};
+
+const findTopCandidate = ($: CheerioAPI, scores: Scores): Element | null => {
+  const paragraphs = $('p, pre, blockquote, td, div, section')
+    .toArray()
+    .filter((element) =>
+      /^(p|pre|blockquote|td)$/.test(element.tagName)
+        // Containers of text only are paragraphs too.
+        || $(element).children(BLOCK_ELEMENTS).length === 0,
+    );
+
+  for (const paragraph of paragraphs) {
+    const text = getText($(paragraph));
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    const score =
+      1 + text.split(/[,，、]/).length - 1 + Math.min(Math.floor(text.length / 100), 3);
+
+    $(paragraph)
+      .parents()
+      .toArray()
+      .filter((ancestor) => ancestor.tagName !== 'html')
+      .slice(0, MAX_ANCESTORS)
+      .forEach((ancestor, level) => {
+        if (!scores.has(ancestor)) {
+          scores.set(ancestor, initialScore($, ancestor));
+        }
+        const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+        scores.set(ancestor, scores.get(ancestor) + score / divider);
+      });
+  }
+
+  let top: Element | null = null;
+  let topScore = 0;
+
+  for (const [element, score] of scores.entries()) {
+    const weighted = score * (1 - getLinkDensity($, $(element)));
+    scores.set(element, weighted);
+    if (weighted > topScore) {
+      top = element;
+      topScore = weighted;
+    }
+  }
+
+  if (!top) return null;
+
+  // Wrappers around the content alone bring nothing, their siblings may.
+  while (top.parent && top.parent.type === 'tag' && top.parent.tagName !== 'body'
+    && $(top.parent).children().length === 1) {
+    top = top.parent as Element;
+    scores.set(top, topScore);
+  }
+
+  return top;
+};
+
+const initialScore = ($: CheerioAPI, element: Element) => {
+  let score = getClassWeight(element);
+
+  switch (element.tagName) {
+    case 'article':
+    case 'main':
+      score += 10;
+      break;
+    case 'div':
+    case 'section':
+      score += 5;
+      break;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score += 3;
+      break;
+    case 'form':
+    case 'ol':
+    case 'ul':
+    case 'li':
+    case 'dl':
+    case 'address':
+      score -= 3;
+      break;
+    case 'th':
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      score -= 5;
+      break;
+  }
+
+  // Articles are structured by headings, lists of links rarely are.
+  const headings = $(element)
+    .find('h2, h3, h4')
+    .filter((_, heading) => getText($(heading)).length > 0).length;
+
+  return score + Math.min(headings * 3, MAX_HEADING_BONUS);
+};
+
+const collectArticle = ($: CheerioAPI, top: Element, scores: Scores): string => {
+  const topScore = scores.get(top) ?? 0;
+  const threshold = Math.max(10, topScore * 0.2);
+  const topClass = $(top).attr('class');
+
+  const siblings = top.parent && top.parent.type === 'tag'
+    ? $(top.parent).children().toArray()
+    : [top];
+
+  const included = siblings.map((sibling) => {
+    if (sibling === top) return true;
+
+    const bonus = topClass && $(sibling).attr('class') === topClass ? topScore * 0.2 : 0;
+    if (scores.has(sibling) && scores.get(sibling) + bonus >= threshold) {
+      return true;
+    }
+
+    if (sibling.tagName === 'p') {
+      const text = getText($(sibling));
+      const linkDensity = getLinkDensity($, $(sibling));
+      return (text.length > 80 && linkDensity < 0.25)
+        || (text.length > 0 && linkDensity === 0 && /[.!?]$/.test(text));
+    }
+
+    return false;
+  });
+
+  // Headings go along with the content they introduce.
+  siblings.forEach((sibling, index) => {
+    const isHeading = /^h[1-6]$/.test(sibling.tagName);
+    if (isHeading && (included[index + 1]
+      || (included.slice(0, index).some(Boolean) && included.slice(index + 1).some(Boolean)))) {
+      included[index] = true;
+    }
+  });
+
+  const article = siblings.filter((_, index) => included[index]);
+  article.forEach((element) => cleanConditionally($, element, scores));
+
+  return article.map((element) => $.html(element)).join('');
+};
+
+/**
+ * Removes the blocks of the article that look like navigation, forms or
+ * leftovers: mostly links, more inputs than paragraphs, or nearly empty.
+ * Data tables and the blocks holding headings with text are kept.
+ */
+const cleanConditionally = ($: CheerioAPI, root: Element, scores: Scores) => {
+  $(root)
+    .find(CONDITIONAL_ELEMENTS)
+    .toArray()
+    .reverse()
+    .forEach((element) => {
+      const $element = $(element);
+      if (element.tagName === 'table' && $element.find('th, caption').length > 0) return;
+
+      const weight = getClassWeight(element) + (scores.get(element) ?? 0);
+      if (weight < 0) {
+        $element.remove();
+        return;
+      }
+
+      const text = getText($element);
+      if (text.split(',').length > 10) return;
+
+      const paragraphs = $element.find('p').length;
+      const images = $element.find('img').length;
+      const inputs = $element.find('input, select, textarea, button').length;
+      const headings = $element.find('h1, h2, h3, h4, h5, h6').length;
+      const linkDensity = getLinkDensity($, $element);
+
+      const isList = /^(ul|ol)$/.test(element.tagName);
+      const shouldRemove =
+        inputs > Math.floor(paragraphs / 3) + 1
+        || (weight < CLASS_WEIGHT && linkDensity > (isList ? 0.5 : 0.3))
+        || (weight >= CLASS_WEIGHT && linkDensity > 0.5)
+        || (text.length < MIN_PARAGRAPH_LENGTH && images === 0 && headings === 0 && !isList);
+
+      if (shouldRemove) {
+        $element.remove();
+      }
+    });
+};
+
+const readMetadata = ($: CheerioAPI, url?: string): IArticleMetadata => {
+  const jsonLd = readJsonLdArticle($);
+
+  const title = firstOf(
+    meta($, 'og:title'),
+    meta($, 'twitter:title'),
+    typeof jsonLd.headline === 'string' && jsonLd.headline,
+    $('h1').length === 1 && getText($('h1')),
+    cleanTitle(getText($('title').first())),
+  );
+
+  const byline = firstOf(
+    meta($, 'author'),
+    meta($, 'article:author'),
+    readJsonLdName(jsonLd.author),
+    getText($('[itemprop="author"]').first()),
+    getText($('[rel="author"]').first()),
+    getText($('.byline, .author, [class*="byline"]').first()),
+  );
+
+  const published = firstOf(
+    meta($, 'article:published_time'),
+    $('[itemprop="datePublished"]').attr('content'),
+    $('[itemprop="datePublished"]').attr('datetime'),
+    typeof jsonLd.datePublished === 'string' && jsonLd.datePublished,
+    meta($, 'date'),
+    meta($, 'pubdate'),
+    meta($, 'dc.date'),
+    $('time[datetime]').first().attr('datetime'),
+  );
+
+  const canonical = firstOf($('link[rel="canonical"]').attr('href'), meta($, 'og:url'));
+
+  return {
+    title,
+    byline: byline && byline.length <= MAX_BYLINE_LENGTH
+      ? byline.replace(/^by\s+/i, '')
+      : undefined,
+    publishedAt: toIsoDate(published),
+    canonicalUrl: canonical && resolveUrl(canonical, url),
+  };
+};
+
+const meta = ($: CheerioAPI, name: string) =>
+  $(`meta[property="${name}"], meta[name="${name}"]`).first().attr('content');
+
+const readJsonLdArticle = ($: CheerioAPI): any => {
+  const items: any[] = [];
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      const value = JSON.parse($(element).text().trim());
+      for (const item of Array.isArray(value) ? value : [value]) {
+        items.push(...(Array.isArray(item?.['@graph']) ? item['@graph'] : [item]));
+      }
+    } catch {
+      // Broken JSON-LD is common, the page still has other metadata
+    }
+  });
+
+  return items.find((item) => item && (item.headline || item.datePublished)) ?? {};
+};
+
+const readJsonLdName = (author: any): string | undefined => {
+  const authors = (Array.isArray(author) ? author : [author])
+    .map((value) => (typeof value === 'string' ? value : value?.name))
+    .filter((name) => typeof name === 'string' && name.trim());
+  return authors.length > 0 ? authors.join(', ') : undefined;
+};
+
+// Strips the name of the site from titles like `Title | Site`.
+const cleanTitle = (title: string) => {
+  const parts = title.split(/\s+[|\-–—»]\s+/);
+  return parts.length > 1 && parts[0].split(' ').length >= 3 ? parts[0] : title;
+};
+
+const toIsoDate = (value?: string) => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+const resolveUrl = (href: string, base?: string) => {
+  try {
+    const resolved = new URL(href, base);
+    return /^https?:$/.test(resolved.protocol) ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const firstOf = (...values: (string | false | undefined)[]): string | undefined => {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) return collapse(value);
+  }
+  return undefined;
+};
+
+const getTokens = (element: Element) =>
+  `${element.attribs.class ?? ''} ${element.attribs.id ?? ''}`.split(/\s+/).filter(Boolean);
+
+const getClassWeight = (element: Element) => {
+  let weight = 0;
+  for (const value of [element.attribs.class, element.attribs.id]) {
+    if (!value) continue;
+    if (NEGATIVE_REGEX.test(value)) weight -= CLASS_WEIGHT;
+    if (POSITIVE_REGEX.test(value)) weight += CLASS_WEIGHT;
+  }
+  return weight;
+};
+
+// Share of the text of an element that is links, in-page ones counting less.
+const getLinkDensity = ($: CheerioAPI, $element: Cheerio<Element>) => {
+  const length = getText($element).length;
+  if (length === 0) return 0;
+
+  let linkLength = 0;
+  $element.find('a').each((_, link) => {
+    const isAnchor = ($(link).attr('href') ?? '').startsWith('#');
+    linkLength += getText($(link)).length * (isAnchor ? 0.3 : 1);
+  });
+
+  return linkLength / length;
+};
+
+const getText = ($element: Cheerio<AnyNode>) => collapse($element.text());
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
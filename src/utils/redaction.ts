@@ -0,0 +1,350 @@
+import { randomBytes } from 'crypto';
+import { IRedactionPattern, SecretKind } from '~/interfaces';
+
+export interface IRedactOptions {
+  // Keeps the masked values so they can be put back when replaying.
+  vault?: SecretVault;
+  // Where the request was sent, the only origin its secrets go back to.
+  origin?: string;
+  customPatterns?: IRedactionPattern[];
+}
+
+interface IStoredSecret {
+  value: string;
+  origins: Set<string>;
+}
+
+// Identifier-like so it survives URL encoding and JSON untouched.
+const PLACEHOLDER_REGEX = /__redacted_([a-z]+)_([0-9a-z]+)__/g;
+
+// The vault forgets the oldest secrets past this size.
+const MAX_VAULT_SIZE = 5000;
+
+// Headers whose whole value is a credential.
+const SECRET_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'x-api-key',
+  'api-key',
+  'x-auth-token',
+  'x-access-token',
+  'x-csrf-token',
+  'x-xsrf-token',
+  'x-csrftoken',
+  'csrf-token',
+];
+
+// Fields, query parameters and form values holding credentials.
+const SECRET_KEY_REGEX =
+  /^(?:.*[_-])?(?:api[_-]?key|apikey|access[_-]?token|refresh[_-]?token|id[_-]?token|auth[_-]?token|token|secret|client[_-]?secret|password|passwd|pwd|session[_-]?id|sessionid|csrf[_-]?token|xsrf[_-]?token|signature|sig)$/i;
+
+const JWT_REGEX = /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/g;
+const BEARER_REGEX = /\b(Bearer|Basic|Token|Digest)\s+([A-Za-z0-9._~+/=-]{8,})/gi;
+const EMAIL_REGEX = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+// Issuers' numbers start with 2 to 6, which leaves out timestamps.
+const CARD_REGEX = /\b[2-6](?:[ -]?\d){12,18}\b/g;
+
+// Keys issued by common providers, recognizable by their prefix.
+const API_KEY_REGEX = new RegExp(
+  [
+    'sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}',
+    '(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}',
+    'gh[pousr]_[A-Za-z0-9]{30,}',
+    'github_pat_[A-Za-z0-9_]{30,}',
+    'xox[abposr]-[A-Za-z0-9-]{10,}',
+    'AKIA[0-9A-Z]{16}',
+    'AIza[0-9A-Za-z_-]{35}',
+    'glpat-[A-Za-z0-9_-]{20}',
+  ]
+    .map((pattern) => `\\b${pattern}`)
+    .join('|'),
+  'g',
+);
+
+// Tells card numbers apart from other long numbers.
+const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/**
+ * Keeps the original of every masked value, in memory only, so a captured
+ * request can be replayed. Placeholders are random, so they tell nothing
+ * about the value, and the same secret keeps its placeholder everywhere.
+ *
+ * A secret is only revealed to the origins it was sent to. Placeholders are
+ * no secret themselves, and a page could otherwise have the token of
+ * another site sent to its own origin.
+ */
+export class SecretVault {
+  private secrets: Map<string, IStoredSecret> = new Map();
+  // The key of each stored value, by kind and value.
+  private keys: Map<string, string> = new Map();
+
+  public store(kind: SecretKind, value: string, origin?: string): string {
+    let key = this.keys.get(`${kind}:${value}`);
+    if (!key) {
+      key = `${kind}_${randomBytes(8).toString('hex')}`;
+      this.keys.set(`${kind}:${value}`, key);
+    }
+
+    const secret = this.secrets.get(key) ?? { value, origins: new Set() };
+    if (origin) {
+      secret.origins.add(origin);
+    }
+
+    this.secrets.delete(key);
+    this.secrets.set(key, secret);
+
+    if (this.secrets.size > MAX_VAULT_SIZE) {
+      const [oldest, forgotten] = this.secrets.entries().next().value;
+      this.secrets.delete(oldest);
+      this.keys.delete(`${oldest.split('_')[0]}:${forgotten.value}`);
+    }
+
+    return `__redacted_${key}__`;
+  }
+
+  /**
+   * Puts the original values back into a string, or into the strings of an
+   * object, for a request to `origin`. Placeholders the vault doesn't know,
+   * or of secrets never sent to that origin, are left as they are.
+   */
+  public reveal<T>(value: T, origin: string): T {
+    if (typeof value === 'string') {
+      return value.replace(PLACEHOLDER_REGEX, (placeholder, kind, id) => {
+        const secret = this.secrets.get(`${kind}_${id}`);
+        return secret?.origins.has(origin) ? secret.value : placeholder;
+      }) as any;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.reveal(item, origin)) as any;
+    }
+
+    if (value && typeof value === 'object') {
+      const revealed: any = {};
+      for (const [key, item] of Object.entries(value)) {
+        revealed[key] = this.reveal(item, origin);
+      }
+      return revealed;
+    }
+
+    return value;
+  }
+
+  public clear() {
+    this.secrets.clear();
+  }
+}
+
+export const hasPlaceholder = (text: string) =>
+  new RegExp(PLACEHOLDER_REGEX.source).test(text);
+
+const mask = (kind: SecretKind, value: string, options: IRedactOptions) =>
+  options.vault
+    ? options.vault.store(kind, value, options.origin)
+    : `__redacted_${kind}__`;
+
+const isSecretKey = (key: string) => SECRET_KEY_REGEX.test(key);
+
+/**
+ * Masks the credentials, email addresses and card numbers found in a text,
+ * along with the matches of the custom patterns.
+ */
+export const redactText = (text: string, options: IRedactOptions = {}) => {
+  if (!text) return text;
+
+  let redacted = text
+    .replace(JWT_REGEX, (token) => mask('jwt', token, options))
+    .replace(
+      BEARER_REGEX,
+      (match, scheme: string, token: string) =>
+        hasPlaceholder(token) ? match : `${scheme} ${mask('bearer', token, options)}`,
+    )
+    .replace(API_KEY_REGEX, (key) => mask('apikey', key, options))
+    .replace(EMAIL_REGEX, (email) => mask('email', email, options))
+    .replace(CARD_REGEX, (number) => {
+      const digits = number.replace(/\D/g, '');
+      return passesLuhn(digits) ? mask('card', number, options) : number;
+    });
+
+  for (const { pattern } of options.customPatterns ?? []) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, 'gi');
+    } catch {
+      // Invalid patterns are ignored rather than breaking the capture.
+      continue;
+    }
+    redacted = redacted.replace(regex, (match) =>
+      match ? mask('custom', match, options) : match,
+    );
+  }
+
+  return redacted;
+};
+
+/**
+ * Masks every string of a parsed JSON value. Values of fields named like
+ * credentials are masked whole.
+ */
+export const redactJson = (value: any, options: IRedactOptions = {}): any => {
+  if (typeof value === 'string') return redactText(value, options);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactJson(item, options));
+  }
+
+  if (value && typeof value === 'object') {
+    const redacted: any = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] =
+        isSecretKey(key) && (typeof item === 'string' || typeof item === 'number')
+          ? mask('token', String(item), options)
+          : redactJson(item, options);
+    }
+    return redacted;
+  }
+
+  return value;
+};
+
+const redactParams = (params: URLSearchParams, options: IRedactOptions) => {
+  const redacted = new URLSearchParams();
+  params.forEach((value, key) => {
+    redacted.append(
+      key,
+      isSecretKey(key) && value
+        ? mask('token', value, options)
+        : redactText(value, options),
+    );
+  });
+  return redacted;
+};
+
+// Masks the values of the cookies, keeping their names and attributes.
+const redactCookies = (
+  header: string,
+  separator: string,
+  options: IRedactOptions,
+) =>
+  header
+    .split(separator)
+    .map((cookie) => {
+      const index = cookie.indexOf('=');
+      if (index === -1) return cookie;
+      const value = cookie.substring(index + 1).trim();
+      return value
+        ? `${cookie.substring(0, index + 1)}${mask('cookie', value, options)}`
+        : cookie;
+    })
+    .join(separator);
+
+export const redactHeaders = (
+  headers: Record<string, string> | undefined,
+  options: IRedactOptions = {},
+): Record<string, string> | undefined => {
+  if (!headers) return headers;
+
+  const redacted: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(headers)) {
+    const name = key.toLowerCase();
+
+    if (typeof value !== 'string' || !value) {
+      redacted[key] = value;
+    } else if (name === 'cookie') {
+      redacted[key] = redactCookies(value, ';', options);
+    } else if (name === 'set-cookie') {
+      // Only the first pair of every cookie is a value, the rest are attributes.
+      redacted[key] = value
+        .split('\n')
+        .map((cookie) => {
+          const [pair, ...attributes] = cookie.split(';');
+          return [redactCookies(pair, ';', options), ...attributes].join(';');
+        })
+        .join('\n');
+    } else if (SECRET_HEADERS.includes(name)) {
+      const [, scheme, token] = /^(\w+\s+)?(.+)$/.exec(value);
+      redacted[key] = `${scheme ?? ''}${mask(
+        name.includes('authorization') ? 'bearer' : 'token',
+        token,
+        options,
+      )}`;
+    } else {
+      redacted[key] = redactText(value, options);
+    }
+  }
+
+  return redacted;
+};
+
+export const redactUrl = (url: string, options: IRedactOptions = {}) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return redactText(url, options);
+  }
+
+  if (parsed.username || parsed.password) {
+    parsed.username = parsed.username && mask('token', parsed.username, options);
+    parsed.password = parsed.password && mask('token', parsed.password, options);
+  }
+
+  parsed.pathname = parsed.pathname
+    .split('/')
+    .map((segment) => {
+      let decoded = segment;
+      try {
+        decoded = decodeURIComponent(segment);
+      } catch {
+        // A malformed escape, masked as it is
+      }
+      const redacted = redactText(decoded, options);
+      return redacted === decoded ? segment : redacted;
+    })
+    .join('/');
+
+  if (parsed.search) {
+    parsed.search = redactParams(parsed.searchParams, options).toString();
+  }
+
+  return parsed.toString();
+};
+
+/**
+ * Masks a request or response body according to its content type. JSON
+ * and form bodies are masked field by field, other bodies as plain text.
+ */
+export const redactBody = (
+  body: string | undefined,
+  contentType?: string,
+  options: IRedactOptions = {},
+) => {
+  if (!body) return body;
+
+  if (contentType?.includes('application/x-www-form-urlencoded')) {
+    return redactParams(new URLSearchParams(body), options).toString();
+  }
+
+  const trimmed = body.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.stringify(redactJson(JSON.parse(body), options));
+    } catch {
+      // Not JSON after all, masked as text
+    }
+  }
+
+  return redactText(body, options);
+};
@@ -0,0 +1,113 @@
+export interface IRobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface IRobotsGroup {
+  userAgents: string[];
+  rules: IRobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface IRobotsTxt {
+  groups: IRobotsGroup[];
+}
+
+export const parseRobotsTxt = (text: string): IRobotsTxt => {
+  const groups: IRobotsGroup[] = [];
+  let current: IRobotsGroup = null;
+  // Consecutive user-agent lines share the group that follows them.
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!collectingAgents || !current) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+
+    if (key === 'allow' || key === 'disallow') {
+      // An empty Disallow allows everything, so it adds no rule.
+      if (value) {
+        current.rules.push({ allow: key === 'allow', path: value });
+      }
+    } else if (key === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  return { groups };
+};
+
+const findGroup = (robots: IRobotsTxt, userAgent: string) => {
+  const token = userAgent.toLowerCase();
+
+  return (
+    robots.groups.find((group) =>
+      group.userAgents.some((agent) => agent !== '*' && token.includes(agent)),
+    ) || robots.groups.find((group) => group.userAgents.includes('*'))
+  );
+};
+
+const ruleToRegExp = (path: string) => {
+  const anchored = path.endsWith('$');
+  const pattern = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`);
+};
+
+/**
+ * Applies the longest matching rule, with Allow winning ties, as described
+ * in RFC 9309.
+ */
+export const isAllowedByRobots = (
+  robots: IRobotsTxt,
+  userAgent: string,
+  path: string,
+): boolean => {
+  const group = findGroup(robots, userAgent);
+  if (!group) return true;
+
+  let match: IRobotsRule = null;
+
+  for (const rule of group.rules) {
+    if (!ruleToRegExp(rule.path).test(path)) continue;
+
+    if (
+      !match ||
+      rule.path.length > match.path.length ||
+      (rule.path.length === match.path.length && rule.allow)
+    ) {
+      match = rule;
+    }
+  }
+
+  return match ? match.allow : true;
+};
+
+export const getCrawlDelay = (
+  robots: IRobotsTxt,
+  userAgent: string,
+): number | undefined => {
+  return findGroup(robots, userAgent)?.crawlDelay;
+};
@@ -0,0 +1,107 @@
+import { IContextSnippet } from '~/interfaces';
+import { tokenize, WORD_CHARACTERS } from './bm25';
+
+const DEFAULT_SNIPPET_LENGTH = 240;
+const DEFAULT_SNIPPET_COUNT = 2;
+
+// Context kept before the first match of a snippet.
+const LEAD_CHARS = 40;
+
+interface Match {
+  start: number;
+  end: number;
+  term: string;
+}
+
+const findMatches = (text: string, terms: Set<string>): Match[] => {
+  const matches: Match[] = [];
+  const regex = new RegExp(`[${WORD_CHARACTERS}]+`, 'gi');
+
+  let match: RegExpExecArray;
+  while ((match = regex.exec(text))) {
+    const term = match[0].toLowerCase();
+    if (terms.has(term)) {
+      matches.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        term,
+      });
+    }
+  }
+
+  return matches;
+};
+
+// Moves an offset back to the start of the word it falls in.
+const toWordStart = (text: string, offset: number) => {
+  while (offset > 0 && !/\s/.test(text[offset - 1])) offset--;
+  return offset;
+};
+
+// Moves an offset forward to the end of the word it falls in.
+const toWordEnd = (text: string, offset: number) => {
+  while (offset < text.length && !/\s/.test(text[offset])) offset++;
+  return offset;
+};
+
+/**
+ * Picks the parts of a text where the query terms are densest. Offsets of
+ * each snippet point into the text and highlights are relative to the
+ * snippet.
+ */
+export const getSnippets = (
+  text: string,
+  query: string,
+  length = DEFAULT_SNIPPET_LENGTH,
+  count = DEFAULT_SNIPPET_COUNT,
+): IContextSnippet[] => {
+  let matches = findMatches(text, new Set(tokenize(query)));
+  const snippets: IContextSnippet[] = [];
+
+  while (matches.length > 0 && snippets.length < count) {
+    // The window covering the most distinct terms wins, then the most
+    // matches.
+    let best: Match[] = [];
+    let bestTerms = 0;
+
+    for (let i = 0; i < matches.length; i++) {
+      const windowEnd = matches[i].start + length - LEAD_CHARS;
+      const inWindow = [];
+      for (let j = i; j < matches.length && matches[j].end <= windowEnd; j++) {
+        inWindow.push(matches[j]);
+      }
+
+      const terms = new Set(inWindow.map((match) => match.term)).size;
+      if (
+        terms > bestTerms ||
+        (terms === bestTerms && inWindow.length > best.length)
+      ) {
+        best = inWindow;
+        bestTerms = terms;
+      }
+    }
+
+    if (best.length === 0) best = [matches[0]];
+
+    const start = toWordStart(text, Math.max(0, best[0].start - LEAD_CHARS));
+    const end = toWordEnd(text, Math.min(text.length, start + length));
+
+    snippets.push({
+      text: text.slice(start, end),
+      start,
+      end,
+      highlights: matches
+        .filter((match) => match.start >= start && match.end <= end)
+        .map((match): [number, number] => [
+          match.start - start,
+          match.end - start,
+        ]),
+    });
+
+    matches = matches.filter(
+      (match) => match.end <= start || match.start >= end,
+    );
+  }
+
+  return snippets.sort((a, b) => a.start - b.start);
+};
@@ -0,0 +1,394 @@
+import * as cheerio from 'cheerio';
+import {
+  EntityKind,
+  IArticleEntity,
+  IEventEntity,
+  IExtractedRecord,
+  IProductEntity,
+  IRecipeEntity,
+  IStructuredEntity,
+  ITableData,
+} from '~/interfaces';
+
+type CheerioAPI = ReturnType<typeof cheerio.load>;
+
+// Pages listing hundreds of items keep their first ones only.
+const MAX_RECORDS = 50;
+const MAX_TABLE_ROWS = 200;
+
+const SCHEMA_ORG_REGEX = /^https?:\/\/schema\.org\//i;
+
+const ENTITY_TYPES: { kind: EntityKind; regex: RegExp }[] = [
+  { kind: 'product', regex: /^(Product|ProductGroup|IndividualProduct|ProductModel|Vehicle|Car)$/ },
+  { kind: 'recipe', regex: /^Recipe$/ },
+  { kind: 'event', regex: /Event$/ },
+  { kind: 'article', regex: /(Article|BlogPosting|SocialMediaPosting|Report)$/ },
+];
+
+/**
+ * Pulls the structured data out of a page: schema.org JSON-LD and
+ * microdata, OpenGraph and Twitter cards, and data tables. Products,
+ * events, articles and recipes get normalized fields on top of the raw
+ * data.
+ */
+export const extractStructuredData = (html: string): IExtractedRecord[] => {
+  const $ = cheerio.load(html);
+
+  return [
+    ...extractJsonLd($),
+    ...extractMicrodata($),
+    ...extractMetaCards($),
+    ...extractTables($),
+  ].slice(0, MAX_RECORDS);
+};
+
+const extractJsonLd = ($: CheerioAPI): IExtractedRecord[] => {
+  const items: any[] = [];
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    const text = $(element)
+      .text()
+      .replace(/^\s*(<!--|<!\[CDATA\[)/, '')
+      .replace(/(-->|\]\]>)\s*$/, '');
+    try {
+      items.push(...flattenGraph(JSON.parse(text)));
+    } catch {
+      // Broken JSON-LD is common, the rest of the page is still read
+    }
+  });
+
+  return items.map((item) => toRecord('json-ld', item));
+};
+
+// Top level items, along with the ones of a `@graph`
+const flattenGraph = (value: any): any[] => {
+  if (Array.isArray(value)) return value.flatMap(flattenGraph);
+  if (!value || typeof value !== 'object') return [];
+  if (Array.isArray(value['@graph'])) return value['@graph'].flatMap(flattenGraph);
+  return value['@type'] ? [value] : [];
+};
+
+const extractMicrodata = ($: CheerioAPI): IExtractedRecord[] =>
+  $('[itemscope]')
+    .filter((_, element) => $(element).attr('itemprop') === undefined)
+    .toArray()
+    .map((element) => toRecord('microdata', readItem($, element)));
+
+/**
+ * Reads a microdata item as the JSON-LD it is equivalent to. Properties
+ * set more than once become arrays.
+ */
+const readItem = ($: CheerioAPI, item: any): any => {
+  const result: any = {};
+
+  const type = ($(item).attr('itemtype') || '').split(/\s+/)[0];
+  if (type) {
+    result['@type'] = type.replace(SCHEMA_ORG_REGEX, '');
+  }
+
+  $(item)
+    .find('[itemprop]')
+    .filter((_, element) => $(element).parent().closest('[itemscope]').get(0) === item)
+    .each((_, element) => {
+      const value = $(element).is('[itemscope]')
+        ? readItem($, element)
+        : readPropertyValue($, element);
+
+      for (const name of ($(element).attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+        result[name] = result[name] === undefined
+          ? value
+          : [].concat(result[name], value);
+      }
+    });
+
+  return result;
+};
+
+const readPropertyValue = ($: CheerioAPI, element: any): string => {
+  const $element = $(element);
+  const tag = element.tagName?.toLowerCase();
+
+  if ($element.attr('content') !== undefined) return $element.attr('content');
+  if (['a', 'link', 'area'].includes(tag)) return $element.attr('href') || '';
+  if (['img', 'audio', 'video', 'source', 'embed', 'iframe'].includes(tag)) {
+    return $element.attr('src') || '';
+  }
+  if (tag === 'time') return $element.attr('datetime') || collapse($element.text());
+  if (['data', 'meter'].includes(tag)) return $element.attr('value') || '';
+  return collapse($element.text());
+};
+
+// OpenGraph and Twitter cards, a record each
+const extractMetaCards = ($: CheerioAPI): IExtractedRecord[] => {
+  const og: Record<string, string> = {};
+  const twitter: Record<string, string> = {};
+
+  $('meta').each((_, element) => {
+    const key = $(element).attr('property') || $(element).attr('name') || '';
+    const content = $(element).attr('content');
+    if (content === undefined) return;
+
+    if (/^(og|article|product|book|profile|music|video):/i.test(key)) {
+      og[key.toLowerCase()] = og[key.toLowerCase()] ?? content;
+    } else if (/^twitter:/i.test(key)) {
+      twitter[key.toLowerCase()] = twitter[key.toLowerCase()] ?? content;
+    }
+  });
+
+  const records: IExtractedRecord[] = [];
+
+  if (Object.keys(og).length > 0) {
+    const type = og['og:type'] || 'website';
+    const entity = getOpenGraphEntity(type, og);
+    records.push({ source: 'opengraph', type, kind: entity?.kind ?? 'other', entity, data: og });
+  }
+
+  if (Object.keys(twitter).length > 0) {
+    records.push({
+      source: 'twitter',
+      type: twitter['twitter:card'] || 'summary',
+      kind: 'other',
+      data: twitter,
+    });
+  }
+
+  return records;
+};
+
+const getOpenGraphEntity = (type: string, og: Record<string, string>): IStructuredEntity | undefined => {
+  const title = og['og:title'];
+  if (!title) return undefined;
+
+  if (type === 'article') {
+    return compact<IArticleEntity>({
+      kind: 'article',
+      headline: title,
+      description: og['og:description'],
+      authors: og['article:author'] ? [og['article:author']] : [],
+      datePublished: og['article:published_time'],
+      dateModified: og['article:modified_time'],
+      publisher: og['og:site_name'],
+      image: og['og:image'],
+    });
+  }
+
+  if (type === 'product' || type === 'og:product') {
+    return compact<IProductEntity>({
+      kind: 'product',
+      name: title,
+      description: og['og:description'],
+      image: og['og:image'],
+      brand: og['product:brand'],
+      price: toNumber(og['product:price:amount'] ?? og['og:price:amount']),
+      currency: og['product:price:currency'] ?? og['og:price:currency'],
+      availability: og['product:availability'] ?? og['og:availability'],
+    });
+  }
+
+  return undefined;
+};
+
+/**
+ * Reads the tables holding data, leaving out the ones used for layout:
+ * tables with other tables inside or with a single column.
+ */
+const extractTables = ($: CheerioAPI): IExtractedRecord[] => {
+  const records: IExtractedRecord[] = [];
+
+  $('table').each((_, table) => {
+    const $table = $(table);
+    if ($table.find('table').length > 0) return;
+
+    const rows = $table
+      .find('tr')
+      .toArray()
+      .map((row) => $(row).children('th, td').toArray().map((cell) => collapse($(cell).text())));
+
+    let headers: string[] = [];
+    const firstRow = $table.find('tr').first();
+    if ($table.find('thead th').length > 0) {
+      headers = $table.find('thead th').toArray().map((cell) => collapse($(cell).text()));
+      rows.splice(0, $table.find('thead tr').length);
+    } else if (firstRow.children('td').length === 0) {
+      headers = rows.shift() ?? [];
+    }
+
+    const dataRows = rows.filter((row) => row.some(Boolean));
+    const columns = Math.max(headers.length, ...dataRows.map((row) => row.length));
+    if (dataRows.length < 2 || columns < 2) return;
+
+    const data: ITableData = {
+      headers,
+      rows: dataRows.slice(0, MAX_TABLE_ROWS),
+    };
+    const caption = collapse($table.children('caption').text());
+    if (caption) {
+      data.caption = caption;
+    }
+
+    records.push({ source: 'table', type: 'Table', kind: 'table', data });
+  });
+
+  return records;
+};
+
+const toRecord = (source: 'json-ld' | 'microdata', item: any): IExtractedRecord => {
+  const type = getTypes(item)[0] ?? 'Thing';
+  const entity = toEntity(item);
+  return { source, type, kind: entity?.kind ?? 'other', entity, data: item };
+};
+
+const getTypes = (item: any): string[] =>
+  [].concat(item?.['@type'] ?? []).map((type: string) => String(type).replace(SCHEMA_ORG_REGEX, ''));
+
+const getEntityKind = (item: any): EntityKind | undefined => {
+  for (const type of getTypes(item)) {
+    const match = ENTITY_TYPES.find(({ regex }) => regex.test(type));
+    if (match) return match.kind;
+  }
+  return undefined;
+};
+
+/**
+ * Normalizes the schema.org items of the kinds that are recognized. Items
+ * without a name are left as raw data.
+ */
+const toEntity = (item: any): IStructuredEntity | undefined => {
+  switch (getEntityKind(item)) {
+    case 'product': {
+      const name = text(item.name);
+      if (!name) return undefined;
+      const offers = [].concat(item.offers ?? []);
+      const prices = offers
+        .map((offer: any) => toNumber(offer?.price ?? offer?.lowPrice))
+        .filter((price: number) => price !== undefined);
+      return compact<IProductEntity>({
+        kind: 'product',
+        name,
+        description: text(item.description),
+        image: url(item.image),
+        brand: text(item.brand),
+        sku: text(item.sku),
+        price: prices.length > 0 ? Math.min(...prices) : undefined,
+        currency: text(offers[0]?.priceCurrency),
+        availability: text(offers[0]?.availability)?.replace(SCHEMA_ORG_REGEX, ''),
+        rating: toNumber(item.aggregateRating?.ratingValue),
+        reviewCount: toNumber(item.aggregateRating?.reviewCount ?? item.aggregateRating?.ratingCount),
+      });
+    }
+    case 'event': {
+      const name = text(item.name);
+      if (!name) return undefined;
+      return compact<IEventEntity>({
+        kind: 'event',
+        name,
+        description: text(item.description),
+        startDate: text(item.startDate),
+        endDate: text(item.endDate),
+        location: place(item.location),
+        organizer: text(item.organizer),
+      });
+    }
+    case 'article': {
+      const headline = text(item.headline) ?? text(item.name);
+      if (!headline) return undefined;
+      return compact<IArticleEntity>({
+        kind: 'article',
+        headline,
+        description: text(item.description),
+        authors: [].concat(item.author ?? []).map(text).filter(Boolean),
+        datePublished: text(item.datePublished),
+        dateModified: text(item.dateModified),
+        publisher: text(item.publisher),
+        image: url(item.image),
+      });
+    }
+    case 'recipe': {
+      const name = text(item.name);
+      if (!name) return undefined;
+      return compact<IRecipeEntity>({
+        kind: 'recipe',
+        name,
+        description: text(item.description),
+        ingredients: [].concat(item.recipeIngredient ?? item.ingredients ?? []).map(text).filter(Boolean),
+        instructions: instructions(item.recipeInstructions),
+        prepTime: text(item.prepTime),
+        cookTime: text(item.cookTime),
+        totalTime: text(item.totalTime),
+        recipeYield: text(item.recipeYield),
+        image: url(item.image),
+      });
+    }
+    default:
+      return undefined;
+  }
+};
+
+// The text of a value, or the name of a nested item
+const text = (value: any): string | undefined => {
+  if (Array.isArray(value)) return text(value[0]);
+  if (typeof value === 'string') return collapse(value) || undefined;
+  if (typeof value === 'number') return String(value);
+  if (value && typeof value === 'object') {
+    return text(value.name ?? value['@value'] ?? value.text);
+  }
+  return undefined;
+};
+
+const url = (value: any): string | undefined => {
+  if (Array.isArray(value)) return url(value[0]);
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object') return url(value.url ?? value.contentUrl ?? value['@id']);
+  return undefined;
+};
+
+const place = (value: any): string | undefined => {
+  if (Array.isArray(value)) return place(value[0]);
+  if (typeof value === 'string') return value;
+  if (!value || typeof value !== 'object') return undefined;
+  if (value.url && !value.address) return value.url;
+
+  const address = typeof value.address === 'object'
+    ? [
+        value.address.streetAddress,
+        value.address.addressLocality,
+        value.address.addressRegion,
+        value.address.postalCode,
+        text(value.address.addressCountry),
+      ].filter(Boolean).join(', ')
+    : value.address;
+
+  return [text(value.name), address].filter(Boolean).join(', ') || undefined;
+};
+
+// Steps may be plain text, HowToStep items or sections of steps
+const instructions = (value: any): string[] => {
+  if (!value) return [];
+  if (typeof value === 'string') {
+    return value.split(/\n+/).map(collapse).filter(Boolean);
+  }
+  if (Array.isArray(value)) return value.flatMap(instructions);
+  if (value.itemListElement) return instructions(value.itemListElement);
+  const step = text(value.text ?? value.name);
+  return step ? [step] : [];
+};
+
+// Commas are decimal separators only when there is no dot
+const toNumber = (value: any): number | undefined => {
+  let digits = String(value ?? '').replace(/[^\d.,-]/g, '');
+  digits = digits.includes('.') ? digits.replace(/,/g, '') : digits.replace(',', '.');
+  const number = parseFloat(digits);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const collapse = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+// Leaves out the fields that weren't found
+const compact = <T>(entity: T): T => {
+  for (const key of Object.keys(entity)) {
+    if ((entity as any)[key] === undefined) {
+      delete (entity as any)[key];
+    }
+  }
+  return entity;
+};
@@ -21,6 +21,7 @@ const mainConfig = getConfig({
   entry: {
     main: './src/main',
     worker: './src/main/services/worker.ts',
+    'embedding-worker': './src/main/services/embedding-worker.ts',
   },
   output: {
     filename: '[name].bundle.js',
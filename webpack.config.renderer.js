@@ -57,6 +57,7 @@ applyEntries(appConfig, [
   'history',
   'newtab',
   'bookmarks',
+  'network',
 ]);
 
 if (process.env.ENABLE_EXTENSIONS) {